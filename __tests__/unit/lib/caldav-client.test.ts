@@ -0,0 +1,196 @@
+/**
+ * @jest-environment node
+ */
+
+import { createCalDAVCalendar, parseMultiStatus } from '@/lib/caldav-client'
+import { applyEventChanges, serializeCalendarEvent } from '@/lib/ics-writer'
+import { fromGoogleEvent, revisionHash } from '@/lib/two-way-sync'
+import { SOURCE_UID_PROPERTY } from '@/lib/event-identity'
+
+const COLLECTION = 'https://dav.example.com/calendars/alice/work/'
+
+const ICS = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Test//EN',
+  'BEGIN:VEVENT',
+  'UID:standup-1',
+  'DTSTAMP:20240301T080000Z',
+  'DTSTART:20240318T090000Z',
+  'DTEND:20240318T093000Z',
+  'SUMMARY:Standup',
+  'ATTENDEE;CN=Bob:mailto:bob@example.com',
+  'END:VEVENT',
+  'END:VCALENDAR',
+  '',
+].join('\r\n')
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/** In-process CalDAV server: resources with ETags, calendar-query, conditional writes */
+function createCalDAVStandIn() {
+  const resources = new Map<string, { etag: string; data: string }>()
+  const requests: Array<{ method: string; url: string; headers: Record<string, string> }> = []
+  let revision = 0
+
+  const put = (url: string, data: string) => {
+    const etag = `"${++revision}"`
+    resources.set(url, { etag, data })
+    return etag
+  }
+
+  const fetchImpl = async (url: string, init: RequestInit) => {
+    const headers = (init.headers || {}) as Record<string, string>
+    const method = init.method || 'GET'
+    requests.push({ method, url, headers })
+    const existing = resources.get(url)
+
+    if (headers['If-Match'] && existing?.etag !== headers['If-Match']) {
+      return new Response(null, { status: 412 })
+    }
+
+    switch (method) {
+      case 'REPORT': {
+        const responses = Array.from(resources.entries()).map(([href, resource]) => `
+  <d:response>
+    <d:href>${new URL(href).pathname}</d:href>
+    <d:propstat>
+      <d:prop>
+        <d:getetag>${escapeXml(resource.etag)}</d:getetag>
+        <cal:calendar-data>${escapeXml(resource.data)}</cal:calendar-data>
+      </d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>`)
+        return new Response(
+          `<?xml version="1.0"?><d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav">${responses.join('')}</d:multistatus>`,
+          { status: 207 }
+        )
+      }
+      case 'GET':
+        return existing
+          ? new Response(existing.data, { status: 200, headers: { etag: existing.etag } })
+          : new Response(null, { status: 404 })
+      case 'PUT': {
+        if (headers['If-None-Match'] === '*' && existing) {
+          return new Response(null, { status: 412 })
+        }
+        const etag = put(url, init.body as string)
+        return new Response(null, { status: existing ? 204 : 201, headers: { etag } })
+      }
+      case 'DELETE':
+        if (!existing) return new Response(null, { status: 404 })
+        resources.delete(url)
+        return new Response(null, { status: 204 })
+      default:
+        return new Response(null, { status: 405 })
+    }
+  }
+
+  return { resources, requests, put, fetchImpl }
+}
+
+describe('CalDAV client', () => {
+  const range: [Date, Date] = [new Date('2024-03-01T00:00:00Z'), new Date('2024-04-01T00:00:00Z')]
+
+  it('should list events with their resource and ETag', async () => {
+    const server = createCalDAVStandIn()
+    server.put(`${COLLECTION}standup-1.ics`, ICS)
+    const calendar = createCalDAVCalendar(COLLECTION, { username: 'alice', password: 'secret' }, server.fetchImpl)
+
+    const events = await calendar.listEvents(...range)
+
+    expect(events).toHaveLength(1)
+    expect(events[0]).toMatchObject({ href: `${COLLECTION}standup-1.ics`, etag: '"1"' })
+    expect(events[0].event).toMatchObject({ uid: 'standup-1', summary: 'Standup' })
+    expect(server.requests[0]).toMatchObject({ method: 'REPORT', url: COLLECTION })
+    expect(server.requests[0].headers.Authorization).toBe(`Basic ${Buffer.from('alice:secret').toString('base64')}`)
+  })
+
+  it('should create, update and delete resources', async () => {
+    const server = createCalDAVStandIn()
+    const calendar = createCalDAVCalendar(COLLECTION, null, server.fetchImpl)
+    const event = {
+      uid: 'new@example.com',
+      summary: 'Planning',
+      start: new Date('2024-03-20T14:00:00Z'),
+      end: new Date('2024-03-20T15:00:00Z'),
+    }
+
+    const created = await calendar.createEvent(event.uid, serializeCalendarEvent(event))
+    expect(created.href).toBe(`${COLLECTION}new%40example.com.ics`)
+
+    const updated = await calendar.updateEvent(created, serializeCalendarEvent({ ...event, summary: 'Planning (moved)' }))
+    expect(updated.etag).not.toBe(created.etag)
+    expect((await calendar.getEvent(created.href))?.event.summary).toBe('Planning (moved)')
+
+    await calendar.deleteEvent(updated)
+    expect(server.resources.size).toBe(0)
+    expect(await calendar.getEvent(created.href)).toBeNull()
+  })
+
+  it('should not overwrite a resource changed since it was listed', async () => {
+    const server = createCalDAVStandIn()
+    server.put(`${COLLECTION}standup-1.ics`, ICS)
+    const calendar = createCalDAVCalendar(COLLECTION, null, server.fetchImpl)
+
+    const [listed] = await calendar.listEvents(...range)
+    server.put(listed.href, ICS.replace('SUMMARY:Standup', 'SUMMARY:Standup (edited on the server)'))
+
+    await expect(calendar.updateEvent(listed, ICS)).rejects.toThrow('CALDAV_PRECONDITION_FAILED')
+    await expect(calendar.deleteEvent(listed)).rejects.toThrow('CALDAV_PRECONDITION_FAILED')
+    await expect(calendar.createEvent('standup-1', ICS)).rejects.toThrow('CALDAV_PRECONDITION_FAILED')
+  })
+
+  it('should write a Google edit back so both sides agree', async () => {
+    const server = createCalDAVStandIn()
+    server.put(`${COLLECTION}standup-1.ics`, ICS)
+    const calendar = createCalDAVCalendar(COLLECTION, null, server.fetchImpl)
+    const [listed] = await calendar.listEvents(...range)
+
+    const googleEvent = fromGoogleEvent({
+      id: 'g1',
+      summary: 'Standup (remote)',
+      location: 'Video call',
+      start: { dateTime: '2024-03-18T10:00:00+01:00', timeZone: 'Europe/Berlin' },
+      end: { dateTime: '2024-03-18T10:45:00+01:00', timeZone: 'Europe/Berlin' },
+      extendedProperties: { private: { [SOURCE_UID_PROPERTY]: 'standup-1' } },
+    })
+
+    await calendar.updateEvent(listed, applyEventChanges(listed.data, { ...googleEvent, uid: 'standup-1' }))
+    const [relisted] = await calendar.listEvents(...range)
+
+    expect(revisionHash(relisted.event)).toBe(revisionHash(googleEvent))
+    expect(relisted.data).toContain('ATTENDEE;CN=Bob:mailto:bob@example.com')
+  })
+
+  it('should resolve hrefs of multistatus responses against the collection', () => {
+    const xml = `<multistatus xmlns="DAV:"><response><href>/calendars/alice/work/a.ics</href>
+      <propstat><prop><getetag>&quot;abc&quot;</getetag><C:calendar-data xmlns:C="urn:ietf:params:xml:ns:caldav"><![CDATA[${ICS}]]></C:calendar-data></prop></propstat>
+      </response><response><href>/calendars/alice/work/</href><propstat><prop><getetag>"x"</getetag></prop></propstat></response></multistatus>`
+
+    expect(parseMultiStatus(xml, COLLECTION)).toEqual([
+      { href: `${COLLECTION}a.ics`, etag: '"abc"', data: ICS },
+    ])
+  })
+
+  it('should skip multistatus hrefs on another origin', () => {
+    const xml = `<multistatus xmlns="DAV:"><response><href>https://attacker.example.net/a.ics</href>
+      <propstat><prop><getetag>"abc"</getetag><C:calendar-data xmlns:C="urn:ietf:params:xml:ns:caldav"><![CDATA[${ICS}]]></C:calendar-data></prop></propstat>
+      </response><response><href>//attacker.example.net/b.ics</href>
+      <propstat><prop><getetag>"def"</getetag><C:calendar-data xmlns:C="urn:ietf:params:xml:ns:caldav"><![CDATA[${ICS}]]></C:calendar-data></prop></propstat>
+      </response></multistatus>`
+
+    expect(parseMultiStatus(xml, COLLECTION)).toEqual([])
+  })
+
+  it('should not send credentials to resources on another origin', async () => {
+    const server = createCalDAVStandIn()
+    const calendar = createCalDAVCalendar(COLLECTION, { username: 'alice', password: 'secret' }, server.fetchImpl)
+
+    await expect(calendar.getEvent('https://attacker.example.net/a.ics')).rejects.toThrow('is not on the CalDAV server')
+    expect(server.requests).toEqual([])
+  })
+})
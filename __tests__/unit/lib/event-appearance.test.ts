@@ -0,0 +1,69 @@
+import { buildAppearanceFields, eventAppearanceSchema, formatReminders, getSyncEventAppearance } from '@/lib/event-appearance'
+import { buildGoogleEventBody } from '@/lib/google-event-body'
+import type { CalendarEvent } from '@/lib/ics-parser'
+
+describe('Event appearance', () => {
+  const event: CalendarEvent = {
+    uid: 'review@example.com',
+    summary: 'Quarterly Review',
+    start: new Date('2024-03-18T09:00:00Z'),
+    end: new Date('2024-03-18T10:00:00Z'),
+  }
+
+  describe('eventAppearanceSchema', () => {
+    it('should accept Google colors, reminder overrides and visibility', () => {
+      const parsed = eventAppearanceSchema.safeParse({
+        colorId: '11',
+        reminders: [{ method: 'popup', minutes: 15 }],
+        visibility: 'private',
+        transparency: 'transparent',
+      })
+
+      expect(parsed.success).toBe(true)
+    })
+
+    it('should reject values Google would refuse', () => {
+      expect(eventAppearanceSchema.safeParse({ colorId: '12' }).success).toBe(false)
+      expect(eventAppearanceSchema.safeParse({ reminders: [{ method: 'sms', minutes: 10 }] }).success).toBe(false)
+      expect(eventAppearanceSchema.safeParse({ reminders: [{ method: 'popup', minutes: 40321 }] }).success).toBe(false)
+      expect(eventAppearanceSchema.safeParse({
+        reminders: Array.from({ length: 6 }, () => ({ method: 'popup', minutes: 5 })),
+      }).success).toBe(false)
+    })
+  })
+
+  describe('buildAppearanceFields', () => {
+    it('should leave out unset settings', () => {
+      expect(buildAppearanceFields(null)).toEqual({})
+      expect(buildAppearanceFields({ colorId: '5' })).toEqual({ colorId: '5' })
+    })
+
+    it('should turn an empty reminder list into no reminders', () => {
+      expect(buildAppearanceFields({ reminders: [] })).toEqual({ reminders: { useDefault: false, overrides: [] } })
+    })
+
+    it('should be part of the event body written to Google', () => {
+      const body = buildGoogleEventBody(event, 'UTC', 'sync-1', { visibility: 'private', transparency: 'transparent' })
+
+      expect(body).toEqual(expect.objectContaining({ summary: 'Quarterly Review', visibility: 'private', transparency: 'transparent' }))
+      expect(body).not.toHaveProperty('colorId')
+    })
+  })
+
+  it('should format reminders for comparison', () => {
+    expect(formatReminders(undefined)).toBe('calendar default')
+    expect(formatReminders({ useDefault: true })).toBe('calendar default')
+    expect(formatReminders({ useDefault: false, overrides: [] })).toBe('none')
+    expect(formatReminders({
+      useDefault: false,
+      overrides: [{ method: 'popup', minutes: 10 }, { method: 'email', minutes: 60 }],
+    })).toBe('email 60m, popup 10m')
+  })
+
+  it('should treat empty or invalid stored settings as calendar defaults', () => {
+    expect(getSyncEventAppearance({ eventAppearance: null })).toBeNull()
+    expect(getSyncEventAppearance({ eventAppearance: {} })).toBeNull()
+    expect(getSyncEventAppearance({ eventAppearance: { colorId: 'red' } })).toBeNull()
+    expect(getSyncEventAppearance({ eventAppearance: { reminders: [] } })).toEqual({ reminders: [] })
+  })
+})
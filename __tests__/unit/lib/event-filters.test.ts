@@ -0,0 +1,109 @@
+import {
+  applyEventFilters,
+  evaluateEventFilters,
+  filterRulesSchema,
+  getSyncFilterRules,
+  FilterRule,
+} from '@/lib/event-filters'
+import type { CalendarEvent } from '@/lib/ics-parser'
+
+describe('Event filters', () => {
+  const event = (summary: string, overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+    uid: `${summary}@example.com`,
+    summary,
+    start: new Date('2024-03-18T09:00:00Z'),
+    end: new Date('2024-03-18T10:00:00Z'),
+    ...overrides,
+  })
+
+  const review = event('Platform Review', { description: 'Quarterly platform review', location: 'Room 4' })
+  const ooo = event('OOO - Alice')
+  const tentative = event('Platform Sync', { status: 'TENTATIVE' })
+  const allDay = event('Offsite', { end: new Date('2024-03-19T09:00:00Z') })
+
+  it('should keep every event without rules', () => {
+    expect(applyEventFilters([review, ooo], [])).toEqual([review, ooo])
+    expect(applyEventFilters([review, ooo], null)).toEqual([review, ooo])
+  })
+
+  it('should drop events matching an exclude rule, case-insensitively by default', () => {
+    const rules: FilterRule[] = [
+      { action: 'exclude', field: 'summary', operator: 'contains', value: 'ooo' },
+      { action: 'exclude', field: 'status', operator: 'equals', value: 'tentative' },
+    ]
+
+    expect(applyEventFilters([review, ooo, tentative], rules)).toEqual([review])
+  })
+
+  it('should only keep events matching an include rule when there are any', () => {
+    const rules: FilterRule[] = [
+      { action: 'include', field: 'summary', operator: 'regex', value: '^platform' },
+      { action: 'exclude', field: 'status', operator: 'equals', value: 'TENTATIVE' },
+    ]
+
+    const decisions = evaluateEventFilters([review, ooo, tentative], rules)
+
+    expect(decisions.map(decision => decision.kept)).toEqual([true, false, false])
+    expect(decisions[1].reason).toBe('Matches no include rule')
+    expect(decisions[2]).toEqual(expect.objectContaining({ ruleIndex: 1, reason: 'Matches exclude status equals "TENTATIVE"' }))
+  })
+
+  it('should respect caseSensitive and match description and location', () => {
+    expect(applyEventFilters([review], [{ action: 'include', field: 'description', operator: 'contains', value: 'quarterly', caseSensitive: true }])).toEqual([])
+    expect(applyEventFilters([review], [{ action: 'include', field: 'location', operator: 'equals', value: 'room 4' }])).toEqual([review])
+  })
+
+  it('should filter on duration in minutes', () => {
+    const rules: FilterRule[] = [{ action: 'exclude', field: 'duration', operator: 'atLeast', value: 8 * 60 }]
+
+    expect(applyEventFilters([review, allDay], rules)).toEqual([review])
+  })
+
+  it('should match backtracking-prone patterns in linear time', () => {
+    const rules: FilterRule[] = [
+      { action: 'exclude', field: 'summary', operator: 'regex', value: '.*.*.*.*z' },
+      { action: 'exclude', field: 'description', operator: 'regex', value: '^(a+)+$' },
+    ]
+    expect(filterRulesSchema.safeParse(rules).success).toBe(true)
+    const slow = { ...review, summary: 'a'.repeat(4000), description: `${'a'.repeat(4000)}!` }
+
+    const started = Date.now()
+    expect(applyEventFilters([slow], rules)).toEqual([slow])
+    expect(Date.now() - started).toBeLessThan(1000)
+  })
+
+  it('should only match regular expressions against the start of long fields', () => {
+    const rules: FilterRule[] = [{ action: 'exclude', field: 'description', operator: 'regex', value: 'confidential' }]
+    const longNotes = { ...review, description: `${'x'.repeat(6000)} confidential` }
+
+    expect(applyEventFilters([longNotes], rules)).toEqual([longNotes])
+  })
+
+  describe('filterRulesSchema', () => {
+    it('should reject invalid regular expressions and operators for the field', () => {
+      expect(filterRulesSchema.safeParse([{ action: 'include', field: 'summary', operator: 'regex', value: '([' }]).success).toBe(false)
+      expect(filterRulesSchema.safeParse([{ action: 'include', field: 'duration', operator: 'contains', value: 30 }]).success).toBe(false)
+      expect(filterRulesSchema.safeParse([{ action: 'keep', field: 'summary', operator: 'contains', value: 'x' }]).success).toBe(false)
+    })
+
+    it('should reject patterns RE2 cannot run and overlong patterns', () => {
+      const regexRule = (value: string) => [{ action: 'exclude', field: 'description', operator: 'regex', value }]
+
+      expect(filterRulesSchema.safeParse(regexRule('(a)\\1')).success).toBe(false)
+      expect(filterRulesSchema.safeParse(regexRule('standup(?!s)')).success).toBe(false)
+      expect(filterRulesSchema.safeParse(regexRule('x'.repeat(201))).success).toBe(false)
+    })
+
+    it('should accept valid rules', () => {
+      expect(filterRulesSchema.safeParse([
+        { action: 'include', field: 'summary', operator: 'regex', value: 'standup|review' },
+        { action: 'exclude', field: 'duration', operator: 'atMost', value: '5' },
+      ]).success).toBe(true)
+    })
+  })
+
+  it('should ignore stored rules that no longer parse', () => {
+    expect(getSyncFilterRules({ filterRules: [{ field: 'unknown' }] })).toEqual([])
+    expect(getSyncFilterRules({ filterRules: null })).toEqual([])
+  })
+})
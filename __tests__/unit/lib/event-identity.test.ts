@@ -0,0 +1,98 @@
+import {
+  buildEventKey,
+  buildSyncedEventProperties,
+  getGoogleEventKey,
+  getSourceTag,
+  getSourceUid,
+  getSyncId,
+  isLegacyMarkedEvent,
+} from '@/lib/event-identity'
+import { CalendarEvent } from '@/lib/ics-parser'
+
+describe('Event identity', () => {
+  const sourceEvent: CalendarEvent = {
+    uid: 'standup-123-1710754200000',
+    summary: 'Weekly Standup',
+    start: new Date('2024-03-18T09:30:00Z'),
+    end: new Date('2024-03-18T10:00:00Z'),
+  }
+
+  describe('buildSyncedEventProperties', () => {
+    it('should store source UID, sync id and instance start as private properties', () => {
+      expect(buildSyncedEventProperties(sourceEvent, 'sync-1')).toEqual({
+        private: {
+          sourceUid: 'standup-123-1710754200000',
+          syncId: 'sync-1',
+          instanceStart: '2024-03-18T09:30:00.000Z',
+        },
+      })
+    })
+
+    it('should also store the source tag of multi-source syncs', () => {
+      const properties = buildSyncedEventProperties({ ...sourceEvent, sourceTag: 'Vendor A' }, 'sync-1')
+
+      expect(properties?.private).toEqual(expect.objectContaining({ sourceTag: 'Vendor A' }))
+      expect(getSourceTag({ extendedProperties: properties })).toBe('Vendor A')
+    })
+
+    it('should store the original start of a recurring event override', () => {
+      const override = { ...sourceEvent, recurrenceId: new Date('2024-03-18T09:30:00Z'), start: new Date('2024-03-19T09:30:00Z') }
+
+      expect(buildSyncedEventProperties(override, 'sync-1')?.private).toEqual(expect.objectContaining({
+        recurrenceId: '2024-03-18T09:30:00.000Z',
+      }))
+    })
+  })
+
+  describe('getGoogleEventKey', () => {
+    it('should build the same key as the source side from extended properties', () => {
+      const googleEvent = {
+        id: 'g1',
+        description: 'Edited by someone',
+        start: { dateTime: '2024-03-18T11:00:00+01:00' }, // Moved in Google
+        extendedProperties: buildSyncedEventProperties(sourceEvent, 'sync-1'),
+      }
+
+      expect(getGoogleEventKey(googleEvent)).toBe(buildEventKey(sourceEvent.uid, sourceEvent.start))
+      expect(getSyncId(googleEvent)).toBe('sync-1')
+      expect(isLegacyMarkedEvent(googleEvent)).toBe(false)
+    })
+
+    it('should fall back to the legacy description marker and start time', () => {
+      const legacyEvent = {
+        id: 'g2',
+        description: 'Agenda\n\nOriginal UID: standup-123-1710754200000  ',
+        start: { dateTime: '2024-03-18T10:30:00+01:00' },
+      }
+
+      expect(isLegacyMarkedEvent(legacyEvent)).toBe(true)
+      expect(getSourceUid(legacyEvent)).toBe('standup-123-1710754200000')
+      expect(getGoogleEventKey(legacyEvent)).toBe('standup-123-1710754200000:2024-03-18T09:30:00.000Z')
+      expect(getSyncId(legacyEvent)).toBeUndefined()
+    })
+
+    it('should use the date of all-day events', () => {
+      const allDayEvent = {
+        description: 'Original UID: holiday-1',
+        start: { date: '2024-08-15' },
+      }
+
+      expect(getGoogleEventKey(allDayEvent)).toBe('holiday-1:2024-08-15T00:00:00.000Z')
+    })
+
+    it('should ignore events not written by a sync', () => {
+      expect(getGoogleEventKey({ description: 'Lunch', start: { dateTime: '2024-03-18T12:00:00Z' } })).toBeUndefined()
+    })
+
+    it('should ignore instances of a synced recurring event', () => {
+      const instance = {
+        id: 'series1_20240318T093000Z',
+        recurringEventId: 'series1',
+        start: { dateTime: '2024-03-18T09:30:00Z' },
+        extendedProperties: buildSyncedEventProperties(sourceEvent, 'sync-1'),
+      }
+
+      expect(getGoogleEventKey(instance)).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,99 @@
+const mockWhere = jest.fn()
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    select: () => ({ from: () => ({ where: mockWhere }) }),
+  },
+}))
+
+import {
+  generateContentHash,
+  generateEventHash,
+  generateFuzzyHash,
+  getEventMappings,
+  normalizeEventTitle,
+} from '@/lib/event-mappings'
+import { buildEventKey } from '@/lib/event-identity'
+
+describe('Event mappings', () => {
+  const start = new Date('2024-03-18T09:30:00Z')
+
+  describe('generateEventHash', () => {
+    it('should ignore case and surrounding whitespace', () => {
+      expect(generateEventHash(' Weekly Standup ', start, 'Agenda', 'Teams'))
+        .toBe(generateEventHash('weekly standup', start, 'agenda ', 'TEAMS'))
+    })
+
+    it('should change when the start time or content changes', () => {
+      const hash = generateEventHash('Weekly Standup', start, 'Agenda', 'Teams')
+
+      expect(generateEventHash('Weekly Standup', new Date('2024-03-18T10:00:00Z'), 'Agenda', 'Teams')).not.toBe(hash)
+      expect(generateEventHash('Weekly Standup', start, 'New agenda', 'Teams')).not.toBe(hash)
+    })
+  })
+
+  describe('generateFuzzyHash', () => {
+    it('should match titles differing only in filler words within the same hour', () => {
+      expect(generateFuzzyHash('Review of the roadmap', start))
+        .toBe(generateFuzzyHash('Review roadmap', new Date('2024-03-18T09:45:00Z')))
+    })
+  })
+
+  describe('generateContentHash', () => {
+    const event = {
+      uid: 'standup-1',
+      summary: 'Weekly Standup',
+      description: 'Agenda',
+      location: 'Teams',
+      start,
+      end: new Date('2024-03-18T10:00:00Z'),
+      sourceTimezone: 'Romance Standard Time',
+    }
+
+    it('should be stable for an unchanged event', () => {
+      expect(generateContentHash({ ...event }, { userTimeZone: 'Europe/Madrid' }))
+        .toBe(generateContentHash({ ...event, sourceTimezone: 'Europe/Paris' }, { userTimeZone: 'Europe/Madrid' }))
+    })
+
+    it('should change with anything written to Google', () => {
+      const hash = generateContentHash(event)
+
+      expect(generateContentHash({ ...event, end: new Date('2024-03-18T10:15:00Z') })).not.toBe(hash)
+      expect(generateContentHash({ ...event, status: 'CANCELLED' })).not.toBe(hash)
+      expect(generateContentHash({ ...event, allDay: true })).not.toBe(hash)
+      expect(generateContentHash({ ...event, location: 'Room 2.01' })).not.toBe(hash)
+      expect(generateContentHash(event, { userTimeZone: 'Europe/Madrid' })).not.toBe(hash)
+    })
+
+    it('should change with the rule, exceptions and overrides of a recurring series', () => {
+      const series = { ...event, recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO' }
+      const override = { ...event, recurrenceId: start, start: new Date('2024-03-19T09:30:00Z'), end: new Date('2024-03-19T10:00:00Z') }
+      const hash = generateContentHash(series)
+
+      expect(hash).not.toBe(generateContentHash(event))
+      expect(generateContentHash({ ...series, recurrenceRule: 'FREQ=WEEKLY;BYDAY=TU' })).not.toBe(hash)
+      expect(generateContentHash({ ...series, exceptionDates: [new Date('2024-03-25T09:30:00Z')] })).not.toBe(hash)
+      expect(generateContentHash({ ...series, overrides: [override] }))
+        .not.toBe(generateContentHash({ ...series, overrides: [{ ...override, location: 'Room 2.01' }] }))
+    })
+  })
+
+  it('should normalize titles for fuzzy matching', () => {
+    expect(normalizeEventTitle('  Weekly   Standup ')).toBe('weekly standup')
+  })
+
+  describe('getEventMappings', () => {
+    it('should key mappings like the duplicate-detection lookup', async () => {
+      mockWhere.mockResolvedValue([
+        { sourceUid: 'standup-1', startDateTime: start, googleEventId: 'g1' },
+        { sourceUid: 'holiday-1', startDateTime: new Date('2024-03-19T00:00:00Z'), googleEventId: 'g2' },
+      ])
+
+      const mappings = await getEventMappings('sync-1', new Date('2024-03-01'), new Date('2024-04-01'))
+
+      expect(mappings.size).toBe(2)
+      expect(mappings.get(buildEventKey('standup-1', start))?.googleEventId).toBe('g1')
+      expect(mappings.get('holiday-1:2024-03-19T00:00:00.000Z')?.googleEventId).toBe('g2')
+    })
+  })
+})
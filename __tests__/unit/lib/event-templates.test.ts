@@ -0,0 +1,65 @@
+import { applyEventTemplates, eventTemplatesSchema, getSyncEventTemplates, renderTemplate, validateTemplate } from '@/lib/event-templates'
+import type { CalendarEvent } from '@/lib/ics-parser'
+
+describe('Event templates', () => {
+  const event: CalendarEvent = {
+    uid: 'review@example.com',
+    summary: 'Quarterly Review',
+    description: 'Agenda attached',
+    location: 'Room 4',
+    start: new Date('2024-03-18T09:00:00Z'),
+    end: new Date('2024-03-18T10:00:00Z'),
+    sourceTimezone: 'Europe/London',
+  }
+
+  describe('renderTemplate', () => {
+    it('should fill placeholders from the event', () => {
+      expect(renderTemplate('[Vendor] {summary}', event)).toBe('[Vendor] Quarterly Review')
+      expect(renderTemplate('{description}\n\nLocation: {location}', event)).toBe('Agenda attached\n\nLocation: Room 4')
+      expect(renderTemplate('{start} ({timezone})', event)).toBe('2024-03-18T09:00:00.000Z (Europe/London)')
+    })
+
+    it('should fill the source tag of multi-source syncs', () => {
+      expect(renderTemplate('[{source}] {summary}', { ...event, sourceTag: 'Vendor A' })).toBe('[Vendor A] Quarterly Review')
+    })
+
+    it('should render missing fields as empty text and unescape braces', () => {
+      expect(renderTemplate('{{team}} {summary} {location}', { ...event, location: undefined })).toBe('{team} Quarterly Review')
+    })
+  })
+
+  describe('validateTemplate', () => {
+    it('should reject unknown placeholders and unmatched braces', () => {
+      expect(validateTemplate('{title}')).toMatch(/^unknown placeholder \{title\}/)
+      expect(validateTemplate('{summary')).toMatch(/unmatched brace/)
+      expect(validateTemplate('{{literal}} {summary}')).toBeNull()
+    })
+
+    it('should report problems through the schema', () => {
+      const parsed = eventTemplatesSchema.safeParse({ summary: '{organizer}: {summary}' })
+
+      expect(parsed.success).toBe(false)
+      expect(eventTemplatesSchema.safeParse({ summary: '[Vendor] {summary}', attendees: '{x}' }).success).toBe(false)
+    })
+  })
+
+  describe('applyEventTemplates', () => {
+    it('should only rewrite fields that have a template', () => {
+      expect(applyEventTemplates(event, { summary: '[Vendor] {summary}' })).toEqual({
+        ...event,
+        summary: '[Vendor] Quarterly Review',
+      })
+    })
+
+    it('should keep the source title when the template renders nothing', () => {
+      expect(applyEventTemplates({ ...event, location: undefined }, { summary: '{location}' }).summary).toBe('Quarterly Review')
+    })
+  })
+
+  it('should treat empty or invalid stored templates as none', () => {
+    expect(getSyncEventTemplates({ eventTemplates: null })).toBeNull()
+    expect(getSyncEventTemplates({ eventTemplates: { summary: '' } })).toBeNull()
+    expect(getSyncEventTemplates({ eventTemplates: { summary: '{bad}' } })).toBeNull()
+    expect(getSyncEventTemplates({ eventTemplates: { location: '{location}, HQ' } })).toEqual({ location: '{location}, HQ' })
+  })
+})
@@ -0,0 +1,88 @@
+import { feedCacheUpdate, getFeedValidators, CLEARED_FEED_CACHE } from '@/lib/feed-cache'
+import { fetchICSFeed } from '@/lib/ics-parser'
+
+describe('Feed cache', () => {
+  const fetchedAt = new Date(2024, 2, 18, 8, 0)
+  const config = {
+    syncDaysPast: 7,
+    syncDaysFuture: 30,
+    feedEtag: '"v1"',
+    feedLastModified: 'Mon, 18 Mar 2024 07:00:00 GMT',
+    feedFetchedAt: fetchedAt,
+  }
+
+  describe('getFeedValidators', () => {
+    it('should send the stored validators while the sync window is unchanged', () => {
+      expect(getFeedValidators(config, new Date(2024, 2, 18, 20, 0))).toEqual({
+        etag: '"v1"',
+        lastModified: 'Mon, 18 Mar 2024 07:00:00 GMT',
+      })
+    })
+
+    it('should force a full download once the window has moved', () => {
+      expect(getFeedValidators(config, new Date(2024, 2, 19, 0, 30))).toEqual({})
+    })
+
+    it('should force a full download when nothing was cached', () => {
+      expect(getFeedValidators({ ...config, feedFetchedAt: null })).toEqual({})
+      expect(getFeedValidators({ ...config, feedEtag: null, feedLastModified: null }, fetchedAt)).toEqual({})
+    })
+  })
+
+  describe('feedCacheUpdate', () => {
+    it('should store validators of an error-free sync', () => {
+      const now = new Date()
+      expect(feedCacheUpdate({ etag: '"v2"' }, true, now)).toEqual({
+        feedEtag: '"v2"',
+        feedLastModified: null,
+        feedFetchedAt: now,
+      })
+    })
+
+    it('should clear validators after errors', () => {
+      expect(feedCacheUpdate({ etag: '"v2"' }, false)).toEqual(CLEARED_FEED_CACHE)
+    })
+  })
+
+  describe('fetchICSFeed', () => {
+    const mockFetch = global.fetch as jest.Mock
+
+    it('should send conditional headers and report 304 as not modified', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 304, statusText: 'Not Modified' })
+
+      const result = await fetchICSFeed('https://example.com/cal.ics', getFeedValidators(config, fetchedAt))
+
+      expect(result).toEqual({ notModified: true })
+      expect(mockFetch).toHaveBeenLastCalledWith('https://example.com/cal.ics', {
+        headers: expect.objectContaining({
+          'If-None-Match': '"v1"',
+          'If-Modified-Since': 'Mon, 18 Mar 2024 07:00:00 GMT',
+        }),
+      })
+    })
+
+    it('should return the feed and its new validators', async () => {
+      const headers = new Map([['etag', '"v2"']])
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: { get: (name: string) => headers.get(name) ?? null },
+        text: () => Promise.resolve('BEGIN:VCALENDAR\nEND:VCALENDAR'),
+      })
+
+      const result = await fetchICSFeed('https://example.com/cal.ics')
+
+      expect(result).toEqual({
+        notModified: false,
+        icsData: 'BEGIN:VCALENDAR\nEND:VCALENDAR',
+        validators: { etag: '"v2"', lastModified: null },
+      })
+    })
+
+    it('should throw on other error statuses', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Server Error' })
+
+      await expect(fetchICSFeed('https://example.com/cal.ics')).rejects.toThrow('Failed to fetch ICS: 500 Server Error')
+    })
+  })
+})
@@ -0,0 +1,212 @@
+import type { calendar_v3 } from 'googleapis'
+import { executeGoogleBatch, parseBatchResponse, serializeBatchRequest } from '@/lib/google-batch'
+import { createQuotaUsage, trackClientQuota } from '@/lib/google-quota'
+
+const client = {
+  context: { _options: { auth: { getRequestHeaders: async () => ({ Authorization: 'Bearer token-1' }) } } },
+} as unknown as calendar_v3.Calendar
+
+interface BatchItem {
+  method: string
+  path: string
+  body?: any
+}
+
+function parseBatchRequest(body: string, contentType: string): BatchItem[] {
+  const boundary = contentType.match(/boundary=(\S+)/)![1]
+  return body.split(`--${boundary}`).flatMap(part => {
+    const request = part.match(/(GET|POST|PUT|PATCH|DELETE) (\S+) HTTP\/1\.1/)
+    if (!request) return []
+    const json = part.slice(part.indexOf('{'))
+    return [{ method: request[1], path: request[2], ...(part.includes('{') && { body: JSON.parse(json) }) }]
+  })
+}
+
+/** In-process batch endpoint answering each item with `respond` */
+function createBatchStandIn(respond: (item: BatchItem, call: number) => { status: number; body?: any }) {
+  const calls: BatchItem[][] = []
+
+  const fetchImpl = async (url: string, init: RequestInit) => {
+    const headers = init.headers as Record<string, string>
+    const items = parseBatchRequest(init.body as string, headers['Content-Type'])
+    calls.push(items)
+
+    const parts = items.map((item, index) => {
+      const { status, body } = respond(item, calls.length)
+      return [
+        '--batch_response',
+        'Content-Type: application/http',
+        `Content-ID: <response-item-${index}>`,
+        '',
+        `HTTP/1.1 ${status} ${status < 300 ? 'OK' : 'Error'}`,
+        'Content-Type: application/json; charset=UTF-8',
+        '',
+        body ? JSON.stringify(body) : '',
+      ].join('\r\n')
+    })
+
+    return new Response(`${parts.join('\r\n')}\r\n--batch_response--`, {
+      status: 200,
+      headers: { 'content-type': 'multipart/mixed; boundary=batch_response' },
+    })
+  }
+
+  return { fetchImpl, calls }
+}
+
+describe('Google batch requests', () => {
+  beforeEach(() => {
+    // Run retry delays right away
+    (global.setTimeout as unknown as jest.Mock).mockImplementation((fn: () => void) => {
+      fn()
+      return 0
+    })
+  })
+
+  const event = (summary: string) => ({ summary, start: { dateTime: '2024-03-18T09:00:00Z' } })
+
+  describe('serializeBatchRequest', () => {
+    it('should write one HTTP request per operation', () => {
+      const body = serializeBatchRequest('team@group.calendar.google.com', [
+        { method: 'insert', requestBody: event('Standup') },
+        { method: 'delete', eventId: 'e2' },
+      ], 'b1')
+
+      expect(body).toContain('Content-ID: <item-0>\r\n\r\nPOST /calendar/v3/calendars/team%40group.calendar.google.com/events HTTP/1.1')
+      expect(body).toContain('{"summary":"Standup"')
+      expect(body).toContain('DELETE /calendar/v3/calendars/team%40group.calendar.google.com/events/e2 HTTP/1.1')
+      expect(body.endsWith('--b1--\r\n')).toBe(true)
+    })
+  })
+
+  describe('parseBatchResponse', () => {
+    it('should map item results by Content-ID, whatever their order', () => {
+      const body = [
+        '--r1',
+        'Content-Type: application/http',
+        'Content-ID: <response-item-1>',
+        '',
+        'HTTP/1.1 404 Not Found',
+        '',
+        '{"error":{"code":404,"message":"Not Found"}}',
+        '--r1',
+        'Content-Type: application/http',
+        'Content-ID: <response-item-0>',
+        '',
+        'HTTP/1.1 204 No Content',
+        '',
+        '',
+        '--r1--',
+      ].join('\r\n')
+
+      const results = parseBatchResponse(body, 'multipart/mixed; boundary=r1')
+
+      expect(results.get(0)).toEqual({ status: 204 })
+      expect(results.get(1)).toEqual({ status: 404, error: 'Not Found' })
+    })
+  })
+
+  describe('executeGoogleBatch', () => {
+    it('should send up to 50 operations per call and keep results in order', async () => {
+      const standIn = createBatchStandIn(item => ({ status: 200, body: { id: `id-${item.body.summary}`, ...item.body } }))
+      const operations = Array.from({ length: 120 }, (_, i) => ({ method: 'insert' as const, requestBody: event(`${i}`) }))
+
+      const results = await executeGoogleBatch(client, 'cal-1', operations, { fetchImpl: standIn.fetchImpl })
+
+      expect(standIn.calls.map(call => call.length)).toEqual([50, 50, 20])
+      expect(results.map(result => result.event?.id)).toEqual(operations.map((_, i) => `id-${i}`))
+    })
+
+    it('should retry only the items that hit rate limits or server errors', async () => {
+      const standIn = createBatchStandIn((item, call) => {
+        if (item.path.endsWith('/gone')) return { status: 404, body: { error: { message: 'Not Found' } } }
+        if (call === 1 && item.method === 'PATCH') return { status: 429, body: { error: { message: 'Rate Limit Exceeded' } } }
+        if (call === 1 && item.method === 'PUT') return { status: 503 }
+        return { status: 200, body: { id: 'ok' } }
+      })
+
+      const results = await executeGoogleBatch(client, 'cal-1', [
+        { method: 'insert', requestBody: event('New') },
+        { method: 'patch', eventId: 'e1', requestBody: event('Moved') },
+        { method: 'update', eventId: 'e2', requestBody: event('Renamed') },
+        { method: 'delete', eventId: 'gone' },
+      ], { fetchImpl: standIn.fetchImpl })
+
+      expect(standIn.calls.map(call => call.map(item => item.method))).toEqual([
+        ['POST', 'PATCH', 'PUT', 'DELETE'],
+        ['PATCH', 'PUT'],
+      ])
+      expect(results.map(result => result.status)).toEqual([200, 200, 200, 404])
+      expect(results[3].error).toBe('Not Found')
+    })
+
+    it('should only resend inserts that were rate limited', async () => {
+      const standIn = createBatchStandIn((item, call) => {
+        if (call === 1 && item.body?.summary === 'Timed out') return { status: 503, body: { error: { message: 'Backend Error' } } }
+        if (call === 1 && item.body?.summary === 'Throttled') return { status: 429, body: { error: { message: 'Rate Limit Exceeded' } } }
+        return { status: 200, body: { id: `id-${item.body.summary}` } }
+      })
+
+      const results = await executeGoogleBatch(client, 'cal-1', [
+        { method: 'insert', requestBody: event('Timed out') },
+        { method: 'insert', requestBody: event('Throttled') },
+      ], { fetchImpl: standIn.fetchImpl })
+
+      expect(standIn.calls.map(call => call.map(item => item.body.summary))).toEqual([['Timed out', 'Throttled'], ['Throttled']])
+      expect(results.map(result => result.status)).toEqual([503, 200])
+    })
+
+    it('should retry items rejected with a rate-limit reason and count the quota used', async () => {
+      const trackedClient = { context: client.context } as unknown as calendar_v3.Calendar
+      const usage = createQuotaUsage()
+      trackClientQuota(trackedClient, 'user-batch', usage)
+
+      const standIn = createBatchStandIn((item, call) => {
+        if (item.path.endsWith('/e1') && call === 1) {
+          return { status: 403, body: { error: { message: 'Rate Limit Exceeded', errors: [{ reason: 'userRateLimitExceeded' }] } } }
+        }
+        if (item.path.endsWith('/e2')) {
+          return { status: 403, body: { error: { message: 'Daily Limit Exceeded', errors: [{ reason: 'dailyLimitExceeded' }] } } }
+        }
+        return { status: 204 }
+      })
+
+      const results = await executeGoogleBatch(trackedClient, 'cal-1', [
+        { method: 'delete', eventId: 'e1' },
+        { method: 'delete', eventId: 'e2' },
+        { method: 'delete', eventId: 'e3' },
+      ], { fetchImpl: standIn.fetchImpl })
+
+      expect(standIn.calls.map(call => call.map(item => item.path.split('/').pop()))).toEqual([['e1', 'e2', 'e3'], ['e1']])
+      expect(results.map(result => result.status)).toEqual([204, 403, 204])
+      expect(results[1].reasons).toEqual(['dailyLimitExceeded'])
+      expect(usage).toEqual(expect.objectContaining({ requests: 4, retries: 1, rateLimited: 1 }))
+    })
+
+    it('should give up after the last attempt', async () => {
+      const standIn = createBatchStandIn(() => ({ status: 500, body: { error: { message: 'Backend Error' } } }))
+
+      const results = await executeGoogleBatch(client, 'cal-1', [{ method: 'delete', eventId: 'e1' }], {
+        fetchImpl: standIn.fetchImpl,
+        maxAttempts: 2,
+      })
+
+      expect(standIn.calls).toHaveLength(2)
+      expect(results).toEqual([{ status: 500, error: 'Backend Error' }])
+    })
+
+    it('should fail every item of a batch call that was rejected as a whole', async () => {
+      const fetchImpl = async () => new Response('', { status: 401, statusText: 'Unauthorized' })
+
+      const results = await executeGoogleBatch(client, 'cal-1', [
+        { method: 'delete', eventId: 'e1' },
+        { method: 'delete', eventId: 'e2' },
+      ], { fetchImpl })
+
+      expect(results).toEqual([
+        { status: 401, error: 'Batch request failed: 401 Unauthorized' },
+        { status: 401, error: 'Batch request failed: 401 Unauthorized' },
+      ])
+    })
+  })
+})
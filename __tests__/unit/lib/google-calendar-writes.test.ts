@@ -0,0 +1,82 @@
+jest.mock('next-auth', () => ({ getServerSession: jest.fn() }))
+jest.mock('@/lib/auth', () => ({ authOptions: {} }))
+jest.mock('@/lib/auth-middleware', () => ({ getAuthenticatedGoogleClient: jest.fn() }))
+jest.mock('@/lib/db', () => ({ db: {} }))
+jest.mock('@/lib/google-batch', () => ({ executeGoogleBatch: jest.fn() }))
+
+import type { calendar_v3 } from 'googleapis'
+import { deleteGoogleCalendarEvents, writeGoogleCalendarEvents } from '@/lib/google-calendar'
+import { executeGoogleBatch } from '@/lib/google-batch'
+import type { CalendarEvent } from '@/lib/ics-parser'
+
+const mockExecuteGoogleBatch = executeGoogleBatch as jest.MockedFunction<typeof executeGoogleBatch>
+const client = {} as calendar_v3.Calendar
+
+describe('deleteGoogleCalendarEvents', () => {
+  beforeEach(() => {
+    mockExecuteGoogleBatch.mockReset()
+  })
+
+  it('should delete every event in one batch', async () => {
+    mockExecuteGoogleBatch.mockResolvedValue([{ status: 204 }, { status: 204 }])
+
+    const results = await deleteGoogleCalendarEvents('cal-1', ['e1', 'e2'], client)
+
+    expect(mockExecuteGoogleBatch).toHaveBeenCalledWith(client, 'cal-1', [
+      { method: 'delete', eventId: 'e1' },
+      { method: 'delete', eventId: 'e2' },
+    ])
+    expect(results).toEqual([{ eventId: 'e1' }, { eventId: 'e2' }])
+  })
+
+  it('should count events already gone from Google as deleted', async () => {
+    mockExecuteGoogleBatch.mockResolvedValue([
+      { status: 404, error: 'Not Found' },
+      { status: 410, error: 'Resource has been deleted' },
+    ])
+
+    const results = await deleteGoogleCalendarEvents('cal-1', ['e1', 'e2'], client)
+
+    expect(results).toEqual([{ eventId: 'e1' }, { eventId: 'e2' }])
+  })
+
+  it('should report other failures per event', async () => {
+    mockExecuteGoogleBatch.mockResolvedValue([
+      { status: 204 },
+      { status: 403, error: 'Forbidden', reasons: ['forbidden'] },
+    ])
+
+    const results = await deleteGoogleCalendarEvents('cal-1', ['e1', 'e2'], client)
+
+    expect(results).toEqual([{ eventId: 'e1' }, { eventId: 'e2', error: 'Failed to delete event: Forbidden' }])
+  })
+})
+
+describe('writeGoogleCalendarEvents', () => {
+  beforeEach(() => {
+    mockExecuteGoogleBatch.mockReset()
+  })
+
+  it('should reset overridden instances of a series on every page of instances', async () => {
+    const series: CalendarEvent = {
+      uid: 'daily@example.com',
+      summary: 'Daily check-in',
+      start: new Date('2024-01-01T09:00:00Z'),
+      end: new Date('2024-01-01T09:15:00Z'),
+      recurrenceRule: 'FREQ=DAILY',
+    }
+    const instance = (id: string, recurrenceId: string) => ({ id, extendedProperties: { private: { recurrenceId } } })
+    const instances = jest.fn()
+      .mockResolvedValueOnce({ data: { items: [instance('i1', '2024-01-02T09:00:00.000Z')], nextPageToken: 'page-2' } })
+      .mockResolvedValueOnce({ data: { items: [instance('i2', '2031-06-02T09:00:00.000Z')] } })
+    const update = jest.fn().mockResolvedValue({ data: {} })
+    const calendar = { events: { instances, update } } as unknown as calendar_v3.Calendar
+    mockExecuteGoogleBatch.mockResolvedValue([{ status: 200, event: { id: 'series-1' } }])
+
+    const results = await writeGoogleCalendarEvents('cal-1', [{ event: series, eventId: 'series-1' }], 'UTC', 'sync-1', calendar)
+
+    expect(results).toEqual([{ created: false, eventId: 'series-1' }])
+    expect(instances.mock.calls[1][0]).toEqual(expect.objectContaining({ eventId: 'series-1', pageToken: 'page-2' }))
+    expect(update.mock.calls.map(call => call[0].eventId)).toEqual(['i1', 'i2'])
+  })
+})
@@ -0,0 +1,62 @@
+import { buildGoogleEventBody, buildRecurrenceLines, getRecurringInstanceId } from '@/lib/google-event-body'
+import type { CalendarEvent } from '@/lib/ics-parser'
+
+describe('Google event body', () => {
+  const series: CalendarEvent = {
+    uid: 'standup@example.com',
+    summary: 'Standup',
+    start: new Date('2024-03-18T09:00:00Z'),
+    end: new Date('2024-03-18T09:15:00Z'),
+    recurrenceRule: 'FREQ=DAILY;UNTIL=20240329T090000Z;DTSTART=20240318T090000Z',
+    exceptionDates: [new Date('2024-03-20T09:00:00Z'), new Date('2024-03-21T09:00:00Z')],
+  }
+
+  describe('buildRecurrenceLines', () => {
+    it('should write the rule without DTSTART and the exception dates in UTC', () => {
+      expect(buildRecurrenceLines(series)).toEqual([
+        'RRULE:FREQ=DAILY;UNTIL=20240329T090000Z',
+        'EXDATE:20240320T090000Z,20240321T090000Z',
+      ])
+    })
+
+    it('should write exception dates of all-day series as dates', () => {
+      const holidays: CalendarEvent = {
+        ...series,
+        allDay: true,
+        start: new Date('2024-03-18T00:00:00Z'),
+        end: new Date('2024-03-19T00:00:00Z'),
+        recurrenceRule: 'RRULE:FREQ=WEEKLY',
+        exceptionDates: [new Date('2024-03-25T00:00:00Z')],
+      }
+
+      expect(buildRecurrenceLines(holidays)).toEqual(['RRULE:FREQ=WEEKLY', 'EXDATE;VALUE=DATE:20240325'])
+    })
+
+    it('should be empty for single events', () => {
+      expect(buildRecurrenceLines({ ...series, recurrenceRule: undefined })).toEqual([])
+    })
+  })
+
+  describe('getRecurringInstanceId', () => {
+    it('should build the ids Google gives occurrences', () => {
+      expect(getRecurringInstanceId('abc', new Date('2024-03-20T09:00:00Z'))).toBe('abc_20240320T090000Z')
+      expect(getRecurringInstanceId('abc', new Date('2024-03-25T00:00:00Z'), true)).toBe('abc_20240325')
+    })
+  })
+
+  describe('buildGoogleEventBody', () => {
+    it('should send the recurrence with a zone Google can expand it in', () => {
+      const body = buildGoogleEventBody(series)
+
+      expect(body.recurrence).toEqual(buildRecurrenceLines(series))
+      expect(body.start).toEqual({ dateTime: '2024-03-18T09:00:00.000Z', timeZone: 'UTC' })
+    })
+
+    it('should leave single events without recurrence or zone', () => {
+      const body = buildGoogleEventBody({ ...series, recurrenceRule: undefined })
+
+      expect(body.recurrence).toBeUndefined()
+      expect(body.start).toEqual({ dateTime: '2024-03-18T09:00:00.000Z' })
+    })
+  })
+})
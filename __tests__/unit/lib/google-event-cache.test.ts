@@ -0,0 +1,171 @@
+const mockCache = { id: 'cache-1', userId: 'user-1', calendarId: 'cal-1', syncToken: null as string | null }
+const mockInserted: any[] = []
+const mockDeleted = jest.fn()
+
+jest.mock('@/lib/db', () => {
+  const { googleCalendarCaches } = jest.requireActual('@/lib/db/schema')
+  return {
+    db: {
+      select: () => ({
+        from: (table: unknown) => ({
+          where: () => {
+            const rows = Promise.resolve(table === googleCalendarCaches
+              ? [mockCache]
+              : mockInserted.map(row => ({ event: row.event })))
+            return Object.assign(rows, { limit: () => rows })
+          },
+        }),
+      }),
+      insert: () => ({
+        values: (values: any) => {
+          mockInserted.push(...values)
+          return { onConflictDoUpdate: () => Promise.resolve() }
+        },
+      }),
+      update: () => ({
+        set: (values: any) => ({ where: () => Promise.resolve(Object.assign(mockCache, values)) }),
+      }),
+      delete: () => ({ where: mockDeleted }),
+    },
+  }
+})
+
+import type { calendar_v3 } from 'googleapis'
+import {
+  isCacheableEvent,
+  isEventInRange,
+  listEventPages,
+  refreshCalendarCache,
+} from '@/lib/google-event-cache'
+
+const synced = (id: string, extra: calendar_v3.Schema$Event = {}): calendar_v3.Schema$Event => ({
+  id,
+  start: { dateTime: '2024-03-18T09:00:00Z' },
+  end: { dateTime: '2024-03-18T10:00:00Z' },
+  extendedProperties: { private: { syncId: 'sync-1', sourceUid: id } },
+  ...extra,
+})
+
+function createCalendar(pages: Array<calendar_v3.Schema$Events | Error>) {
+  const list = jest.fn()
+  pages.forEach(page => {
+    if (page instanceof Error) list.mockRejectedValueOnce(page)
+    else list.mockResolvedValueOnce({ data: page })
+  })
+  return { calendar: { events: { list } } as unknown as calendar_v3.Calendar, list }
+}
+
+describe('Google event cache', () => {
+  beforeEach(() => {
+    mockCache.syncToken = null
+    mockInserted.length = 0
+    mockDeleted.mockReset()
+  })
+
+  describe('listEventPages', () => {
+    it('should follow page tokens and return the sync token of the last page', async () => {
+      const { calendar, list } = createCalendar([
+        { items: [synced('e1')], nextPageToken: 'page-2' },
+        { items: [synced('e2')], nextSyncToken: 'token-1' },
+      ])
+
+      const listing = await listEventPages(calendar, { calendarId: 'cal-1' })
+
+      expect(listing.items.map(event => event.id)).toEqual(['e1', 'e2'])
+      expect(listing.nextSyncToken).toBe('token-1')
+      expect(list.mock.calls[1][0]).toEqual(expect.objectContaining({ calendarId: 'cal-1', pageToken: 'page-2' }))
+    })
+  })
+
+  describe('isCacheableEvent', () => {
+    it('should keep events written by syncs only', () => {
+      expect(isCacheableEvent(synced('e1'))).toBe(true)
+      expect(isCacheableEvent({ id: 'e2', description: 'Original UID: standup-1' })).toBe(true)
+      expect(isCacheableEvent({ id: 'e3', summary: 'Lunch' })).toBe(false)
+      expect(isCacheableEvent(synced('e4', { status: 'cancelled' }))).toBe(false)
+    })
+  })
+
+  describe('isEventInRange', () => {
+    const timeMin = new Date('2024-03-18T00:00:00Z')
+    const timeMax = new Date('2024-03-25T00:00:00Z')
+
+    it('should match events overlapping the range', () => {
+      expect(isEventInRange(synced('e1'), timeMin, timeMax)).toBe(true)
+      expect(isEventInRange(synced('e2', {
+        start: { dateTime: '2024-03-17T23:00:00Z' },
+        end: { dateTime: '2024-03-18T01:00:00Z' },
+      }), timeMin, timeMax)).toBe(true)
+      expect(isEventInRange(synced('e3', {
+        start: { date: '2024-03-25' },
+        end: { date: '2024-03-26' },
+      }), timeMin, timeMax)).toBe(false)
+    })
+
+    it('should match recurring events with an occurrence in the range', () => {
+      const weekly = (rule: string) => synced('series', {
+        start: { dateTime: '2024-01-01T09:00:00+01:00', timeZone: 'Europe/Paris' },
+        end: { dateTime: '2024-01-01T10:00:00+01:00', timeZone: 'Europe/Paris' },
+        recurrence: [rule],
+      })
+
+      expect(isEventInRange(weekly('RRULE:FREQ=WEEKLY'), timeMin, timeMax)).toBe(true)
+      expect(isEventInRange(weekly('RRULE:FREQ=WEEKLY;COUNT=4'), timeMin, timeMax)).toBe(false)
+    })
+  })
+
+  describe('refreshCalendarCache', () => {
+    it('should list the calendar in full the first time and store its synced events', async () => {
+      const { calendar, list } = createCalendar([
+        { items: [synced('e1'), { id: 'e2', summary: 'Lunch' }], nextSyncToken: 'token-1' },
+      ])
+
+      const events = await refreshCalendarCache(calendar, 'user-1', 'cal-1')
+
+      expect(list.mock.calls[0][0]).not.toHaveProperty('syncToken')
+      expect(events.map(event => event.id)).toEqual(['e1'])
+      expect(mockCache.syncToken).toBe('token-1')
+    })
+
+    it('should only list changes since the stored token', async () => {
+      mockCache.syncToken = 'token-1'
+      const { calendar, list } = createCalendar([
+        { items: [synced('e1', { summary: 'Moved' }), synced('e2', { status: 'cancelled' })], nextSyncToken: 'token-2' },
+      ])
+
+      await refreshCalendarCache(calendar, 'user-1', 'cal-1')
+
+      expect(list).toHaveBeenCalledTimes(1)
+      expect(list.mock.calls[0][0]).toEqual(expect.objectContaining({ syncToken: 'token-1' }))
+      expect(list.mock.calls[0][0]).not.toHaveProperty('timeMin')
+      expect(mockInserted.map(row => row.eventId)).toEqual(['e1'])
+      expect(mockDeleted).toHaveBeenCalledTimes(1)
+      expect(mockCache.syncToken).toBe('token-2')
+    })
+
+    it('should list the calendar again when Google expired the token', async () => {
+      mockCache.syncToken = 'token-1'
+      const gone = Object.assign(new Error('Sync token is no longer valid'), { code: 410 })
+      const { calendar, list } = createCalendar([
+        gone,
+        { items: [synced('e1')], nextPageToken: 'page-2' },
+        { items: [synced('e3')], nextSyncToken: 'token-2' },
+      ])
+
+      const events = await refreshCalendarCache(calendar, 'user-1', 'cal-1')
+
+      expect(list).toHaveBeenCalledTimes(3)
+      expect(list.mock.calls[1][0]).not.toHaveProperty('syncToken')
+      expect(events.map(event => event.id)).toEqual(['e1', 'e3'])
+      expect(mockCache.syncToken).toBe('token-2')
+    })
+
+    it('should pass on other errors', async () => {
+      mockCache.syncToken = 'token-1'
+      const { calendar } = createCalendar([Object.assign(new Error('Forbidden'), { code: 403 })])
+
+      await expect(refreshCalendarCache(calendar, 'user-1', 'cal-1')).rejects.toThrow('Forbidden')
+      expect(mockCache.syncToken).toBe('token-1')
+    })
+  })
+})
@@ -0,0 +1,156 @@
+import {
+  acquireQuota,
+  BUCKET_CAPACITY,
+  createQuotaAdapter,
+  createQuotaUsage,
+  getBackoffDelay,
+  getGoogleErrorReasons,
+  isRetryableGoogleError,
+  MAX_RETRIES,
+} from '@/lib/google-quota'
+
+const googleError = (code: number, reason: string) => ({
+  error: { code, message: reason, errors: [{ domain: 'usageLimits', reason, message: reason }] },
+})
+
+describe('Google quota', () => {
+  beforeEach(() => {
+    // Run waits right away
+    (global.setTimeout as unknown as jest.Mock).mockImplementation((fn: () => void) => {
+      fn()
+      return 0
+    })
+  })
+
+  describe('getGoogleErrorReasons', () => {
+    it('should read the reasons of a Google error body', () => {
+      expect(getGoogleErrorReasons(googleError(403, 'userRateLimitExceeded'))).toEqual(['userRateLimitExceeded'])
+      expect(getGoogleErrorReasons({ error: { code: 404, message: 'Not Found' } })).toEqual([])
+      expect(getGoogleErrorReasons('Service Unavailable')).toEqual([])
+    })
+  })
+
+  describe('isRetryableGoogleError', () => {
+    it('should retry rate limits and server errors', () => {
+      expect(isRetryableGoogleError(403, ['rateLimitExceeded'])).toBe(true)
+      expect(isRetryableGoogleError(403, ['userRateLimitExceeded'])).toBe(true)
+      expect(isRetryableGoogleError(429, [])).toBe(true)
+      expect(isRetryableGoogleError(503, [])).toBe(true)
+    })
+
+    it('should not retry daily quota, permission or client errors', () => {
+      expect(isRetryableGoogleError(403, ['dailyLimitExceeded'])).toBe(false)
+      expect(isRetryableGoogleError(403, ['forbidden'])).toBe(false)
+      expect(isRetryableGoogleError(404, [])).toBe(false)
+    })
+
+    it('should only retry calls that are not idempotent on rate limits', () => {
+      expect(isRetryableGoogleError(503, [], false)).toBe(false)
+      expect(isRetryableGoogleError(0, [], false)).toBe(false)
+      expect(isRetryableGoogleError(429, [], false)).toBe(true)
+      expect(isRetryableGoogleError(403, ['userRateLimitExceeded'], false)).toBe(true)
+    })
+  })
+
+  describe('getBackoffDelay', () => {
+    it('should double with each attempt, randomizing the upper half', () => {
+      expect(getBackoffDelay(1, () => 0)).toBe(500)
+      expect(getBackoffDelay(1, () => 1)).toBe(1000)
+      expect(getBackoffDelay(3, () => 0)).toBe(2000)
+      expect(getBackoffDelay(3, () => 1)).toBe(4000)
+    })
+
+    it('should stop growing at 32 seconds', () => {
+      expect(getBackoffDelay(10, () => 1)).toBe(32000)
+    })
+  })
+
+  describe('acquireQuota', () => {
+    it('should let a burst through and then pace requests', async () => {
+      const now = () => 1_000_000
+
+      expect(await acquireQuota('user-burst', BUCKET_CAPACITY, now)).toBe(0)
+      expect(await acquireQuota('user-burst', 1, now)).toBe(100)
+      expect(await acquireQuota('user-burst', 5, now)).toBe(600)
+    })
+
+    it('should refill over time', async () => {
+      await acquireQuota('user-refill', BUCKET_CAPACITY, () => 0)
+
+      expect(await acquireQuota('user-refill', 10, () => 1000)).toBe(0)
+      expect(await acquireQuota('user-refill', 1, () => 1000)).toBe(100)
+    })
+
+    it('should keep separate buckets per user', async () => {
+      await acquireQuota('user-a', BUCKET_CAPACITY, () => 0)
+
+      expect(await acquireQuota('user-b', 1, () => 0)).toBe(0)
+    })
+  })
+
+  describe('createQuotaAdapter', () => {
+    const response = (status: number, data?: unknown) => ({ status, data }) as any
+
+    it('should retry rate-limited calls and count them', async () => {
+      const usage = createQuotaUsage()
+      const adapter = createQuotaAdapter('user-adapter', usage)!
+      const defaultAdapter = jest.fn()
+        .mockResolvedValueOnce(response(403, googleError(403, 'rateLimitExceeded')))
+        .mockResolvedValueOnce(response(429, googleError(429, 'rateLimitExceeded')))
+        .mockResolvedValueOnce(response(200, { id: 'event-1' }))
+
+      const result = await adapter({ url: 'https://example.com' }, defaultAdapter)
+
+      expect(result.data).toEqual({ id: 'event-1' })
+      expect(defaultAdapter).toHaveBeenCalledTimes(3)
+      expect(usage).toEqual(expect.objectContaining({ requests: 3, retries: 2, rateLimited: 2 }))
+    })
+
+    it('should hand other errors back right away', async () => {
+      const usage = createQuotaUsage()
+      const adapter = createQuotaAdapter('user-adapter', usage)!
+      const defaultAdapter = jest.fn().mockResolvedValue(response(403, googleError(403, 'dailyLimitExceeded')))
+
+      const result = await adapter({ url: 'https://example.com' }, defaultAdapter)
+
+      expect(result.status).toBe(403)
+      expect(defaultAdapter).toHaveBeenCalledTimes(1)
+      expect(usage).toEqual(expect.objectContaining({ requests: 1, retries: 0, rateLimited: 0 }))
+    })
+
+    it('should not resend inserts after a server error', async () => {
+      const usage = createQuotaUsage()
+      const adapter = createQuotaAdapter('user-adapter', usage)!
+      const defaultAdapter = jest.fn().mockResolvedValue(response(503))
+
+      const result = await adapter({ url: 'https://example.com', method: 'POST' }, defaultAdapter)
+
+      expect(result.status).toBe(503)
+      expect(defaultAdapter).toHaveBeenCalledTimes(1)
+    })
+
+    it('should resend rate-limited inserts', async () => {
+      const usage = createQuotaUsage()
+      const adapter = createQuotaAdapter('user-adapter', usage)!
+      const defaultAdapter = jest.fn()
+        .mockResolvedValueOnce(response(429, googleError(429, 'rateLimitExceeded')))
+        .mockResolvedValueOnce(response(200, { id: 'event-1' }))
+
+      const result = await adapter({ url: 'https://example.com', method: 'POST' }, defaultAdapter)
+
+      expect(result.data).toEqual({ id: 'event-1' })
+      expect(defaultAdapter).toHaveBeenCalledTimes(2)
+    })
+
+    it('should give up after the last retry', async () => {
+      const usage = createQuotaUsage()
+      const adapter = createQuotaAdapter('user-adapter', usage)!
+      const defaultAdapter = jest.fn().mockResolvedValue(response(503))
+
+      const result = await adapter({ url: 'https://example.com' }, defaultAdapter)
+
+      expect(result.status).toBe(503)
+      expect(defaultAdapter).toHaveBeenCalledTimes(MAX_RETRIES + 1)
+    })
+  })
+})
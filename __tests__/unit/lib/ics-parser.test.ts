@@ -151,6 +151,62 @@ END:VCALENDAR`
     })
   })
 
+  describe('All-day events', () => {
+    const allDayICS = `BEGIN:VCALENDAR
+VERSION:2.0
+X-WR-TIMEZONE:Europe/Madrid
+BEGIN:VEVENT
+DTSTART;VALUE=DATE:20240815
+DTEND;VALUE=DATE:20240816
+UID:holiday@example.com
+SUMMARY:Public Holiday
+END:VEVENT
+BEGIN:VEVENT
+DTSTART;VALUE=DATE:20240819
+DTEND;VALUE=DATE:20240824
+UID:offsite@example.com
+SUMMARY:Company Offsite
+END:VEVENT
+BEGIN:VEVENT
+DTSTART;VALUE=DATE:20240901
+UID:no-end@example.com
+SUMMARY:No End
+END:VEVENT
+BEGIN:VEVENT
+DTSTART:20240815T100000Z
+DTEND:20240815T110000Z
+UID:timed@example.com
+SUMMARY:Timed
+END:VEVENT
+END:VCALENDAR`
+
+    it('should flag VALUE=DATE events as all-day at midnight UTC of their date', () => {
+      const events = parseICSData(allDayICS)
+      const holiday = events.find(e => e.uid === 'holiday@example.com')!
+
+      expect(holiday.allDay).toBe(true)
+      expect(holiday.start.toISOString()).toBe('2024-08-15T00:00:00.000Z')
+      expect(holiday.end.toISOString()).toBe('2024-08-16T00:00:00.000Z')
+    })
+
+    it('should keep the exclusive end date of multi-day events', () => {
+      const offsite = parseICSData(allDayICS).find(e => e.uid === 'offsite@example.com')!
+
+      expect(offsite.allDay).toBe(true)
+      expect(offsite.end.toISOString()).toBe('2024-08-24T00:00:00.000Z')
+    })
+
+    it('should default a missing DTEND to one day', () => {
+      const noEnd = parseICSData(allDayICS).find(e => e.uid === 'no-end@example.com')!
+      expect(noEnd.end.toISOString()).toBe('2024-09-02T00:00:00.000Z')
+    })
+
+    it('should not flag timed events', () => {
+      const timed = parseICSData(allDayICS).find(e => e.uid === 'timed@example.com')!
+      expect(timed.allDay).toBeUndefined()
+    })
+  })
+
   describe('Edge Cases', () => {
     it('should handle events with invalid dates', () => {
       const invalidDateICS = `BEGIN:VCALENDAR
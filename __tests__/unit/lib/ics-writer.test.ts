@@ -0,0 +1,94 @@
+import { applyEventChanges, serializeCalendarEvent } from '@/lib/ics-writer'
+import { parseICSCalendar, CalendarEvent } from '@/lib/ics-parser'
+
+describe('ICS writer', () => {
+  const now = new Date('2024-03-17T12:00:00Z')
+  const event: CalendarEvent = {
+    uid: 'review-1',
+    summary: 'Review; budget, Q2',
+    description: 'Line one\nLine two',
+    location: 'Room 4',
+    start: new Date('2024-03-18T09:00:00Z'),
+    end: new Date('2024-03-18T10:00:00Z'),
+  }
+
+  const RESOURCE = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Test//EN',
+    'BEGIN:VEVENT',
+    'UID:review-1',
+    'DTSTAMP:20240301T080000Z',
+    'SEQUENCE:2',
+    'DTSTART;TZID=Europe/Berlin:20240318T090000',
+    'DTEND;TZID=Europe/Berlin:20240318T100000',
+    'SUMMARY:Review',
+    'ATTENDEE;CN=Bob;PARTSTAT=ACCEPTED:mailto:bob@example.com',
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    'TRIGGER:-PT15M',
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n')
+
+  it('should serialize an event that parses back unchanged', () => {
+    const [parsed] = parseICSCalendar(serializeCalendarEvent(event, now)).events
+
+    expect(parsed).toMatchObject({
+      uid: 'review-1',
+      summary: event.summary,
+      description: event.description,
+      location: event.location,
+      start: event.start,
+      end: event.end,
+    })
+  })
+
+  it('should write all-day events as dates', () => {
+    const ics = serializeCalendarEvent({
+      ...event,
+      allDay: true,
+      start: new Date('2024-03-20T00:00:00Z'),
+      end: new Date('2024-03-21T00:00:00Z'),
+    }, now)
+
+    expect(ics).toContain('DTSTART;VALUE=DATE:20240320\r\n')
+    expect(ics).toContain('DTEND;VALUE=DATE:20240321\r\n')
+  })
+
+  it('should fold long lines', () => {
+    const ics = serializeCalendarEvent({ ...event, description: 'x'.repeat(200) }, now)
+
+    expect(ics.split('\r\n').every(line => line.length <= 75)).toBe(true)
+    expect(parseICSCalendar(ics).events[0].description).toBe('x'.repeat(200))
+  })
+
+  it('should rewrite the managed properties and keep everything else', () => {
+    const updated = applyEventChanges(RESOURCE, { ...event, start: new Date('2024-03-18T11:00:00Z'), end: new Date('2024-03-18T12:00:00Z') }, now)
+    const [parsed] = parseICSCalendar(updated).events
+
+    expect(parsed).toMatchObject({ summary: event.summary, start: new Date('2024-03-18T11:00:00Z'), location: 'Room 4' })
+    expect(updated).toContain('SEQUENCE:3')
+    expect(updated).toContain('ATTENDEE;CN=Bob;PARTSTAT=ACCEPTED:mailto:bob@example.com')
+    expect(updated).toContain('TRIGGER:-PT15M')
+    expect(updated).not.toContain('TZID=Europe/Berlin')
+    expect(updated.match(/^DTSTART/gm)).toHaveLength(1)
+  })
+
+  it('should leave overridden instances of a series alone', () => {
+    const series = RESOURCE.replace(
+      'END:VCALENDAR',
+      ['BEGIN:VEVENT', 'UID:review-1', 'RECURRENCE-ID:20240325T080000Z', 'DTSTART:20240325T100000Z', 'DTEND:20240325T110000Z', 'SUMMARY:Review (moved)', 'END:VEVENT', 'END:VCALENDAR'].join('\r\n')
+    )
+
+    const updated = applyEventChanges(series, event, now)
+
+    expect(updated).toContain('SUMMARY:Review (moved)')
+    expect(updated.match(/^DTSTART/gm)).toHaveLength(2)
+  })
+
+  it('should refuse resources without an event', () => {
+    expect(() => applyEventChanges('BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n', event, now)).toThrow('no VEVENT')
+  })
+})
@@ -0,0 +1,147 @@
+import fs from 'fs'
+import path from 'path'
+import { parseICSCalendar, expandICSEvents, seriesICSEvents } from '@/lib/ics-parser'
+
+const loadFixture = (name: string) =>
+  fs.readFileSync(path.join(__dirname, '../../fixtures', name), 'utf8')
+
+describe('Recurring event overrides', () => {
+  describe('Outlook export', () => {
+    const OUTLOOK_UID = '040000008200E00074C5B7101A82E00800000000A0B1C2D3E4F5DA01000000000000000010000000F1E2D3C4B5A69788'
+    const events = expandICSEvents(
+      parseICSCalendar(loadFixture('outlook-recurring.ics')),
+      new Date('2024-03-01T00:00:00Z'),
+      new Date('2024-04-10T23:59:59Z')
+    )
+
+    it('should skip occurrences listed in EXDATE', () => {
+      expect(events.map(e => e.start.toISOString())).not.toContain('2024-03-12T08:30:00.000Z')
+    })
+
+    it('should replace moved occurrences with their override', () => {
+      const starts = events.map(e => e.start.toISOString())
+      expect(starts).not.toContain('2024-03-19T08:30:00.000Z')
+
+      const moved = events.find(e => e.summary === 'Weekly Standup (moved)')!
+      expect(moved.start.toISOString()).toBe('2024-03-20T10:00:00.000Z')
+      expect(moved.end.toISOString()).toBe('2024-03-20T10:30:00.000Z')
+      expect(moved.location).toBe('Room 2.01')
+    })
+
+    it('should give an override the UID of the occurrence it replaces', () => {
+      const moved = events.find(e => e.summary === 'Weekly Standup (moved)')!
+      expect(moved.uid).toBe(`${OUTLOOK_UID}-${Date.UTC(2024, 2, 19, 9, 30)}`)
+    })
+
+    it('should apply overrides after a DST change', () => {
+      expect(events.map(e => [e.start.toISOString(), e.summary])).toEqual([
+        ['2024-03-05T08:30:00.000Z', 'Weekly Standup'],
+        ['2024-03-20T10:00:00.000Z', 'Weekly Standup (moved)'],
+        ['2024-03-26T08:30:00.000Z', 'Weekly Standup'],
+        ['2024-04-02T07:30:00.000Z', 'Weekly Standup - Sprint Review'],
+        ['2024-04-09T07:30:00.000Z', 'Weekly Standup'],
+      ])
+    })
+
+    it('should not leak recurrence data into expanded instances', () => {
+      events.forEach(event => {
+        expect(event.recurrenceRule).toBeUndefined()
+        expect(event.exceptionDates).toBeUndefined()
+        expect(event.overrides).toBeUndefined()
+        expect(event.recurrenceId).toBeUndefined()
+      })
+    })
+  })
+
+  describe('Google export', () => {
+    const calendar = parseICSCalendar(loadFixture('google-recurring.ics'))
+    const events = expandICSEvents(calendar, new Date('2024-03-01T00:00:00Z'), new Date('2024-04-02T23:59:59Z'))
+    const planning = events.filter(e => e.uid.startsWith('5k2v9d3f8h1j4l6n0p7r2t5v8x@google.com'))
+
+    it('should keep a single master when overrides come before it', () => {
+      expect(calendar.events).toHaveLength(2)
+      expect(calendar.events[0].overrides).toHaveLength(2)
+    })
+
+    it('should drop EXDATE and cancelled occurrences and move overridden ones', () => {
+      expect(planning.map(e => e.start.toISOString())).toEqual([
+        '2024-03-04T09:00:00.000Z',
+        '2024-03-25T14:00:00.000Z',
+        '2024-04-01T08:00:00.000Z',
+      ])
+      expect(planning[1].location).toBe('Office')
+    })
+
+    it('should honor UTC EXDATE lists', () => {
+      const serverChecks = events.filter(e => e.summary === 'Server check')
+      expect(serverChecks.map(e => e.start.toISOString())).toEqual([
+        '2024-03-04T07:00:00.000Z',
+        '2024-03-06T07:00:00.000Z',
+        '2024-03-08T07:00:00.000Z',
+      ])
+    })
+  })
+
+  describe('Native series', () => {
+    const calendar = parseICSCalendar(loadFixture('google-recurring.ics'))
+    const events = seriesICSEvents(calendar, new Date('2024-03-01T00:00:00Z'), new Date('2024-04-02T23:59:59Z'))
+    const planning = events.find(e => e.uid === '5k2v9d3f8h1j4l6n0p7r2t5v8x@google.com')!
+
+    it('should keep one event per series with its rule', () => {
+      expect(events).toHaveLength(2)
+      expect(planning.start.toISOString()).toBe('2024-03-04T09:00:00.000Z')
+      expect(planning.recurrenceRule).toContain('FREQ=WEEKLY')
+    })
+
+    it('should turn cancelled overrides into exception dates', () => {
+      expect(planning.exceptionDates!.map(date => date.toISOString())).toEqual([
+        '2024-03-11T09:00:00.000Z',
+        '2024-03-18T09:00:00.000Z',
+      ])
+    })
+
+    it('should keep modified overrides on the series', () => {
+      expect(planning.overrides).toHaveLength(1)
+      expect(planning.overrides![0].start.toISOString()).toBe('2024-03-25T14:00:00.000Z')
+      expect(planning.overrides![0].recurrenceId!.toISOString()).toBe('2024-03-25T09:00:00.000Z')
+    })
+
+    it('should drop series without an occurrence in the window', () => {
+      const later = seriesICSEvents(calendar, new Date('2024-06-01T00:00:00Z'), new Date('2024-06-30T23:59:59Z'))
+      expect(later.map(e => e.summary)).toEqual(['Planning'])
+    })
+  })
+
+  describe('Sync window', () => {
+    const calendar = parseICSCalendar([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VEVENT',
+      'UID:last-year@example.com',
+      'DTSTART:20230314T090000Z',
+      'DTEND:20230314T100000Z',
+      'SUMMARY:Last year',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:this-month@example.com',
+      'DTSTART:20240314T090000Z',
+      'DTEND:20240314T100000Z',
+      'SUMMARY:This month',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:next-year@example.com',
+      'DTSTART:20250314T090000Z',
+      'DTEND:20250314T100000Z',
+      'SUMMARY:Next year',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n'))
+    const windowStart = new Date('2024-03-01T00:00:00Z')
+    const windowEnd = new Date('2024-04-02T23:59:59Z')
+
+    it('should leave out single events outside the window', () => {
+      expect(expandICSEvents(calendar, windowStart, windowEnd).map(e => e.summary)).toEqual(['This month'])
+      expect(seriesICSEvents(calendar, windowStart, windowEnd).map(e => e.summary)).toEqual(['This month'])
+    })
+  })
+})
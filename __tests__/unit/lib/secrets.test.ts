@@ -0,0 +1,44 @@
+/**
+ * @jest-environment node
+ */
+
+import { decryptSecret, encryptSecret, withoutSecrets } from '@/lib/secrets'
+
+describe('Stored secrets', () => {
+  const originalKey = process.env.ENCRYPTION_KEY
+
+  beforeEach(() => {
+    process.env.ENCRYPTION_KEY = 'test-encryption-key'
+  })
+
+  afterAll(() => {
+    process.env.ENCRYPTION_KEY = originalKey
+  })
+
+  it('should decrypt what it encrypted', () => {
+    const stored = encryptSecret('app-password')
+
+    expect(stored).not.toContain('app-password')
+    expect(decryptSecret(stored)).toBe('app-password')
+  })
+
+  it('should use a fresh IV for every secret', () => {
+    expect(encryptSecret('app-password')).not.toBe(encryptSecret('app-password'))
+  })
+
+  it('should reject secrets encrypted under another key or tampered with', () => {
+    const stored = encryptSecret('app-password')
+    const [iv, tag, ciphertext] = stored.split(':')
+    const tampered = [iv, tag, Buffer.from('tampered').toString('base64')].join(':')
+
+    expect(() => decryptSecret(tampered)).toThrow()
+    process.env.ENCRYPTION_KEY = 'another-key'
+    expect(() => decryptSecret(stored)).toThrow()
+    expect(() => decryptSecret(ciphertext)).toThrow('malformed')
+  })
+
+  it('should replace the stored password with whether one is set', () => {
+    expect(withoutSecrets({ id: 's1', caldavPassword: 'iv:tag:ct' })).toEqual({ id: 's1', hasCaldavPassword: true })
+    expect(withoutSecrets({ id: 's1', caldavPassword: null })).toEqual({ id: 's1', hasCaldavPassword: false })
+  })
+})
@@ -0,0 +1,98 @@
+jest.mock('@/lib/db', () => ({ db: {} }))
+
+import { parseHistoryCount, summarizeSyncRuns, toSyncRun, SyncLog, SyncRun } from '@/lib/sync-history'
+
+describe('Sync history', () => {
+  const now = new Date('2024-03-18T12:00:00Z')
+
+  const run = (createdAt: string, status: SyncRun['status'], durationMs: number | null = 1000): SyncRun => ({
+    id: createdAt,
+    status,
+    createdAt: new Date(createdAt),
+    eventsProcessed: 10,
+    eventsCreated: 1,
+    eventsUpdated: 2,
+    eventsDeleted: 0,
+    durationMs,
+    errors: [],
+  })
+
+  describe('toSyncRun', () => {
+    it('should parse the counts and duration stored as text', () => {
+      const log = {
+        id: 'log-1',
+        calendarSyncId: 'sync-1',
+        eventsProcessed: '12',
+        eventsCreated: '3',
+        eventsUpdated: '4',
+        eventsDeleted: '1',
+        errors: ['Failed to sync event "Standup": quota'],
+        duration: '2345ms',
+        status: 'error',
+        createdAt: now,
+      } as SyncLog
+
+      expect(toSyncRun(log)).toEqual({
+        id: 'log-1',
+        status: 'error',
+        createdAt: now,
+        eventsProcessed: 12,
+        eventsCreated: 3,
+        eventsUpdated: 4,
+        eventsDeleted: 1,
+        durationMs: 2345,
+        errors: ['Failed to sync event "Standup": quota'],
+      })
+    })
+
+    it('should tolerate missing errors and duration', () => {
+      const log = { id: 'log-2', eventsProcessed: '0', eventsCreated: '0', eventsUpdated: '0', eventsDeleted: '0', errors: null, duration: null, status: 'success', createdAt: now } as SyncLog
+
+      expect(toSyncRun(log)).toEqual(expect.objectContaining({ durationMs: null, errors: [] }))
+    })
+
+    it('should pass on the Google quota used by the run', () => {
+      const quotaUsage = { requests: 120, retries: 3, rateLimited: 2, throttledMs: 4500 }
+      const log = { id: 'log-3', eventsProcessed: '100', eventsCreated: '100', eventsUpdated: '0', eventsDeleted: '0', errors: null, duration: '9000ms', status: 'success', quotaUsage, createdAt: now } as SyncLog
+
+      expect(toSyncRun(log).quotaUsage).toEqual(quotaUsage)
+    })
+  })
+
+  describe('summarizeSyncRuns', () => {
+    it('should count runs per day, oldest day first', () => {
+      const stats = summarizeSyncRuns([
+        run('2024-03-18T09:00:00Z', 'success'),
+        run('2024-03-18T10:00:00Z', 'error', 3000),
+        run('2024-03-17T09:00:00Z', 'not_modified'),
+      ], 3, now)
+
+      expect(stats.days).toEqual([
+        { date: '2024-03-16', success: 0, error: 0, notModified: 0 },
+        { date: '2024-03-17', success: 0, error: 0, notModified: 1 },
+        { date: '2024-03-18', success: 1, error: 1, notModified: 0 },
+      ])
+      expect(stats.totalRuns).toBe(3)
+      expect(stats.successRate).toBeCloseTo(2 / 3)
+      expect(stats.averageDurationMs).toBe(1667)
+    })
+
+    it('should ignore runs outside the range', () => {
+      const stats = summarizeSyncRuns([run('2024-01-01T09:00:00Z', 'error')], 7, now)
+
+      expect(stats.totalRuns).toBe(0)
+      expect(stats.successRate).toBeNull()
+      expect(stats.averageDurationMs).toBeNull()
+    })
+  })
+
+  describe('parseHistoryCount', () => {
+    it('should fall back to the default and reject out-of-range values', () => {
+      expect(parseHistoryCount(null, 20, 100)).toBe(20)
+      expect(parseHistoryCount('50', 20, 100)).toBe(50)
+      expect(parseHistoryCount('0', 20, 100)).toBeNull()
+      expect(parseHistoryCount('101', 20, 100)).toBeNull()
+      expect(parseHistoryCount('ten', 20, 100)).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,128 @@
+const mockSet = jest.fn()
+const mockPendingJobs: any[][] = []
+const mockInsertedJobs: any[][] = []
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    select: () => ({
+      from: () => ({
+        where: () => ({
+          orderBy: () => ({ limit: () => Promise.resolve(mockPendingJobs.shift() ?? []) }),
+        }),
+      }),
+    }),
+    insert: () => ({
+      values: () => ({
+        onConflictDoNothing: () => ({ returning: () => Promise.resolve(mockInsertedJobs.shift() ?? []) }),
+      }),
+    }),
+    update: () => ({
+      set: (values: any) => {
+        mockSet(values)
+        return { where: () => ({ returning: () => Promise.resolve([{ ...values }]) }) }
+      },
+    }),
+  },
+}))
+jest.mock('@/lib/sync-service', () => ({ syncCalendar: jest.fn() }))
+jest.mock('@/lib/busy-free-sync-service', () => ({ syncBusyFreeCalendar: jest.fn() }))
+jest.mock('@/lib/two-way-sync-service', () => ({ syncTwoWayCalendar: jest.fn() }))
+
+import {
+  enqueueSyncJob,
+  failSyncJob,
+  getBackoffDelay,
+  isTransientSyncError,
+  JOB_BACKOFF_MAX_MS,
+  SyncJob,
+} from '@/lib/sync-jobs'
+
+describe('Sync jobs', () => {
+  const now = new Date('2024-03-18T09:00:00Z')
+  const job = {
+    id: 'job-1',
+    calendarSyncId: 'sync-1',
+    status: 'running',
+    attempts: 2,
+    maxAttempts: 5,
+    lockedBy: 'worker-1',
+  } as SyncJob
+
+  beforeEach(() => {
+    mockSet.mockClear()
+    mockPendingJobs.length = 0
+    mockInsertedJobs.length = 0
+  })
+
+  describe('getBackoffDelay', () => {
+    it('should double the delay for each attempt up to the cap', () => {
+      expect(getBackoffDelay(1)).toBe(60 * 1000)
+      expect(getBackoffDelay(2)).toBe(2 * 60 * 1000)
+      expect(getBackoffDelay(4)).toBe(8 * 60 * 1000)
+      expect(getBackoffDelay(20)).toBe(JOB_BACKOFF_MAX_MS)
+    })
+  })
+
+  describe('isTransientSyncError', () => {
+    it('should retry network failures, server errors and rate limits', () => {
+      expect(isTransientSyncError('fetch failed')).toBe(true)
+      expect(isTransientSyncError('Failed to fetch ICS: 503 Service Unavailable')).toBe(true)
+      expect(isTransientSyncError('Failed to fetch ICS: 429 Too Many Requests')).toBe(true)
+      expect(isTransientSyncError('SYNC_IN_PROGRESS')).toBe(true)
+    })
+
+    it('should not retry errors that will happen again', () => {
+      expect(isTransientSyncError('REAUTH_REQUIRED')).toBe(false)
+      expect(isTransientSyncError('Failed to fetch ICS: 404 Not Found')).toBe(false)
+      expect(isTransientSyncError('Calendar sync configuration not found')).toBe(false)
+    })
+  })
+
+  describe('enqueueSyncJob', () => {
+    const queued = { ...job, id: 'job-2', status: 'queued', attempts: 0, lockedBy: null } as SyncJob
+
+    it('should queue a job when the sync has none pending', async () => {
+      mockInsertedJobs.push([queued])
+
+      await expect(enqueueSyncJob('sync-1', { trigger: 'manual' })).resolves.toBe(queued)
+    })
+
+    it('should return the pending job instead of queueing another', async () => {
+      mockPendingJobs.push([job])
+
+      await expect(enqueueSyncJob('sync-1', { trigger: 'schedule' })).resolves.toBe(job)
+    })
+
+    it('should return the job a concurrent request queued first', async () => {
+      // The insert conflicts with the unique pending-job index and returns nothing
+      mockPendingJobs.push([], [queued])
+
+      await expect(enqueueSyncJob('sync-1', { trigger: 'schedule' })).resolves.toBe(queued)
+    })
+  })
+
+  describe('failSyncJob', () => {
+    it('should schedule a retry with backoff for transient errors', async () => {
+      await failSyncJob(job, 'fetch failed', now)
+
+      expect(mockSet).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'failed',
+        lastError: 'fetch failed',
+        runAt: new Date('2024-03-18T09:02:00Z'),
+        lockedBy: null,
+      }))
+    })
+
+    it('should mark the job dead once attempts are exhausted', async () => {
+      await failSyncJob({ ...job, attempts: 5 }, 'fetch failed', now)
+
+      expect(mockSet).toHaveBeenCalledWith(expect.objectContaining({ status: 'dead', finishedAt: now }))
+    })
+
+    it('should mark the job dead for permanent errors', async () => {
+      await failSyncJob(job, 'REAUTH_REQUIRED', now)
+
+      expect(mockSet).toHaveBeenCalledWith(expect.objectContaining({ status: 'dead', lastError: 'REAUTH_REQUIRED' }))
+    })
+  })
+})
@@ -0,0 +1,63 @@
+const mockSet = jest.fn()
+const mockReturning = jest.fn()
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    update: () => ({
+      set: (values: any) => {
+        mockSet(values)
+        const result: any = Promise.resolve()
+        result.returning = mockReturning
+        return { where: () => result }
+      },
+    }),
+  },
+}))
+
+import { withSyncLock } from '@/lib/sync-lock'
+
+describe('Sync lock', () => {
+  beforeEach(() => {
+    mockSet.mockClear()
+    mockReturning.mockReset()
+  })
+
+  it('should refuse to run while another run holds the lease', async () => {
+    mockReturning.mockResolvedValueOnce([])
+    const run = jest.fn()
+
+    await expect(withSyncLock('sync-1', run)).rejects.toThrow('SYNC_IN_PROGRESS')
+    expect(run).not.toHaveBeenCalled()
+  })
+
+  it('should release the lease after a successful run', async () => {
+    mockReturning.mockResolvedValueOnce([{ id: 'sync-1' }])
+
+    await expect(withSyncLock('sync-1', async () => 'done')).resolves.toBe('done')
+
+    expect(mockSet).toHaveBeenLastCalledWith({ lockedBy: null, lockedUntil: null, syncProgress: null })
+  })
+
+  it('should release the lease when the run throws', async () => {
+    mockReturning.mockResolvedValueOnce([{ id: 'sync-1' }])
+
+    await expect(withSyncLock('sync-1', async () => {
+      throw new Error('fetch failed')
+    })).rejects.toThrow('fetch failed')
+
+    expect(mockSet).toHaveBeenLastCalledWith({ lockedBy: null, lockedUntil: null, syncProgress: null })
+  })
+
+  it('should renew the lease with progress, throttling repeated updates', async () => {
+    mockReturning.mockResolvedValueOnce([{ id: 'sync-1' }])
+
+    await withSyncLock('sync-1', async (reportProgress) => {
+      await reportProgress({ phase: 'processing', processed: 0, total: 20 })
+      await reportProgress({ phase: 'processing', processed: 5, total: 20 })
+      await reportProgress({ phase: 'processing', processed: 20, total: 20 })
+    })
+
+    const progressWrites = mockSet.mock.calls.map(([values]) => values.syncProgress).filter(Boolean)
+    expect(progressWrites.map((progress: any) => progress.processed)).toEqual([0, 20])
+  })
+})
@@ -0,0 +1,341 @@
+jest.mock('@/lib/db', () => ({ db: {} }))
+
+import {
+  buildSyncPlan,
+  diffGoogleEvent,
+  findOrphanedEvents,
+  isSyncedEventUnchanged,
+  OrphanedEventsInput,
+  SyncPlanInput,
+} from '@/lib/sync-plan'
+import { buildEventKey } from '@/lib/event-identity'
+import { EventMapping, generateContentHash } from '@/lib/event-mappings'
+import type { CalendarEvent } from '@/lib/ics-parser'
+
+describe('Sync plan', () => {
+  const windowStart = new Date('2024-03-11T00:00:00Z')
+  const windowEnd = new Date('2024-04-17T00:00:00Z')
+
+  const standup: CalendarEvent = {
+    uid: 'standup@example.com',
+    summary: 'Weekly Standup',
+    description: 'Agenda',
+    location: 'Teams',
+    start: new Date('2024-03-18T09:30:00Z'),
+    end: new Date('2024-03-18T10:00:00Z'),
+    sourceTimezone: 'Europe/London',
+  }
+  const standupKey = buildEventKey(standup.uid, standup.start)
+
+  const googleCopy = {
+    id: 'google-1',
+    summary: 'Weekly Standup',
+    description: 'Agenda',
+    location: 'Teams',
+    start: { dateTime: '2024-03-18T09:30:00Z', timeZone: 'Europe/London' },
+    end: { dateTime: '2024-03-18T10:00:00Z', timeZone: 'Europe/London' },
+    status: 'confirmed',
+  }
+
+  const mapping = (event: CalendarEvent, contentHash: string | null) => ({
+    googleEventId: 'google-1',
+    eventTitle: event.summary,
+    startDateTime: event.start,
+    contentHash,
+  }) as EventMapping
+
+  const input = (overrides: Partial<SyncPlanInput> = {}): SyncPlanInput => ({
+    syncId: 'sync-1',
+    events: [standup],
+    mappings: new Map(),
+    googleEvents: {},
+    windowStart,
+    windowEnd,
+    hashSettings: { userTimeZone: undefined },
+    deleteRemovedEvents: true,
+    deleteLegacyEvents: true,
+    ...overrides,
+  })
+
+  describe('diffGoogleEvent', () => {
+    it('should report no changes when the Google copy matches', () => {
+      expect(diffGoogleEvent(standup, googleCopy)).toEqual([])
+    })
+
+    it('should compare instants regardless of the offset Google returns', () => {
+      const copy = { ...googleCopy, start: { dateTime: '2024-03-18T09:30:00+00:00', timeZone: 'Europe/London' } }
+
+      expect(diffGoogleEvent(standup, copy)).toEqual([])
+    })
+
+    it('should list each changed field with its old and new value', () => {
+      const moved = { ...standup, summary: 'Standup', start: new Date('2024-03-18T10:00:00Z'), end: new Date('2024-03-18T10:30:00Z') }
+
+      expect(diffGoogleEvent(moved, googleCopy)).toEqual([
+        { field: 'summary', before: 'Weekly Standup', after: 'Standup' },
+        { field: 'start', before: '2024-03-18T09:30:00.000Z', after: '2024-03-18T10:00:00.000Z' },
+        { field: 'end', before: '2024-03-18T10:00:00.000Z', after: '2024-03-18T10:30:00.000Z' },
+      ])
+    })
+  })
+
+  describe('isSyncedEventUnchanged', () => {
+    const hash = generateContentHash(standup, { userTimeZone: undefined })
+
+    it('should skip events whose content and Google copy are unchanged', () => {
+      expect(isSyncedEventUnchanged(mapping(standup, hash), hash, new Set(['google-1']))).toBe(true)
+    })
+
+    it('should write events again when their Google copy was deleted', () => {
+      expect(isSyncedEventUnchanged(mapping(standup, hash), hash, new Set())).toBe(false)
+      expect(isSyncedEventUnchanged(mapping(standup, hash), hash, new Set(['google-2']))).toBe(false)
+    })
+
+    it('should write changed and unmapped events', () => {
+      expect(isSyncedEventUnchanged(mapping(standup, 'old-hash'), hash, new Set(['google-1']))).toBe(false)
+      expect(isSyncedEventUnchanged(undefined, hash, new Set(['google-1']))).toBe(false)
+    })
+  })
+
+  describe('buildSyncPlan', () => {
+    it('should create events that have no Google copy', () => {
+      const plan = buildSyncPlan(input())
+
+      expect(plan.create.map(event => event.key)).toEqual([standupKey])
+      expect(plan.update).toEqual([])
+    })
+
+    it('should leave events with an unchanged content hash alone', () => {
+      const plan = buildSyncPlan(input({
+        mappings: new Map([[standupKey, mapping(standup, generateContentHash(standup, { userTimeZone: undefined }))]]),
+        googleEvents: { [standupKey]: googleCopy },
+      }))
+
+      expect(plan.unchanged).toHaveLength(1)
+      expect(plan.create).toEqual([])
+    })
+
+    it('should recreate events deleted in Google even when the source is unchanged', () => {
+      const plan = buildSyncPlan(input({
+        mappings: new Map([[standupKey, mapping(standup, generateContentHash(standup, { userTimeZone: undefined }))]]),
+      }))
+
+      expect(plan.create.map(event => event.key)).toEqual([standupKey])
+      expect(plan.unchanged).toEqual([])
+    })
+
+    it('should plan an update with field changes when the source changed', () => {
+      const renamed = { ...standup, summary: 'Team Standup' }
+      const plan = buildSyncPlan(input({
+        events: [renamed],
+        mappings: new Map([[standupKey, mapping(standup, 'old-hash')]]),
+        googleEvents: { [standupKey]: googleCopy },
+      }))
+
+      expect(plan.update).toEqual([expect.objectContaining({
+        googleEventId: 'google-1',
+        changes: [{ field: 'summary', before: 'Weekly Standup', after: 'Team Standup' }],
+      })])
+    })
+
+    it('should diff against the event as rewritten by the sync templates', () => {
+      const plan = buildSyncPlan(input({
+        templates: { summary: '[Vendor] {summary}' },
+        mappings: new Map([[standupKey, mapping(standup, 'old-hash')]]),
+        googleEvents: { [standupKey]: googleCopy },
+      }))
+
+      expect(plan.update).toEqual([expect.objectContaining({
+        summary: '[Vendor] Weekly Standup',
+        changes: [{ field: 'summary', before: 'Weekly Standup', after: '[Vendor] Weekly Standup' }],
+      })])
+    })
+
+    it('should report appearance settings the Google copy does not have yet', () => {
+      const plan = buildSyncPlan(input({
+        appearance: { colorId: '11', reminders: [] },
+        mappings: new Map([[standupKey, mapping(standup, 'old-hash')]]),
+        googleEvents: { [standupKey]: { ...googleCopy, reminders: { useDefault: true } } },
+      }))
+
+      expect(plan.update).toEqual([expect.objectContaining({
+        changes: [
+          { field: 'colorId', before: '', after: '11' },
+          { field: 'reminders', before: 'calendar default', after: 'none' },
+        ],
+      })])
+    })
+
+    it('should delete synced events that left the feed, only inside the window', () => {
+      const removedKey = buildEventKey('removed@example.com', new Date('2024-03-20T09:00:00Z'))
+      const outsideKey = buildEventKey('old@example.com', new Date('2024-01-01T09:00:00Z'))
+      const plan = buildSyncPlan(input({
+        googleEvents: {
+          [removedKey]: { ...googleCopy, id: 'google-2', summary: 'Cancelled Review' },
+          [outsideKey]: { ...googleCopy, id: 'google-3', start: { dateTime: '2024-01-01T09:00:00Z' } },
+        },
+      }))
+
+      expect(plan.delete).toEqual([expect.objectContaining({ key: removedKey, googleEventId: 'google-2', summary: 'Cancelled Review' })])
+    })
+
+    it('should delete recurring series that left the feed even if they started before the window', () => {
+      const seriesKey = buildEventKey('series@example.com', new Date('2024-01-01T09:00:00Z'))
+      const plan = buildSyncPlan(input({
+        googleEvents: {
+          [seriesKey]: {
+            ...googleCopy,
+            id: 'google-5',
+            start: { dateTime: '2024-01-01T09:00:00Z' },
+            recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=MO'],
+          },
+        },
+      }))
+
+      expect(plan.delete.map(event => event.googleEventId)).toEqual(['google-5'])
+    })
+
+    it('should report recurrence changes of a series', () => {
+      const series = { ...standup, recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO', exceptionDates: [new Date('2024-03-25T09:30:00Z')] }
+      const plan = buildSyncPlan(input({
+        events: [series],
+        mappings: new Map([[standupKey, mapping(standup, 'old-hash')]]),
+        googleEvents: { [standupKey]: { ...googleCopy, recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=MO'] } },
+      }))
+
+      expect(plan.update).toEqual([expect.objectContaining({
+        changes: [{
+          field: 'recurrence',
+          before: 'RRULE:FREQ=WEEKLY;BYDAY=MO',
+          after: 'RRULE:FREQ=WEEKLY;BYDAY=MO\nEXDATE:20240325T093000Z',
+        }],
+      })])
+    })
+
+    it('should keep events of sources that could not be read', () => {
+      const keptKey = buildEventKey('b-1@example.com', new Date('2024-03-20T09:00:00Z'))
+      const removedKey = buildEventKey('a-1@example.com', new Date('2024-03-21T09:00:00Z'))
+      const tagged = (id: string, sourceTag: string) => ({
+        ...googleCopy,
+        id,
+        extendedProperties: { private: { syncId: 'sync-1', sourceTag } },
+      })
+      const plan = buildSyncPlan(input({
+        googleEvents: { [keptKey]: tagged('google-2', 'Vendor B'), [removedKey]: tagged('google-3', 'Vendor A') },
+        canRemoveSourceEvent: sourceTag => sourceTag === 'Vendor A',
+      }))
+
+      expect(plan.delete.map(event => event.googleEventId)).toEqual(['google-3'])
+    })
+
+    it('should not delete anything when deletion propagation is off', () => {
+      const removedKey = buildEventKey('removed@example.com', new Date('2024-03-20T09:00:00Z'))
+      const plan = buildSyncPlan(input({
+        deleteRemovedEvents: false,
+        googleEvents: { [removedKey]: { ...googleCopy, id: 'google-2' } },
+      }))
+
+      expect(plan.delete).toEqual([])
+    })
+
+    it('should keep legacy events on calendars shared with other syncs', () => {
+      const legacyKey = buildEventKey('legacy@example.com', new Date('2024-03-20T09:00:00Z'))
+      const plan = buildSyncPlan(input({
+        deleteLegacyEvents: false,
+        googleEvents: {
+          [legacyKey]: { ...googleCopy, id: 'google-4', description: 'Original UID: legacy@example.com' },
+        },
+      }))
+
+      expect(plan.delete).toEqual([])
+    })
+  })
+
+  describe('findOrphanedEvents', () => {
+    const removedKey = buildEventKey('removed@example.com', new Date('2024-03-20T09:00:00Z'))
+    const googleAt = (id: string, dateTime: string, extra: object = {}) => ({
+      ...googleCopy,
+      id,
+      start: { dateTime },
+      end: { dateTime },
+      ...extra,
+    })
+    const orphanInput = (overrides: Partial<OrphanedEventsInput> = {}): OrphanedEventsInput => ({
+      feedKeys: new Set([standupKey]),
+      mappings: new Map(),
+      googleEvents: {},
+      windowStart,
+      windowEnd,
+      deleteLegacyEvents: true,
+      ...overrides,
+    })
+
+    it('should select synced events missing from the feed', () => {
+      const orphans = findOrphanedEvents(orphanInput({
+        googleEvents: {
+          [standupKey]: googleCopy,
+          [removedKey]: googleAt('google-2', '2024-03-20T09:00:00Z'),
+        },
+      }))
+
+      expect(orphans).toEqual([{
+        key: removedKey,
+        googleEventId: 'google-2',
+        summary: 'Weekly Standup',
+        start: new Date('2024-03-20T09:00:00Z'),
+      }])
+    })
+
+    it('should select mapped events Google did not list', () => {
+      const removed = { ...standup, uid: 'removed@example.com', start: new Date('2024-03-20T09:00:00Z') }
+      const orphans = findOrphanedEvents(orphanInput({
+        mappings: new Map([[removedKey, { ...mapping(removed, null), googleEventId: 'google-7' }]]),
+      }))
+
+      expect(orphans.map(orphan => orphan.googleEventId)).toEqual(['google-7'])
+    })
+
+    it('should keep events starting before or after the window', () => {
+      const beforeKey = buildEventKey('before@example.com', new Date('2024-03-10T23:00:00Z'))
+      const afterKey = buildEventKey('after@example.com', new Date('2024-04-17T00:30:00Z'))
+      const orphans = findOrphanedEvents(orphanInput({
+        googleEvents: {
+          [beforeKey]: googleAt('google-2', '2024-03-10T23:00:00Z'),
+          [afterKey]: googleAt('google-3', '2024-04-17T00:30:00Z'),
+        },
+      }))
+
+      expect(orphans).toEqual([])
+    })
+
+    it('should select series that started before the window', () => {
+      const seriesKey = buildEventKey('series@example.com', new Date('2024-01-01T09:00:00Z'))
+      const orphans = findOrphanedEvents(orphanInput({
+        googleEvents: {
+          [seriesKey]: googleAt('google-5', '2024-01-01T09:00:00Z', { recurrence: ['RRULE:FREQ=WEEKLY;BYDAY=MO'] }),
+        },
+      }))
+
+      expect(orphans.map(orphan => orphan.googleEventId)).toEqual(['google-5'])
+    })
+
+    it('should keep legacy events on calendars shared with other syncs', () => {
+      const legacyKey = buildEventKey('legacy@example.com', new Date('2024-03-20T09:00:00Z'))
+      const googleEvents = {
+        [legacyKey]: googleAt('google-4', '2024-03-20T09:00:00Z', { description: 'Original UID: legacy@example.com' }),
+      }
+
+      expect(findOrphanedEvents(orphanInput({ googleEvents, deleteLegacyEvents: false }))).toEqual([])
+      expect(findOrphanedEvents(orphanInput({ googleEvents })).map(orphan => orphan.googleEventId)).toEqual(['google-4'])
+    })
+
+    it('should not select anything when the feed is empty', () => {
+      const orphans = findOrphanedEvents(orphanInput({
+        feedKeys: new Set(),
+        googleEvents: { [removedKey]: googleAt('google-2', '2024-03-20T09:00:00Z') },
+      }))
+
+      expect(orphans).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,73 @@
+import {
+  describeSyncSchedule,
+  getNextRunAt,
+  parseCronExpression,
+  parseSyncSchedule,
+} from '@/lib/sync-schedule'
+
+describe('Sync schedule', () => {
+  const now = new Date('2024-03-18T09:37:20Z') // Monday
+
+  describe('getNextRunAt', () => {
+    it('should add the preset interval', () => {
+      expect(getNextRunAt({ schedule: 'hourly' }, now).toISOString()).toBe('2024-03-18T10:37:20.000Z')
+      expect(getNextRunAt({ schedule: 'daily' }, now).toISOString()).toBe('2024-03-19T09:37:20.000Z')
+      expect(getNextRunAt({ schedule: 'weekly' }, now).toISOString()).toBe('2024-03-25T09:37:20.000Z')
+      expect(getNextRunAt({}, now).toISOString()).toBe('2024-03-19T09:37:20.000Z')
+    })
+
+    it('should find the next matching minute of a cron expression in UTC', () => {
+      const next = (scheduleCron: string) => getNextRunAt({ schedule: 'custom', scheduleCron }, now)?.toISOString()
+
+      expect(next('*/15 * * * *')).toBe('2024-03-18T09:45:00.000Z')
+      expect(next('0 6 * * 1-5')).toBe('2024-03-19T06:00:00.000Z')
+      expect(next('30 9 * * *')).toBe('2024-03-19T09:30:00.000Z')
+      expect(next('0 0 1 * *')).toBe('2024-04-01T00:00:00.000Z')
+      expect(next('0 12 * * 7')).toBe('2024-03-24T12:00:00.000Z')
+      expect(next('0 0 29 2 *')).toBe('2028-02-29T00:00:00.000Z')
+    })
+
+    it('should match either day field when both are restricted', () => {
+      // The 20th or any Monday: the next match is Wednesday the 20th
+      expect(getNextRunAt({ schedule: 'custom', scheduleCron: '0 8 20 * 1' }, now)?.toISOString())
+        .toBe('2024-03-20T08:00:00.000Z')
+    })
+
+    it('should return null for a custom schedule that never matches', () => {
+      expect(getNextRunAt({ schedule: 'custom', scheduleCron: '0 0 31 2 *' }, now)).toBeNull()
+      expect(getNextRunAt({ schedule: 'custom', scheduleCron: null }, now)).toBeNull()
+    })
+  })
+
+  describe('parseCronExpression', () => {
+    it('should reject malformed expressions', () => {
+      expect(parseCronExpression('* * * *')).toBeNull()
+      expect(parseCronExpression('60 * * * *')).toBeNull()
+      expect(parseCronExpression('*/0 * * * *')).toBeNull()
+      expect(parseCronExpression('5-1 * * * *')).toBeNull()
+      expect(parseCronExpression('@daily * * * *')).toBeNull()
+    })
+  })
+
+  describe('parseSyncSchedule', () => {
+    it('should accept presets and drop the cron expression', () => {
+      expect(parseSyncSchedule('hourly', '0 * * * *')).toEqual({ schedule: 'hourly', scheduleCron: null })
+      expect(parseSyncSchedule(undefined, undefined)).toBeUndefined()
+    })
+
+    it('should normalize valid cron expressions', () => {
+      expect(parseSyncSchedule('custom', '  0  6 * * 1-5 ')).toEqual({ schedule: 'custom', scheduleCron: '0 6 * * 1-5' })
+    })
+
+    it('should return an error message for invalid input', () => {
+      expect(parseSyncSchedule('monthly', undefined)).toMatch(/Invalid schedule/)
+      expect(parseSyncSchedule('custom', 'every day')).toMatch(/Invalid cron expression/)
+      expect(parseSyncSchedule('custom', '0 0 30 2 *')).toMatch(/never matches/)
+    })
+  })
+
+  it('should describe schedules for the dashboard', () => {
+    expect(describeSyncSchedule({ schedule: 'weekly' })).toBe('Every week')
+    expect(describeSyncSchedule({ schedule: 'custom', scheduleCron: '0 6 * * 1-5' })).toBe('Cron: 0 6 * * 1-5 (UTC)')
+  })
+})
@@ -0,0 +1,88 @@
+import { canRemoveSourceEvent, getSyncSources, mergeSourceEvents, syncSourcesSchema } from '@/lib/sync-sources'
+import type { CalendarEvent } from '@/lib/ics-parser'
+
+describe('Sync sources', () => {
+  const vendorA = { tag: 'Vendor A', icsUrl: 'https://a.example.com/calendar.ics' }
+  const vendorB = { tag: 'Vendor B', icsUrl: 'https://b.example.com/calendar.ics' }
+
+  const event = (uid: string, summary: string, start = '2024-03-18T09:00:00Z'): CalendarEvent => ({
+    uid,
+    summary,
+    start: new Date(start),
+    end: new Date(new Date(start).getTime() + 60 * 60 * 1000),
+  })
+
+  describe('syncSourcesSchema', () => {
+    it('should accept tagged feeds', () => {
+      expect(syncSourcesSchema.safeParse([vendorA, vendorB]).success).toBe(true)
+    })
+
+    it('should reject duplicate tags, bad URLs and empty lists', () => {
+      const duplicate = syncSourcesSchema.safeParse([vendorA, { ...vendorB, tag: 'vendor a' }])
+
+      expect(duplicate.success).toBe(false)
+      expect(duplicate.success ? null : duplicate.error.issues[0].path).toEqual([1, 'tag'])
+      expect(syncSourcesSchema.safeParse([{ tag: 'A', icsUrl: 'ftp://a.example.com/x.ics' }]).success).toBe(false)
+      expect(syncSourcesSchema.safeParse([]).success).toBe(false)
+    })
+  })
+
+  it('should read the sync feed as a single untagged source without sources', () => {
+    expect(getSyncSources({ icsUrl: vendorA.icsUrl, sources: null })).toEqual([{ icsUrl: vendorA.icsUrl }])
+    expect(getSyncSources({ icsUrl: vendorA.icsUrl, sources: [vendorA, vendorB] })).toEqual([vendorA, vendorB])
+  })
+
+  describe('mergeSourceEvents', () => {
+    it('should tag events with their source', () => {
+      const { events } = mergeSourceEvents([
+        { source: vendorA, events: [event('a-1', 'Kickoff')] },
+        { source: vendorB, events: [event('b-1', 'Review', '2024-03-19T09:00:00Z')] },
+      ])
+
+      expect(events.map(e => [e.uid, e.sourceTag])).toEqual([['a-1', 'Vendor A'], ['b-1', 'Vendor B']])
+    })
+
+    it('should keep the first source of an occurrence listed by several sources', () => {
+      const { events, duplicates } = mergeSourceEvents([
+        { source: vendorA, events: [event('shared', 'Kickoff'), event('a-2', 'Planning', '2024-03-20T09:00:00Z')] },
+        // Same UID, and the same meeting republished under another UID
+        { source: vendorB, events: [event('shared', 'Kickoff'), event('b-2', ' planning ', '2024-03-20T09:00:00Z')] },
+      ])
+
+      expect(events.map(e => `${e.uid}@${e.sourceTag}`)).toEqual(['shared@Vendor A', 'a-2@Vendor A'])
+      expect(duplicates).toBe(2)
+    })
+
+    it('should leave repeats within one source to the sync run', () => {
+      const { events, duplicates } = mergeSourceEvents([
+        { source: { icsUrl: vendorA.icsUrl }, events: [event('a-1', 'Kickoff'), event('a-1', 'Kickoff')] },
+      ])
+
+      expect(events).toHaveLength(2)
+      expect(events[0].sourceTag).toBeUndefined()
+      expect(duplicates).toBe(0)
+    })
+  })
+
+  describe('canRemoveSourceEvent', () => {
+    const feeds = { sources: [vendorA, vendorB], settledTags: ['Vendor A'] }
+
+    it('should only remove events of sources that were read', () => {
+      expect(canRemoveSourceEvent(feeds, 'Vendor A')).toBe(true)
+      expect(canRemoveSourceEvent(feeds, 'Vendor B')).toBe(false)
+    })
+
+    it('should remove events of sources that left the sync', () => {
+      expect(canRemoveSourceEvent(feeds, 'Vendor C')).toBe(true)
+    })
+
+    it('should only remove unattributed events once every source was read', () => {
+      expect(canRemoveSourceEvent(feeds, undefined)).toBe(false)
+      expect(canRemoveSourceEvent({ ...feeds, settledTags: ['Vendor A', 'Vendor B'] }, null)).toBe(true)
+    })
+
+    it('should always allow removal for single-feed syncs', () => {
+      expect(canRemoveSourceEvent({ sources: [{ icsUrl: vendorA.icsUrl }], settledTags: [] }, undefined)).toBe(true)
+    })
+  })
+})
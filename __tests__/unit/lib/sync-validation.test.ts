@@ -0,0 +1,46 @@
+import { parseSyncUpdate } from '@/lib/sync-validation'
+
+describe('Sync validation', () => {
+  describe('parseSyncUpdate', () => {
+    it('should accept a partial update of editable fields', () => {
+      expect(parseSyncUpdate({ name: ' Work ', isActive: false, syncDaysFuture: '60' })).toEqual({
+        name: 'Work',
+        isActive: false,
+        syncDaysFuture: 60,
+      })
+    })
+
+    it('should accept busy/free settings', () => {
+      expect(parseSyncUpdate({ syncType: 'busy_free', privacyLevel: 'show_free_busy' })).toEqual({
+        syncType: 'busy_free',
+        privacyLevel: 'show_free_busy',
+      })
+    })
+
+    it('should accept two-way settings', () => {
+      expect(parseSyncUpdate({ syncType: 'two_way', conflictPolicy: 'manual', caldavUsername: ' alice ', caldavPassword: 'app-password' })).toEqual({
+        syncType: 'two_way',
+        conflictPolicy: 'manual',
+        caldavUsername: 'alice',
+        caldavPassword: 'app-password',
+      })
+      expect(parseSyncUpdate({ conflictPolicy: 'ask_later' })).toMatch(/^Invalid conflictPolicy:/)
+    })
+
+    it('should name the invalid field', () => {
+      expect(parseSyncUpdate({ icsUrl: 'not a url' })).toBe('Invalid icsUrl: must be a URL')
+      expect(parseSyncUpdate({ syncDaysPast: 1.5 })).toBe('Invalid syncDaysPast: must be a whole number')
+      expect(parseSyncUpdate({ privacyLevel: 'everything' })).toMatch(/^Invalid privacyLevel:/)
+      expect(parseSyncUpdate({ name: '   ' })).toBe('Invalid name: must not be empty')
+    })
+
+    it('should reject URLs that are not feeds', () => {
+      expect(parseSyncUpdate({ icsUrl: 'ftp://example.com/calendar.ics' })).toBe('Invalid icsUrl: must be an http(s) or webcal URL')
+    })
+
+    it('should reject fields that cannot be edited', () => {
+      expect(parseSyncUpdate({ userId: 'someone-else' })).toMatch(/^Invalid sync update:/)
+      expect(parseSyncUpdate(null)).toMatch(/^Invalid sync update:/)
+    })
+  })
+})
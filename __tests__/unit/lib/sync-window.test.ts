@@ -0,0 +1,61 @@
+import {
+  getSyncWindow,
+  parseSyncWindowDays,
+  DEFAULT_SYNC_DAYS_PAST,
+  DEFAULT_SYNC_DAYS_FUTURE,
+} from '@/lib/sync-window'
+
+describe('Sync Window', () => {
+  const now = new Date(2024, 6, 28, 15, 30) // 28 July 2024, 15:30 local
+
+  describe('getSyncWindow', () => {
+    it('should use the default window when the sync has no settings', () => {
+      const { start, end } = getSyncWindow({}, now)
+
+      expect(start).toEqual(new Date(2024, 6, 28 - DEFAULT_SYNC_DAYS_PAST))
+      expect(end).toEqual(new Date(2024, 6, 28 + DEFAULT_SYNC_DAYS_FUTURE, 23, 59, 59))
+    })
+
+    it('should cover next week at the end of the month', () => {
+      const { end } = getSyncWindow({ syncDaysPast: 0, syncDaysFuture: 14 }, now)
+
+      expect(end.getMonth()).toBe(7) // August
+      expect(end.getDate()).toBe(11)
+    })
+
+    it('should start at the beginning of the day N days back', () => {
+      const { start } = getSyncWindow({ syncDaysPast: 3, syncDaysFuture: 0 }, now)
+
+      expect(start).toEqual(new Date(2024, 6, 25, 0, 0, 0))
+    })
+
+    it('should allow a zero-day window covering only today', () => {
+      const { start, end } = getSyncWindow({ syncDaysPast: 0, syncDaysFuture: 0 }, now)
+
+      expect(start).toEqual(new Date(2024, 6, 28, 0, 0, 0))
+      expect(end).toEqual(new Date(2024, 6, 28, 23, 59, 59))
+    })
+  })
+
+  describe('parseSyncWindowDays', () => {
+    it('should return undefined when the value is missing', () => {
+      expect(parseSyncWindowDays(undefined)).toBeUndefined()
+      expect(parseSyncWindowDays(null)).toBeUndefined()
+      expect(parseSyncWindowDays('')).toBeUndefined()
+    })
+
+    it('should accept whole numbers and numeric strings', () => {
+      expect(parseSyncWindowDays(0)).toBe(0)
+      expect(parseSyncWindowDays(30)).toBe(30)
+      expect(parseSyncWindowDays('14')).toBe(14)
+    })
+
+    it('should reject negative, fractional and out-of-range values', () => {
+      expect(parseSyncWindowDays(-1)).toBeNull()
+      expect(parseSyncWindowDays(1.5)).toBeNull()
+      expect(parseSyncWindowDays(366)).toBeNull()
+      expect(parseSyncWindowDays('abc')).toBeNull()
+      expect(parseSyncWindowDays({})).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,145 @@
+import {
+  normalizeTimezone,
+  floatingToInstant,
+  instantToFloating,
+} from '@/lib/timezone'
+import { parseICSCalendar, expandOccurrences } from '@/lib/ics-parser'
+
+const wrapCalendar = (body: string) => `BEGIN:VCALENDAR
+VERSION:2.0
+PRODID:-//Test//Test//EN
+${body}
+END:VCALENDAR`
+
+const CUSTOM_VTIMEZONE = `BEGIN:VTIMEZONE
+TZID:Customized Time Zone
+BEGIN:STANDARD
+DTSTART:16010101T030000
+TZOFFSETFROM:+0200
+TZOFFSETTO:+0100
+RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=10
+END:STANDARD
+BEGIN:DAYLIGHT
+DTSTART:16010101T020000
+TZOFFSETFROM:+0100
+TZOFFSETTO:+0200
+RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=3
+END:DAYLIGHT
+END:VTIMEZONE`
+
+describe('Timezone conversion', () => {
+  describe('normalizeTimezone', () => {
+    it('should map Windows timezone names to IANA', () => {
+      expect(normalizeTimezone('US Mountain Standard Time')).toBe('America/Phoenix')
+      expect(normalizeTimezone('Romance Standard Time')).toBe('Europe/Paris')
+      expect(normalizeTimezone('"Eastern Standard Time"')).toBe('America/New_York')
+    })
+
+    it('should keep valid IANA names and reject unknown ones', () => {
+      expect(normalizeTimezone('Europe/Madrid')).toBe('Europe/Madrid')
+      expect(normalizeTimezone('Customized Time Zone')).toBeUndefined()
+      expect(normalizeTimezone(undefined)).toBeUndefined()
+    })
+  })
+
+  describe('floatingToInstant', () => {
+    it('should apply the DST offset in effect on the date', () => {
+      const winter = floatingToInstant(new Date('2024-01-15T09:00:00Z'), 'Europe/Madrid')
+      const summer = floatingToInstant(new Date('2024-07-15T09:00:00Z'), 'Europe/Madrid')
+
+      expect(winter.toISOString()).toBe('2024-01-15T08:00:00.000Z')
+      expect(summer.toISOString()).toBe('2024-07-15T07:00:00.000Z')
+    })
+
+    it('should convert Arizona times without DST', () => {
+      const instant = floatingToInstant(new Date('2024-07-15T09:00:00Z'), 'US Mountain Standard Time')
+      expect(instant.toISOString()).toBe('2024-07-15T16:00:00.000Z')
+    })
+
+    it('should round-trip through instantToFloating', () => {
+      const instant = new Date('2024-03-31T10:00:00Z')
+      const floating = instantToFloating(instant, 'America/New_York')
+
+      expect(floating.toISOString()).toBe('2024-03-31T06:00:00.000Z')
+      expect(floatingToInstant(floating, 'America/New_York')).toEqual(instant)
+    })
+  })
+
+  describe('parseICSCalendar', () => {
+    it('should keep UTC times as exact instants', () => {
+      const { events } = parseICSCalendar(wrapCalendar(`BEGIN:VEVENT
+UID:utc-event
+DTSTART:20240715T140000Z
+DTEND:20240715T150000Z
+SUMMARY:UTC Event
+END:VEVENT`))
+
+      expect(events[0].start.toISOString()).toBe('2024-07-15T14:00:00.000Z')
+      expect(events[0].sourceTimezone).toBe('UTC')
+    })
+
+    it('should convert TZID times using the named zone', () => {
+      const { events } = parseICSCalendar(wrapCalendar(`BEGIN:VEVENT
+UID:tzid-event
+DTSTART;TZID=Europe/Madrid:20240715T090000
+DTEND;TZID=Europe/Madrid:20240715T100000
+SUMMARY:Madrid Event
+END:VEVENT`))
+
+      expect(events[0].start.toISOString()).toBe('2024-07-15T07:00:00.000Z')
+      expect(events[0].end.toISOString()).toBe('2024-07-15T08:00:00.000Z')
+      expect(events[0].sourceTimezone).toBe('Europe/Madrid')
+    })
+
+    it('should fall back to VTIMEZONE rules for custom zones', () => {
+      const { events, timezones } = parseICSCalendar(wrapCalendar(`${CUSTOM_VTIMEZONE}
+BEGIN:VEVENT
+UID:custom-winter
+DTSTART;TZID=Customized Time Zone:20240115T090000
+DTEND;TZID=Customized Time Zone:20240115T100000
+SUMMARY:Winter
+END:VEVENT
+BEGIN:VEVENT
+UID:custom-summer
+DTSTART;TZID=Customized Time Zone:20240715T090000
+DTEND;TZID=Customized Time Zone:20240715T100000
+SUMMARY:Summer
+END:VEVENT`))
+
+      expect(timezones['Customized Time Zone']).toHaveLength(2)
+      expect(events.find(e => e.uid === 'custom-winter')!.start.toISOString()).toBe('2024-01-15T08:00:00.000Z')
+      expect(events.find(e => e.uid === 'custom-summer')!.start.toISOString()).toBe('2024-07-15T07:00:00.000Z')
+    })
+  })
+
+  describe('expandOccurrences', () => {
+    it('should keep local wall-clock time across a DST change', () => {
+      const occurrences = expandOccurrences(
+        'FREQ=WEEKLY;COUNT=3',
+        new Date('2024-03-05T14:00:00Z'), // 09:00 in New York (EST)
+        'America/New_York',
+        new Date('2024-03-01T00:00:00Z'),
+        new Date('2024-03-31T00:00:00Z')
+      )
+
+      expect(occurrences.map(o => o.start.toISOString())).toEqual([
+        '2024-03-05T14:00:00.000Z',
+        '2024-03-12T13:00:00.000Z', // EDT from 10 March
+        '2024-03-19T13:00:00.000Z',
+      ])
+    })
+
+    it('should only return occurrences inside the window', () => {
+      const occurrences = expandOccurrences(
+        'FREQ=DAILY;COUNT=10',
+        new Date('2024-07-01T08:00:00Z'),
+        'UTC',
+        new Date('2024-07-03T00:00:00Z'),
+        new Date('2024-07-05T23:59:59Z')
+      )
+
+      expect(occurrences).toHaveLength(3)
+      expect(occurrences[0].start.toISOString()).toBe('2024-07-03T08:00:00.000Z')
+    })
+  })
+})
@@ -0,0 +1,97 @@
+import { decideTwoWayAction, fromGoogleEvent, revisionHash, snapshotEvent } from '@/lib/two-way-sync'
+import { SOURCE_UID_PROPERTY } from '@/lib/event-identity'
+import type { CalendarEvent } from '@/lib/ics-parser'
+
+describe('Two-way sync decisions', () => {
+  const original: CalendarEvent = {
+    uid: 'standup-1',
+    summary: 'Standup',
+    start: new Date('2024-03-18T09:00:00Z'),
+    end: new Date('2024-03-18T09:30:00Z'),
+    lastModified: new Date('2024-03-10T08:00:00Z'),
+  }
+  const syncedHash = revisionHash(original)
+
+  const sourceEdit = { ...original, summary: 'Standup (source)', lastModified: new Date('2024-03-15T08:00:00Z') }
+  const googleEdit = { ...original, summary: 'Standup (google)', lastModified: new Date('2024-03-16T08:00:00Z') }
+
+  describe('revisionHash', () => {
+    it('should ignore modification times and surrounding whitespace', () => {
+      expect(revisionHash({ ...original, summary: ' Standup ', lastModified: new Date() })).toBe(syncedHash)
+    })
+
+    it('should change with times, content and cancellation', () => {
+      expect(revisionHash({ ...original, end: new Date('2024-03-18T10:00:00Z') })).not.toBe(syncedHash)
+      expect(revisionHash({ ...original, location: 'Room 1' })).not.toBe(syncedHash)
+      expect(revisionHash({ ...original, status: 'CANCELLED' })).not.toBe(syncedHash)
+    })
+  })
+
+  it('should read a synced Google event under its source UID', () => {
+    const event = fromGoogleEvent({
+      id: 'g1',
+      summary: 'Standup',
+      start: { dateTime: '2024-03-18T10:00:00+01:00', timeZone: 'Europe/Berlin' },
+      end: { dateTime: '2024-03-18T10:30:00+01:00', timeZone: 'Europe/Berlin' },
+      updated: '2024-03-16T08:00:00.000Z',
+      extendedProperties: { private: { [SOURCE_UID_PROPERTY]: 'standup-1' } },
+    })
+
+    expect(event).toMatchObject({ uid: 'standup-1', sourceTimezone: 'Europe/Berlin', lastModified: googleEdit.lastModified })
+    expect(revisionHash(event)).toBe(syncedHash)
+  })
+
+  it('should read all-day Google events as dates', () => {
+    const event = fromGoogleEvent({ summary: 'Offsite', start: { date: '2024-03-20' }, end: { date: '2024-03-21' } })
+
+    expect(event).toMatchObject({ allDay: true, start: new Date('2024-03-20T00:00:00Z'), end: new Date('2024-03-21T00:00:00Z') })
+  })
+
+  describe('decideTwoWayAction', () => {
+    it('should leave unchanged events alone', () => {
+      expect(decideTwoWayAction({ source: original, google: original, syncedHash }, 'manual')).toBe('none')
+    })
+
+    it('should copy a change made on one side', () => {
+      expect(decideTwoWayAction({ source: sourceEdit, google: original, syncedHash }, 'google_wins')).toBe('update_google')
+      expect(decideTwoWayAction({ source: original, google: googleEdit, syncedHash }, 'source_wins')).toBe('update_source')
+    })
+
+    it('should copy a deletion made on one side', () => {
+      expect(decideTwoWayAction({ google: original, syncedHash }, 'google_wins')).toBe('delete_google')
+      expect(decideTwoWayAction({ source: original, syncedHash }, 'source_wins')).toBe('delete_source')
+      expect(decideTwoWayAction({ syncedHash }, 'source_wins')).toBe('forget')
+    })
+
+    it('should create new source events in Google and link identical copies', () => {
+      expect(decideTwoWayAction({ source: original }, 'google_wins')).toBe('create_google')
+      expect(decideTwoWayAction({ source: original, google: { ...original } }, 'manual')).toBe('link')
+      expect(decideTwoWayAction({ source: sourceEdit, google: { ...sourceEdit }, syncedHash }, 'manual')).toBe('link')
+    })
+
+    it('should settle edits on both sides by policy', () => {
+      const state = { source: sourceEdit, google: googleEdit, syncedHash }
+
+      expect(decideTwoWayAction(state, 'source_wins')).toBe('update_google')
+      expect(decideTwoWayAction(state, 'google_wins')).toBe('update_source')
+      expect(decideTwoWayAction(state, 'newest_wins')).toBe('update_source')
+      expect(decideTwoWayAction({ ...state, google: { ...googleEdit, lastModified: new Date('2024-03-14T08:00:00Z') } }, 'newest_wins'))
+        .toBe('update_google')
+      expect(decideTwoWayAction(state, 'manual')).toBe('conflict')
+    })
+
+    it('should let an edit win over a deletion under newest_wins', () => {
+      expect(decideTwoWayAction({ google: googleEdit, syncedHash: revisionHash(sourceEdit) }, 'newest_wins')).toBe('create_source')
+      expect(decideTwoWayAction({ source: sourceEdit, syncedHash: revisionHash(googleEdit) }, 'newest_wins')).toBe('create_google')
+    })
+
+    it('should apply the side the user picked for a conflict', () => {
+      const conflict = { detectedAt: '2024-03-17T08:00:00Z', source: snapshotEvent(sourceEdit), google: snapshotEvent(googleEdit) }
+      const state = { source: sourceEdit, google: googleEdit, syncedHash, conflict }
+
+      expect(decideTwoWayAction(state, 'manual')).toBe('conflict')
+      expect(decideTwoWayAction({ ...state, conflict: { ...conflict, resolution: 'google' as const } }, 'manual')).toBe('update_source')
+      expect(decideTwoWayAction({ ...state, conflict: { ...conflict, resolution: 'source' as const } }, 'google_wins')).toBe('update_google')
+    })
+  })
+})
@@ -5,6 +5,7 @@ import { db } from '../../../../../lib/db';
 import { calendarSyncs } from '../../../../../lib/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { syncBusyFreeCalendar } from '../../../../../lib/busy-free-sync-service';
+import { getSyncInProgressDetails } from '../../../../../lib/sync-lock';
 
 interface RouteParams {
   params: {
@@ -66,7 +67,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     return NextResponse.json({
       success: syncResult.success,
-      message: syncResult.success 
+      message: syncResult.notModified
+        ? 'Busy/free calendar unchanged since the last sync'
+        : syncResult.success 
         ? 'Busy/free calendar synced successfully' 
         : 'Busy/free calendar sync completed with errors',
       result: {
@@ -76,6 +79,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         eventsSkipped: syncResult.eventsSkipped,
         errors: syncResult.errors,
         duration: syncResult.duration,
+        notModified: syncResult.notModified ?? false,
       },
       sync: {
         id: sync.id,
@@ -88,6 +92,12 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
   } catch (error) {
     console.error('Error performing manual busy/free sync:', error);
+
+    if (error instanceof Error && error.message === 'SYNC_IN_PROGRESS') {
+      return NextResponse.json(await getSyncInProgressDetails(params.syncId), { status: 409 });
+    }
+
+
     return NextResponse.json({ 
       success: false,
       error: `Failed to sync busy/free calendar: ${error instanceof Error ? error.message : 'Unknown error'}` 
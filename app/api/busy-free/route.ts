@@ -6,6 +6,8 @@ import { calendarSyncs } from '../../../lib/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { syncBusyFreeCalendar, isBusyFreeCalendar, detectPrivacyLevel } from '../../../lib/busy-free-sync-service';
 import { parseBusyFreeICS } from '../../../lib/busy-free-parser';
+import { parseSyncWindowDays } from '../../../lib/sync-window';
+import { withoutSecrets } from '../../../lib/secrets';
 
 export async function GET(request: NextRequest) {
   try {
@@ -33,7 +35,7 @@ export async function GET(request: NextRequest) {
       }
 
       return NextResponse.json({
-        sync: calendarSync[0],
+        sync: withoutSecrets(calendarSync[0]),
         isBusyFree: isBusyFreeCalendar(calendarSync[0].icsUrl)
       });
     }
@@ -50,7 +52,7 @@ export async function GET(request: NextRequest) {
     );
 
     return NextResponse.json({
-      syncs: busyFreeSyncs,
+      syncs: busyFreeSyncs.map(withoutSecrets),
       total: busyFreeSyncs.length
     });
 
@@ -69,7 +71,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { name, icsUrl, googleCalendarId, privacyLevel } = await request.json();
+    const body = await request.json();
+    const { name, icsUrl, googleCalendarId, privacyLevel } = body;
 
     // Validate required fields
     if (!name || !icsUrl || !googleCalendarId) {
@@ -78,6 +81,15 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    const syncDaysPast = parseSyncWindowDays(body.syncDaysPast);
+    const syncDaysFuture = parseSyncWindowDays(body.syncDaysFuture);
+
+    if (syncDaysPast === null || syncDaysFuture === null) {
+      return NextResponse.json({ 
+        error: 'Invalid sync window: syncDaysPast and syncDaysFuture must be whole numbers between 0 and 365' 
+      }, { status: 400 });
+    }
+
     // Validate ICS URL is accessible and contains busy/free data
     try {
       const busyFreeData = await parseBusyFreeICS(icsUrl, {
@@ -104,10 +116,12 @@ export async function POST(request: NextRequest) {
         syncType: 'busy_free',
         privacyLevel: detectedPrivacyLevel,
         isActive: true,
+        ...(syncDaysPast !== undefined && { syncDaysPast }),
+        ...(syncDaysFuture !== undefined && { syncDaysFuture }),
       }).returning();
 
       return NextResponse.json({
-        sync: newSync[0],
+        sync: withoutSecrets(newSync[0]),
         message: 'Busy/free calendar sync created successfully',
         detectedEvents: busyFreeData.events.length,
         detectedPrivacyLevel
@@ -135,12 +149,22 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { syncId, name, privacyLevel, isActive } = await request.json();
+    const body = await request.json();
+    const { syncId, name, privacyLevel, isActive } = body;
 
     if (!syncId) {
       return NextResponse.json({ error: 'Missing syncId' }, { status: 400 });
     }
 
+    const syncDaysPast = parseSyncWindowDays(body.syncDaysPast);
+    const syncDaysFuture = parseSyncWindowDays(body.syncDaysFuture);
+
+    if (syncDaysPast === null || syncDaysFuture === null) {
+      return NextResponse.json({ 
+        error: 'Invalid sync window: syncDaysPast and syncDaysFuture must be whole numbers between 0 and 365' 
+      }, { status: 400 });
+    }
+
     // Verify ownership
     const existingSync = await db
       .select()
@@ -163,6 +187,8 @@ export async function PATCH(request: NextRequest) {
     if (name !== undefined) updateData.name = name;
     if (privacyLevel !== undefined) updateData.privacyLevel = privacyLevel;
     if (isActive !== undefined) updateData.isActive = isActive;
+    if (syncDaysPast !== undefined) updateData.syncDaysPast = syncDaysPast;
+    if (syncDaysFuture !== undefined) updateData.syncDaysFuture = syncDaysFuture;
 
     const updatedSync = await db
       .update(calendarSyncs)
@@ -171,7 +197,7 @@ export async function PATCH(request: NextRequest) {
       .returning();
 
     return NextResponse.json({
-      sync: updatedSync[0],
+      sync: withoutSecrets(updatedSync[0]),
       message: 'Busy/free calendar sync updated successfully'
     });
 
@@ -1,8 +1,13 @@
 import { NextRequest } from 'next/server';
-import { syncAllActiveCalendars } from '@/lib/sync-service';
+import { dispatchDueSyncs } from '@/lib/sync-scheduler';
+import { runSyncWorker } from '@/lib/sync-jobs';
 
 export const dynamic = 'force-dynamic';
 
+// Stop claiming new jobs well before the 300s maxDuration; a job cut off
+// mid-run is picked up again once its lock expires
+const WORKER_TIME_BUDGET_MS = 240 * 1000;
+
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
   
@@ -20,7 +25,7 @@ export async function GET(request: NextRequest) {
       return Response.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    console.log('🔄 Starting monthly calendar sync...', {
+    console.log('🔄 Dispatching due calendar syncs and running sync jobs...', {
       timestamp: new Date().toISOString(),
       environment: process.env.NODE_ENV,
       userAgent: userAgent?.substring(0, 50)
@@ -34,12 +39,16 @@ export async function GET(request: NextRequest) {
       throw new Error(`Missing required environment variables: ${missingVars.join(', ')}`);
     }
     
-    await syncAllActiveCalendars();
+    const dispatch = await dispatchDueSyncs();
+    const worker = await runSyncWorker({ deadline: startTime + WORKER_TIME_BUDGET_MS });
     
     const duration = Date.now() - startTime;
-    const successMessage = 'Monthly calendar sync completed successfully';
+    const successMessage = `Queued ${dispatch.enqueued} due syncs, processed ${worker.processed} sync jobs`;
     
     console.log(`✅ ${successMessage}`, {
+      succeeded: worker.succeeded,
+      retrying: worker.failed,
+      dead: worker.dead,
       duration: `${duration}ms`,
       timestamp: new Date().toISOString()
     });
@@ -47,6 +56,8 @@ export async function GET(request: NextRequest) {
     return Response.json({ 
       success: true, 
       message: successMessage,
+      dispatch,
+      worker,
       timestamp: new Date().toISOString(),
       duration: `${duration}ms`,
       environment: process.env.NODE_ENV
@@ -56,7 +67,7 @@ export async function GET(request: NextRequest) {
     const duration = Date.now() - startTime;
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     
-    console.error('❌ Monthly sync cron job failed:', {
+    console.error('❌ Sync dispatcher cron job failed:', {
       error: errorMessage,
       duration: `${duration}ms`,
       timestamp: new Date().toISOString(),
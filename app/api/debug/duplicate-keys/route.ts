@@ -49,9 +49,11 @@ export async function GET(request: NextRequest) {
     const existingEvents = await getExistingGoogleEvents(
       config.googleCalendarId,
       monthStart,
-      monthEnd
+      monthEnd,
+      0,
+      { syncId: config.id }
     );
-    console.log(`📊 Found ${Object.keys(existingEvents).length} existing Google events with Original UID`);
+    console.log(`📊 Found ${Object.keys(existingEvents).length} existing synced Google events`);
     
     // Create analysis of keys
     const icsKeys = icsEvents.map(event => ({
@@ -11,6 +11,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const icsUrl = searchParams.get('icsUrl');
     const calendarId = searchParams.get('calendarId') || 'primary';
+    const syncId = searchParams.get('syncId') || undefined;
     
     if (!icsUrl) {
       return NextResponse.json({
@@ -46,7 +47,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Get existing Google Calendar events
-    const existingEvents = await getExistingGoogleEvents(calendarId, monthStart, monthEnd, 0);
+    const existingEvents = await getExistingGoogleEvents(calendarId, monthStart, monthEnd, 0, { syncId });
     console.log(`   📊 Found ${Object.keys(existingEvents).length} existing Google events with UID patterns`);
 
     // Generate ICS keys
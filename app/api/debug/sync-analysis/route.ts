@@ -6,6 +6,7 @@ import { calendarSyncs, syncLogs } from '@/lib/db/schema';
 import { eq, desc } from 'drizzle-orm';
 import { parseICSFromUrlWithExpansion } from '@/lib/ics-parser';
 import { getExistingGoogleEvents } from '@/lib/google-calendar';
+import { getSyncWindow } from '@/lib/sync-window';
 
 export async function GET(request: NextRequest) {
   try {
@@ -44,10 +45,8 @@ export async function GET(request: NextRequest) {
       lastSync: config.lastSync
     });
 
-    // Get current month date range
-    const now = new Date();
-    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-    const monthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
+    // Use the same rolling window as the real sync
+    const { start: monthStart, end: monthEnd } = getSyncWindow(config);
     
     console.log('📅 Date range:', {
       start: monthStart.toISOString(),
@@ -64,9 +63,11 @@ export async function GET(request: NextRequest) {
     const existingEventsMap = await getExistingGoogleEvents(
       config.googleCalendarId,
       monthStart,
-      monthEnd
+      monthEnd,
+      0,
+      { syncId: config.id }
     );
-    console.log(`✅ Found ${Object.keys(existingEventsMap).length} existing Google events with Original UID`);
+    console.log(`✅ Found ${Object.keys(existingEventsMap).length} existing synced Google events`);
 
     // Step 3: Analyze each ICS event for duplicate detection
     console.log('🎯 STEP 3: Analyzing duplicate detection for each event...');
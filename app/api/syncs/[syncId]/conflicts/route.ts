@@ -0,0 +1,79 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { calendarSyncs } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { getSyncConflicts, resolveSyncConflict } from '@/lib/two-way-sync-service';
+
+async function findUserSync(syncId: string, userId: string) {
+  const sync = await db
+    .select({ id: calendarSyncs.id })
+    .from(calendarSyncs)
+    .where(
+      and(
+        eq(calendarSyncs.id, syncId),
+        eq(calendarSyncs.userId, userId)
+      )
+    )
+    .limit(1);
+
+  return sync[0];
+}
+
+/** Events of a two-way sync that were edited on both sides and wait for the user */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { syncId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    if (!(await findUserSync(params.syncId, session.user.id))) {
+      return new Response('Sync not found', { status: 404 });
+    }
+
+    return Response.json({ conflicts: await getSyncConflicts(params.syncId) });
+  } catch (error) {
+    console.error('Failed to fetch sync conflicts:', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
+
+/** Pick the side of a conflict to keep: `{ mappingId, resolution: 'source' | 'google' }` */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { syncId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    if (!(await findUserSync(params.syncId, session.user.id))) {
+      return new Response('Sync not found', { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (typeof body.mappingId !== 'string' || !['source', 'google'].includes(body.resolution)) {
+      return new Response('Invalid request: mappingId and a resolution of "source" or "google" are required', { status: 400 });
+    }
+
+    const resolved = await resolveSyncConflict(params.syncId, body.mappingId, body.resolution);
+    if (!resolved) {
+      return new Response('Conflict not found', { status: 404 });
+    }
+
+    // Applied by the next run
+    return Response.json({ success: true });
+  } catch (error) {
+    console.error('Failed to resolve sync conflict:', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
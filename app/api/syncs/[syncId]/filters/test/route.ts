@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { calendarSyncs } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { fetchSyncFeedEvents } from '@/lib/sync-service';
+import { evaluateEventFilters, filterRulesSchema, getSyncFilterRules } from '@/lib/event-filters';
+
+const MAX_LISTED_EVENTS = 200;
+
+/**
+ * Show which events of the sync's feed a rule set keeps. Tests the `rules`
+ * in the body, or the saved rules when none are given; nothing is stored.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { syncId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const sync = await db
+      .select()
+      .from(calendarSyncs)
+      .where(
+        and(
+          eq(calendarSyncs.id, params.syncId),
+          eq(calendarSyncs.userId, session.user.id)
+        )
+      )
+      .limit(1);
+
+    if (!sync[0]) {
+      return new Response('Sync not found', { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    let rules = getSyncFilterRules(sync[0]);
+    if (body.rules !== undefined) {
+      const parsed = filterRulesSchema.safeParse(body.rules);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        return new Response(`Invalid rules.${issue.path.join('.')}: ${issue.message}`, { status: 400 });
+      }
+      rules = parsed.data;
+    }
+
+    const { events } = await fetchSyncFeedEvents(params.syncId);
+    const decisions = evaluateEventFilters(events, rules);
+    const kept = decisions.filter(decision => decision.kept).length;
+
+    return Response.json({
+      rules,
+      total: decisions.length,
+      kept,
+      dropped: decisions.length - kept,
+      events: decisions.slice(0, MAX_LISTED_EVENTS).map(decision => ({
+        uid: decision.event.uid,
+        summary: decision.event.summary,
+        start: decision.event.start.toISOString(),
+        status: decision.event.status || 'CONFIRMED',
+        kept: decision.kept,
+        ruleIndex: decision.ruleIndex,
+        reason: decision.reason,
+      })),
+      truncated: decisions.length > MAX_LISTED_EVENTS,
+    });
+  } catch (error) {
+    console.error('Filter test failed:', error);
+    return Response.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { calendarSyncs } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import {
+  DEFAULT_HISTORY_PAGE_SIZE,
+  DEFAULT_HISTORY_STATS_DAYS,
+  MAX_HISTORY_PAGE_SIZE,
+  MAX_HISTORY_STATS_DAYS,
+  getSyncHistory,
+  getSyncHistoryStats,
+  parseHistoryCount,
+} from '@/lib/sync-history';
+
+/**
+ * Past runs of a sync, newest first. `?before=<nextCursor>` pages back;
+ * the first page also carries daily stats for the last `?days=` days.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { syncId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const sync = await db
+      .select({ id: calendarSyncs.id })
+      .from(calendarSyncs)
+      .where(
+        and(
+          eq(calendarSyncs.id, params.syncId),
+          eq(calendarSyncs.userId, session.user.id)
+        )
+      )
+      .limit(1);
+
+    if (!sync[0]) {
+      return new Response('Sync not found', { status: 404 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const limit = parseHistoryCount(searchParams.get('limit'), DEFAULT_HISTORY_PAGE_SIZE, MAX_HISTORY_PAGE_SIZE);
+    if (limit === null) {
+      return new Response(`Invalid limit: must be a whole number between 1 and ${MAX_HISTORY_PAGE_SIZE}`, { status: 400 });
+    }
+
+    const days = parseHistoryCount(searchParams.get('days'), DEFAULT_HISTORY_STATS_DAYS, MAX_HISTORY_STATS_DAYS);
+    if (days === null) {
+      return new Response(`Invalid days: must be a whole number between 1 and ${MAX_HISTORY_STATS_DAYS}`, { status: 400 });
+    }
+
+    const beforeParam = searchParams.get('before');
+    const before = beforeParam ? new Date(beforeParam) : undefined;
+    if (before && isNaN(before.getTime())) {
+      return new Response('Invalid before: must be a cursor returned by a previous page', { status: 400 });
+    }
+
+    const page = await getSyncHistory(params.syncId, { limit, before });
+    const stats = before ? undefined : await getSyncHistoryStats(params.syncId, days);
+
+    return Response.json({ ...page, ...(stats && { stats }) });
+  } catch (error) {
+    console.error('Failed to fetch sync history:', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { calendarSyncs, syncJobs } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+
+/** Current state of a sync job, for polling */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { syncId: string; jobId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const rows = await db
+      .select({ job: syncJobs })
+      .from(syncJobs)
+      .innerJoin(calendarSyncs, eq(syncJobs.calendarSyncId, calendarSyncs.id))
+      .where(
+        and(
+          eq(syncJobs.id, params.jobId),
+          eq(syncJobs.calendarSyncId, params.syncId),
+          eq(calendarSyncs.userId, session.user.id)
+        )
+      )
+      .limit(1);
+
+    if (!rows[0]) {
+      return new Response('Job not found', { status: 404 });
+    }
+
+    return Response.json(rows[0].job);
+  } catch (error) {
+    console.error('Failed to fetch sync job:', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
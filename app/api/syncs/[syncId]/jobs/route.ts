@@ -0,0 +1,76 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { calendarSyncs } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { enqueueSyncJob, getRecentSyncJobs } from '@/lib/sync-jobs';
+
+async function findUserSync(syncId: string, userId: string) {
+  const sync = await db
+    .select({ id: calendarSyncs.id })
+    .from(calendarSyncs)
+    .where(
+      and(
+        eq(calendarSyncs.id, syncId),
+        eq(calendarSyncs.userId, userId)
+      )
+    )
+    .limit(1);
+
+  return sync[0];
+}
+
+/** Recent sync jobs, newest first */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { syncId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    if (!(await findUserSync(params.syncId, session.user.id))) {
+      return new Response('Sync not found', { status: 404 });
+    }
+
+    const jobs = await getRecentSyncJobs(params.syncId);
+
+    return Response.json(jobs);
+  } catch (error) {
+    console.error('Failed to fetch sync jobs:', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
+
+/** Queue a sync run without waiting for it; poll the returned job for progress */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { syncId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    if (!(await findUserSync(params.syncId, session.user.id))) {
+      return new Response('Sync not found', { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const job = await enqueueSyncJob(params.syncId, {
+      trigger: 'manual',
+      userTimeZone: typeof body.timeZone === 'string' ? body.timeZone : undefined,
+    });
+
+    return Response.json(job, { status: 202 });
+  } catch (error) {
+    console.error('Failed to queue sync job:', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
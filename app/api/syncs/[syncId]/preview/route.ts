@@ -0,0 +1,69 @@
+import { NextRequest } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { calendarSyncs } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
+import { previewCalendarSync } from '@/lib/sync-service';
+
+/** What a sync run would change in Google Calendar, without writing anything */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { syncId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const sync = await db
+      .select({ id: calendarSyncs.id, syncType: calendarSyncs.syncType })
+      .from(calendarSyncs)
+      .where(
+        and(
+          eq(calendarSyncs.id, params.syncId),
+          eq(calendarSyncs.userId, session.user.id)
+        )
+      )
+      .limit(1);
+
+    if (!sync[0]) {
+      return new Response('Sync not found', { status: 404 });
+    }
+
+    if (sync[0].syncType !== 'full') {
+      return Response.json(
+        { success: false, error: 'Previews are only available for full syncs' },
+        { status: 400 }
+      );
+    }
+
+    const userTimeZone = request.nextUrl.searchParams.get('timeZone') || undefined;
+    const plan = await previewCalendarSync(params.syncId, userTimeZone);
+
+    return Response.json(plan);
+  } catch (error) {
+    console.error('Sync preview failed:', error);
+
+    if (error instanceof Error && (error.message === 'REAUTH_REQUIRED' || error.message.includes('sign back in'))) {
+      return Response.json(
+        {
+          success: false,
+          error: 'Your Google Calendar connection has expired. Please sign out and sign back in to reconnect your calendar.',
+          needsReauth: true
+        },
+        { status: 401 }
+      );
+    }
+
+    return Response.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,142 @@
+import { isDeepStrictEqual } from 'util';
 import { NextRequest } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { db } from '@/lib/db';
 import { calendarSyncs } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { parseSyncUpdate, FEED_AFFECTING_FIELDS } from '@/lib/sync-validation';
+import { parseSyncSchedule, getNextRunAt } from '@/lib/sync-schedule';
+import { CLEARED_FEED_CACHE } from '@/lib/feed-cache';
+import { clearEventMappings } from '@/lib/event-mappings';
+import { encryptSecret, withoutSecrets } from '@/lib/secrets';
+
+async function findUserSync(syncId: string, userId: string) {
+  const sync = await db
+    .select()
+    .from(calendarSyncs)
+    .where(
+      and(
+        eq(calendarSyncs.id, syncId),
+        eq(calendarSyncs.userId, userId)
+      )
+    )
+    .limit(1);
+
+  return sync[0];
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { syncId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const sync = await findUserSync(params.syncId, session.user.id);
+    if (!sync) {
+      return new Response('Sync not found', { status: 404 });
+    }
+
+    return Response.json(withoutSecrets(sync));
+  } catch (error) {
+    console.error('Failed to fetch sync:', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
+
+/** Edit a sync in place, keeping its history and event mappings where possible */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { syncId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const update = parseSyncUpdate(body);
+    if (typeof update === 'string') {
+      return new Response(update, { status: 400 });
+    }
+
+    const existing = await findUserSync(params.syncId, session.user.id);
+    if (!existing) {
+      return new Response('Sync not found', { status: 404 });
+    }
+
+    const { schedule, scheduleCron, ...fields } = update;
+    const changes: Partial<typeof calendarSyncs.$inferInsert> = {
+      ...fields,
+      updatedAt: new Date(),
+    };
+
+    const sources = update.sources !== undefined ? update.sources : existing.sources;
+    if (sources && (update.syncType ?? existing.syncType) !== 'full') {
+      return new Response('Multiple sources are only supported for full syncs', { status: 400 });
+    }
+    // icsUrl keeps naming the first source for listings and older clients
+    if (update.sources) {
+      changes.icsUrl = update.sources[0].icsUrl;
+    }
+
+    if (update.caldavPassword) {
+      changes.caldavPassword = encryptSecret(update.caldavPassword);
+    }
+
+    if (schedule !== undefined || scheduleCron !== undefined) {
+      const parsed = parseSyncSchedule(
+        schedule ?? existing.schedule,
+        scheduleCron !== undefined ? scheduleCron : existing.scheduleCron
+      );
+      if (typeof parsed === 'string') {
+        return new Response(parsed, { status: 400 });
+      }
+      // A new schedule starts counting from now rather than from the old next run
+      if (parsed && (parsed.schedule !== existing.schedule || parsed.scheduleCron !== existing.scheduleCron)) {
+        Object.assign(changes, parsed, { nextRunAt: getNextRunAt(parsed) });
+      }
+    }
+
+    // The stored validators describe what the old settings wrote. JSON fields
+    // (sources, filter rules, templates) are compared by value, not reference.
+    if (FEED_AFFECTING_FIELDS.some(field => update[field] !== undefined && !isDeepStrictEqual(update[field], existing[field]))) {
+      Object.assign(changes, CLEARED_FEED_CACHE);
+    }
+
+    const targetChanged =
+      (update.googleCalendarId !== undefined && update.googleCalendarId !== existing.googleCalendarId) ||
+      (update.syncType !== undefined && update.syncType !== existing.syncType);
+
+    const updated = await db
+      .update(calendarSyncs)
+      .set(changes)
+      .where(
+        and(
+          eq(calendarSyncs.id, params.syncId),
+          eq(calendarSyncs.userId, session.user.id)
+        )
+      )
+      .returning();
+
+    // Mappings point at events written with the old target; the next run rebuilds them
+    if (targetChanged) {
+      await clearEventMappings(params.syncId);
+    }
+
+    return Response.json(withoutSecrets(updated[0]));
+  } catch (error) {
+    console.error('Failed to update sync:', error);
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
 
 export async function DELETE(
   request: NextRequest,
@@ -11,7 +144,7 @@ export async function DELETE(
 ) {
   try {
     const session = await getServerSession(authOptions);
-    
+
     if (!session?.user?.id) {
       return new Response('Unauthorized', { status: 401 });
     }
@@ -30,4 +163,4 @@ export async function DELETE(
     console.error('Failed to delete sync:', error);
     return new Response('Internal Server Error', { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -4,7 +4,9 @@ import { authOptions } from '@/lib/auth';
 import { db } from '@/lib/db';
 import { calendarSyncs } from '@/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
-import { syncCalendar } from '@/lib/sync-service';
+import type { SyncResult } from '@/lib/sync-service';
+import { enqueueSyncJob, getSyncJob, runSyncWorker } from '@/lib/sync-jobs';
+import { getSyncInProgressDetails, getSyncLock } from '@/lib/sync-lock';
 
 export async function POST(
   request: NextRequest,
@@ -39,9 +41,40 @@ export async function POST(
       return new Response('Sync not found', { status: 404 });
     }
 
-    const result = await syncCalendar(params.syncId, userTimeZone);
+    // Another run (usually the cron) is already writing to this calendar
+    if (await getSyncLock(params.syncId)) {
+      return Response.json(await getSyncInProgressDetails(params.syncId), { status: 409 });
+    }
+
+    // Queue the run like scheduled ones and work on it right away; if it fails
+    // transiently, the cron worker retries it with backoff
+    const queued = await enqueueSyncJob(params.syncId, { trigger: 'manual', userTimeZone });
+    await runSyncWorker({ jobId: queued.id });
+    const job = (await getSyncJob(queued.id)) ?? queued;
+
+    if (job.status === 'succeeded') {
+      return Response.json({ ...(job.result as SyncResult), jobId: job.id });
+    }
+
+    if (job.lastError === 'SYNC_IN_PROGRESS') {
+      return Response.json(await getSyncInProgressDetails(params.syncId), { status: 409 });
+    }
 
-    return Response.json(result);
+    if (job.status === 'dead') {
+      throw new Error(job.lastError || 'Sync failed');
+    }
+
+    // Waiting for a retry, or still being run by another worker
+    return Response.json(
+      {
+        success: false,
+        jobId: job.id,
+        status: job.status,
+        error: job.lastError,
+        retryAt: job.status === 'failed' ? job.runAt : null,
+      },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Manual sync failed:', error);
     
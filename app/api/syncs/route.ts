@@ -5,6 +5,13 @@ import { db } from '@/lib/db';
 import { calendarSyncs } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { getUserCalendars } from '@/lib/google-calendar';
+import { parseSyncWindowDays } from '@/lib/sync-window';
+import { parseSyncSchedule } from '@/lib/sync-schedule';
+import { filterRulesSchema } from '@/lib/event-filters';
+import { eventTemplatesSchema } from '@/lib/event-templates';
+import { eventAppearanceSchema } from '@/lib/event-appearance';
+import { syncSourcesSchema } from '@/lib/sync-sources';
+import { withoutSecrets } from '@/lib/secrets';
 
 export async function GET() {
   try {
@@ -25,7 +32,7 @@ export async function GET() {
     const calendarMap = new Map(calendars.map(cal => [cal.id, cal.summary]));
 
     const syncsWithCalendarNames = userSyncs.map(sync => ({
-      ...sync,
+      ...withoutSecrets(sync),
       googleCalendarName: calendarMap.get(sync.googleCalendarId) || 'Unknown Calendar',
     }));
 
@@ -45,12 +52,54 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { name, icsUrl, googleCalendarId } = body;
+    const { name, googleCalendarId } = body;
+
+    const sources = syncSourcesSchema.nullable().optional().safeParse(body.sources);
+    if (!sources.success) {
+      const issue = sources.error.issues[0];
+      return new Response(`Invalid sources.${issue.path.join('.')}: ${issue.message}`, { status: 400 });
+    }
+    // With several sources, icsUrl names the first one
+    const icsUrl = sources.data ? sources.data[0].icsUrl : body.icsUrl;
 
     if (!name || !icsUrl || !googleCalendarId) {
       return new Response('Missing required fields', { status: 400 });
     }
 
+    const syncDaysPast = parseSyncWindowDays(body.syncDaysPast);
+    const syncDaysFuture = parseSyncWindowDays(body.syncDaysFuture);
+
+    if (syncDaysPast === null || syncDaysFuture === null) {
+      return new Response('Invalid sync window: days must be whole numbers between 0 and 365', { status: 400 });
+    }
+
+    if (body.deleteRemovedEvents !== undefined && typeof body.deleteRemovedEvents !== 'boolean') {
+      return new Response('Invalid deleteRemovedEvents: must be a boolean', { status: 400 });
+    }
+
+    const schedule = parseSyncSchedule(body.schedule, body.scheduleCron);
+    if (typeof schedule === 'string') {
+      return new Response(schedule, { status: 400 });
+    }
+
+    const filterRules = filterRulesSchema.nullable().optional().safeParse(body.filterRules);
+    if (!filterRules.success) {
+      return new Response(`Invalid filterRules: ${filterRules.error.issues[0].message}`, { status: 400 });
+    }
+
+    const eventTemplates = eventTemplatesSchema.nullable().optional().safeParse(body.eventTemplates);
+    if (!eventTemplates.success) {
+      const issue = eventTemplates.error.issues[0];
+      return new Response(`Invalid eventTemplates.${issue.path.join('.')}: ${issue.message}`, { status: 400 });
+    }
+
+    const eventAppearance = eventAppearanceSchema.nullable().optional().safeParse(body.eventAppearance);
+    if (!eventAppearance.success) {
+      const issue = eventAppearance.error.issues[0];
+      return new Response(`Invalid eventAppearance.${issue.path.join('.')}: ${issue.message}`, { status: 400 });
+    }
+
+    // nextRunAt stays empty so the dispatcher picks the new sync up on its next run
     const newSync = await db
       .insert(calendarSyncs)
       .values({
@@ -59,10 +108,18 @@ export async function POST(request: NextRequest) {
         icsUrl,
         googleCalendarId,
         isActive: true,
+        ...(syncDaysPast !== undefined && { syncDaysPast }),
+        ...(syncDaysFuture !== undefined && { syncDaysFuture }),
+        ...(body.deleteRemovedEvents !== undefined && { deleteRemovedEvents: body.deleteRemovedEvents }),
+        ...(filterRules.data && { filterRules: filterRules.data }),
+        ...(eventTemplates.data && { eventTemplates: eventTemplates.data }),
+        ...(eventAppearance.data && { eventAppearance: eventAppearance.data }),
+        ...(sources.data && { sources: sources.data }),
+        ...schedule,
       })
       .returning();
 
-    return Response.json(newSync[0]);
+    return Response.json(withoutSecrets(newSync[0]));
   } catch (error) {
     console.error('Failed to create sync:', error);
     return new Response('Internal Server Error', { status: 500 });
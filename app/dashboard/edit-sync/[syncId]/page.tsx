@@ -0,0 +1,748 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession, signIn } from 'next-auth/react';
+import { useParams, useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Settings } from 'lucide-react';
+import Link from 'next/link';
+import { DEFAULT_SYNC_DAYS_PAST, DEFAULT_SYNC_DAYS_FUTURE, MAX_SYNC_DAYS } from '@/lib/sync-window';
+import { DEFAULT_SYNC_SCHEDULE, SYNC_SCHEDULES, SYNC_SCHEDULE_LABELS, SyncSchedule } from '@/lib/sync-schedule';
+import { CONFLICT_POLICIES, PRIVACY_LEVELS, RECURRENCE_MODES, SYNC_TYPES } from '@/lib/sync-validation';
+import type { FilterRule } from '@/lib/event-filters';
+import { TEMPLATE_FIELDS, TEMPLATE_PLACEHOLDERS, EventTemplates } from '@/lib/event-templates';
+import { FilterRulesEditor } from '@/components/sync/FilterRulesEditor';
+import { EventAppearanceEditor } from '@/components/sync/EventAppearanceEditor';
+import type { EventAppearance } from '@/lib/event-appearance';
+import { SyncSourcesEditor } from '@/components/sync/SyncSourcesEditor';
+import type { SyncSource } from '@/lib/sync-sources';
+
+interface GoogleCalendar {
+  id: string;
+  summary: string;
+  description?: string;
+  primary?: boolean;
+  accessRole: string;
+}
+
+type SyncType = typeof SYNC_TYPES[number];
+type PrivacyLevel = typeof PRIVACY_LEVELS[number];
+type ConflictPolicy = typeof CONFLICT_POLICIES[number];
+type RecurrenceMode = typeof RECURRENCE_MODES[number];
+
+const SYNC_TYPE_LABELS: Record<SyncType, string> = {
+  full: 'Full details',
+  busy_free: 'Busy/free only',
+  two_way: 'Two-way (CalDAV)',
+};
+
+const RECURRENCE_MODE_LABELS: Record<RecurrenceMode, string> = {
+  expand: 'One event per occurrence',
+  native: 'Recurring series',
+};
+
+const CONFLICT_POLICY_LABELS: Record<ConflictPolicy, string> = {
+  source_wins: 'Keep the source version',
+  google_wins: 'Keep the Google version',
+  newest_wins: 'Keep the most recent edit',
+  manual: 'Ask me',
+};
+
+const TEMPLATE_EXAMPLES: Record<typeof TEMPLATE_FIELDS[number], string> = {
+  summary: '[Vendor] {summary}',
+  description: '{description}\n\nLocation: {location}',
+  location: '{location}',
+};
+
+const PRIVACY_LEVEL_LABELS: Record<PrivacyLevel, string> = {
+  busy_only: 'Busy blocks only',
+  show_free_busy: 'Busy and tentative/free status',
+  full_details: 'Titles and locations',
+};
+
+export default function EditSyncPage() {
+  const { data: session, status } = useSession({
+    required: true,
+    onUnauthenticated() {
+      window.location.href = '/';
+    },
+  });
+
+  const router = useRouter();
+  const { syncId } = useParams<{ syncId: string }>();
+  const [calendars, setCalendars] = useState<GoogleCalendar[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    name: '',
+    icsUrl: '',
+    googleCalendarId: '',
+    syncDaysPast: DEFAULT_SYNC_DAYS_PAST,
+    syncDaysFuture: DEFAULT_SYNC_DAYS_FUTURE,
+    deleteRemovedEvents: true,
+    schedule: DEFAULT_SYNC_SCHEDULE as SyncSchedule,
+    scheduleCron: '',
+    isActive: true,
+    syncType: 'full' as SyncType,
+    privacyLevel: 'busy_only' as PrivacyLevel,
+    filterRules: [] as FilterRule[],
+    eventTemplates: {} as EventTemplates,
+    eventAppearance: {} as EventAppearance,
+    sources: [] as SyncSource[],
+    recurrenceMode: 'expand' as RecurrenceMode,
+    conflictPolicy: 'source_wins' as ConflictPolicy,
+    caldavUsername: '',
+    // Only sent when filled in; the stored password is never returned
+    caldavPassword: '',
+  });
+  const [hasCaldavPassword, setHasCaldavPassword] = useState(false);
+
+  useEffect(() => {
+    fetchSync().then(found => {
+      if (found) fetchCalendars();
+    });
+  }, []);
+
+  const fetchSync = async (): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/syncs/${syncId}`);
+      if (!response.ok) {
+        setError(response.status === 404 ? 'This sync no longer exists.' : 'Failed to load sync');
+        setLoading(false);
+        return false;
+      }
+
+      const sync = await response.json();
+      setFormData({
+        name: sync.name,
+        icsUrl: sync.icsUrl,
+        googleCalendarId: sync.googleCalendarId,
+        syncDaysPast: sync.syncDaysPast,
+        syncDaysFuture: sync.syncDaysFuture,
+        deleteRemovedEvents: sync.deleteRemovedEvents,
+        schedule: sync.schedule,
+        scheduleCron: sync.scheduleCron || '',
+        isActive: sync.isActive,
+        syncType: sync.syncType,
+        privacyLevel: sync.privacyLevel || 'busy_only',
+        filterRules: sync.filterRules || [],
+        eventTemplates: sync.eventTemplates || {},
+        eventAppearance: sync.eventAppearance || {},
+        sources: sync.sources || [],
+        recurrenceMode: sync.recurrenceMode,
+        conflictPolicy: sync.conflictPolicy,
+        caldavUsername: sync.caldavUsername || '',
+        caldavPassword: '',
+      });
+      setHasCaldavPassword(sync.hasCaldavPassword);
+      return true;
+    } catch (error) {
+      console.error('Failed to fetch sync:', error);
+      setError('Failed to load sync. Please try again.');
+      setLoading(false);
+      return false;
+    }
+  };
+
+  const fetchCalendars = async () => {
+    try {
+      setError(null);
+      const response = await fetch('/api/calendars');
+      if (response.ok) {
+        const data = await response.json();
+        console.log('📅 Fetched calendars:', data);
+        setCalendars(data.filter((cal: GoogleCalendar) => 
+          cal.accessRole === 'owner' || cal.accessRole === 'writer'
+        ));
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        if (response.status === 401 && errorData.error === 'REAUTH_REQUIRED') {
+          console.log('🔄 Re-authentication required, cleaning up and triggering Google sign-in...');
+          
+          // First, reset the auth state in the backend
+          try {
+            await fetch('/api/debug/reset-auth', { method: 'POST' });
+          } catch (resetError) {
+            console.warn('Could not reset auth state:', resetError);
+          }
+          
+          // Force a completely fresh consent flow
+          const authUrl = new URL('https://accounts.google.com/oauth/revoke');
+          authUrl.searchParams.set('token', 'dummy'); // This will fail but clears some state
+          
+          // Try to clear any cached consent
+          try {
+            await fetch(authUrl.toString(), { mode: 'no-cors' });
+          } catch (e) {
+            // Expected to fail, but helps clear state
+          }
+          
+          // Force a fresh consent flow with additional parameters
+          signIn('google', { 
+            callbackUrl: window.location.href,
+            // Force consent and approval prompt
+            prompt: 'consent select_account',
+            access_type: 'offline',
+            include_granted_scopes: 'true'
+          });
+          return;
+        } else if (response.status === 401) {
+          setError(errorData.message || 'Authentication expired. Please sign out and sign back in.');
+        } else {
+          setError(errorData.error || 'Failed to load calendars');
+        }
+      }
+    } catch (error) {
+      console.error('Failed to fetch calendars:', error);
+      setError('Failed to load calendars. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const { caldavPassword, ...fields } = formData;
+      const response = await fetch(`/api/syncs/${syncId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...fields,
+          ...(caldavPassword && { caldavPassword }),
+          caldavUsername: formData.caldavUsername || null,
+          scheduleCron: formData.schedule === 'custom' ? formData.scheduleCron : null,
+          sources: formData.sources.length > 0 ? formData.sources : null,
+          // Blank templates copy the field verbatim, so they are not stored
+          eventTemplates: Object.fromEntries(
+            Object.entries(formData.eventTemplates).filter(([, template]) => template?.trim())
+          ),
+        }),
+      });
+
+      if (response.ok) {
+        router.push('/dashboard');
+      } else if (response.status === 400) {
+        alert(await response.text());
+      } else if (response.status === 404) {
+        alert('This sync no longer exists.');
+        router.push('/dashboard');
+      } else {
+        alert('Failed to save sync. Please try again.');
+      }
+    } catch (error) {
+      console.error('Failed to save sync:', error);
+      alert('Failed to save sync. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-white">
+        <div className="text-center space-mobile">
+          <div className="animate-spin rounded-full h-16 w-16 sm:h-20 sm:w-20 border-4 border-primary-600 border-t-transparent mx-auto mb-4"></div>
+          <p className="text-lg sm:text-xl text-gray-600 animate-pulse">Loading sync...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-white">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b sticky top-0 z-10">
+        <div className="container-mobile">
+          <div className="nav-mobile">
+            <Link href="/dashboard" className="block">
+              <Button variant="ghost" size="sm" className="min-w-[44px]">
+                <ArrowLeft className="h-5 w-5 sm:mr-2" />
+                <span className="hidden sm:inline">Back to Dashboard</span>
+              </Button>
+            </Link>
+            <h1 className="text-lg sm:text-xl font-bold text-gray-900 truncate ml-2">
+              Edit Sync
+            </h1>
+          </div>
+        </div>
+      </header>
+
+      <div className="container-mobile py-4 sm:py-6 lg:py-8">
+        <div className="max-w-2xl mx-auto">
+          <div className="card-mobile lg:p-8">
+            <div className="flex items-center space-x-3 mb-6">
+              <div className="bg-primary-100 p-3 rounded-full">
+                <Settings className="h-8 w-8 text-primary-600" />
+              </div>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">
+                Edit Calendar Sync
+              </h1>
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+                <h3 className="text-base font-bold text-red-800 mb-3 flex items-center">
+                  ⚠ Error Loading Sync
+                </h3>
+                <p className="text-sm text-red-700 break-words leading-relaxed mb-4">{error}</p>
+                <div className="space-mobile">
+                  <Button 
+                    variant="outline" 
+                    onClick={fetchCalendars}
+                    fullWidth
+                    className="border-red-200 hover:border-red-300 hover:bg-red-50 sm:w-auto"
+                  >
+                    Try Again
+                  </Button>
+                  <Button 
+                    variant="outline" 
+                    onClick={async () => {
+                      try {
+                        // Force complete logout
+                        await fetch('/api/auth/force-logout', { method: 'POST' });
+                        
+                        // Clear any browser storage
+                        localStorage.clear();
+                        sessionStorage.clear();
+                        
+                        // Force browser to go to home page, then redirect to fresh auth
+                        window.location.href = '/?reauth=1';
+                      } catch (e) {
+                        console.error('Reset failed:', e);
+                      }
+                    }}
+                    fullWidth
+                    className="border-red-200 hover:border-red-300 hover:bg-red-50 sm:w-auto"
+                  >
+                    Force Fresh Login
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-mobile">
+              {/* Sync Name */}
+              <div className="space-y-2">
+                <label htmlFor="name" className="block text-base font-bold text-gray-700">
+                  Sync Name
+                </label>
+                <input
+                  id="name"
+                  type="text"
+                  required
+                  className="input w-full"
+                  placeholder="e.g., Work Calendar, Personal Events"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                />
+                <p className="text-sm text-gray-600 leading-relaxed">
+                  Give your sync a memorable name to identify it later.
+                </p>
+              </div>
+
+              {/* ICS URL */}
+              {formData.sources.length === 0 ? (
+                <div className="space-y-2">
+                  <label htmlFor="icsUrl" className="block text-base font-bold text-gray-700">
+                    {formData.syncType === 'two_way' ? 'CalDAV Calendar URL' : 'ICS Calendar URL'}
+                  </label>
+                  <input
+                    id="icsUrl"
+                    type="url"
+                    required
+                    className="input w-full font-mono text-sm"
+                    placeholder="https://outlook.office365.com/owa/calendar/..."
+                    value={formData.icsUrl}
+                    onChange={(e) => setFormData({ ...formData, icsUrl: e.target.value })}
+                  />
+                  <p className="text-sm text-gray-600 leading-relaxed">
+                    {formData.syncType === 'two_way'
+                      ? 'The CalDAV collection URL of your source calendar (Nextcloud, Fastmail, iCloud, etc.).'
+                      : 'The ICS feed URL from your source calendar (Outlook, etc.).'}
+                  </p>
+                  {formData.syncType === 'full' && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => setFormData({
+                        ...formData,
+                        sources: [{ tag: '', icsUrl: formData.icsUrl }, { tag: '', icsUrl: '' }],
+                      })}
+                      className="sm:w-auto"
+                    >
+                      Merge Several Feeds
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <span className="block text-base font-bold text-gray-700">
+                    ICS Sources
+                  </span>
+                  <SyncSourcesEditor
+                    sources={formData.sources}
+                    onChange={(sources) => setFormData({
+                      ...formData,
+                      sources,
+                      icsUrl: sources[0]?.icsUrl || formData.icsUrl,
+                    })}
+                  />
+                  <p className="text-sm text-gray-600 leading-relaxed">
+                    Events are tagged with their source (use {'{source}'} in a field template to show it). An event listed by several sources is synced once, and it is only removed when its own source drops it.
+                  </p>
+                </div>
+              )}
+
+              {/* Google Calendar Selection */}
+              <div className="space-y-2">
+                <label htmlFor="googleCalendarId" className="block text-base font-bold text-gray-700">
+                  Target Google Calendar
+                </label>
+                <select
+                  id="googleCalendarId"
+                  required
+                  className="input w-full"
+                  value={formData.googleCalendarId}
+                  onChange={(e) => setFormData({ ...formData, googleCalendarId: e.target.value })}
+                >
+                  <option value="">Select a calendar...</option>
+                  {calendars.map((calendar) => (
+                    <option key={calendar.id} value={calendar.id}>
+                      {calendar.summary} {calendar.primary ? '(Primary)' : ''}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-sm text-gray-600 leading-relaxed">
+                  Choose which Google Calendar will receive the synced events.
+                </p>
+              </div>
+
+              {/* Sync Type */}
+              <div className="space-y-2">
+                <label htmlFor="syncType" className="block text-base font-bold text-gray-700">
+                  Event Details
+                </label>
+                <select
+                  id="syncType"
+                  className="input w-full"
+                  value={formData.syncType}
+                  onChange={(e) => setFormData({ ...formData, syncType: e.target.value as SyncType })}
+                >
+                  {SYNC_TYPES.map((syncType) => (
+                    <option key={syncType} value={syncType}>
+                      {SYNC_TYPE_LABELS[syncType]}
+                    </option>
+                  ))}
+                </select>
+                {formData.syncType === 'busy_free' && (
+                  <select
+                    id="privacyLevel"
+                    className="input w-full"
+                    value={formData.privacyLevel}
+                    onChange={(e) => setFormData({ ...formData, privacyLevel: e.target.value as PrivacyLevel })}
+                  >
+                    {PRIVACY_LEVELS.map((privacyLevel) => (
+                      <option key={privacyLevel} value={privacyLevel}>
+                        {PRIVACY_LEVEL_LABELS[privacyLevel]}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <p className="text-sm text-gray-600 leading-relaxed">
+                  Changing the target calendar or event details makes the next sync write every event again.
+                </p>
+              </div>
+
+              {/* Two-way Settings */}
+              {formData.syncType === 'two_way' && (
+                <div className="space-y-2">
+                  <label htmlFor="conflictPolicy" className="block text-base font-bold text-gray-700">
+                    Two-way Sync
+                  </label>
+                  <select
+                    id="conflictPolicy"
+                    className="input w-full"
+                    value={formData.conflictPolicy}
+                    onChange={(e) => setFormData({ ...formData, conflictPolicy: e.target.value as ConflictPolicy })}
+                  >
+                    {CONFLICT_POLICIES.map((policy) => (
+                      <option key={policy} value={policy}>
+                        When both sides changed: {CONFLICT_POLICY_LABELS[policy]}
+                      </option>
+                    ))}
+                  </select>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    <input
+                      type="text"
+                      autoComplete="username"
+                      className="input w-full"
+                      aria-label="CalDAV username"
+                      placeholder="CalDAV username"
+                      value={formData.caldavUsername}
+                      onChange={(e) => setFormData({ ...formData, caldavUsername: e.target.value })}
+                    />
+                    <input
+                      type="password"
+                      autoComplete="new-password"
+                      className="input w-full"
+                      aria-label="CalDAV password"
+                      placeholder={hasCaldavPassword ? 'Password saved - type to replace' : 'CalDAV password or app password'}
+                      value={formData.caldavPassword}
+                      onChange={(e) => setFormData({ ...formData, caldavPassword: e.target.value })}
+                    />
+                  </div>
+                  <p className="text-sm text-gray-600 leading-relaxed">
+                    Edits and deletions of synced events in Google are written back to the CalDAV calendar. Only single events are synced both ways; recurring series are skipped. The password is stored encrypted.
+                  </p>
+                </div>
+              )}
+
+              {/* Recurring Events */}
+              {formData.syncType === 'full' && (
+                <div className="space-y-2">
+                  <label htmlFor="recurrenceMode" className="block text-base font-bold text-gray-700">
+                    Recurring Events
+                  </label>
+                  <select
+                    id="recurrenceMode"
+                    className="input w-full"
+                    value={formData.recurrenceMode}
+                    onChange={(e) => setFormData({ ...formData, recurrenceMode: e.target.value as RecurrenceMode })}
+                  >
+                    {RECURRENCE_MODES.map((mode) => (
+                      <option key={mode} value={mode}>
+                        {RECURRENCE_MODE_LABELS[mode]}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-sm text-gray-600 leading-relaxed">
+                    Recurring series are written as one recurring Google event that can be edited as a series; occurrences changed in the source are updated individually.
+                  </p>
+                </div>
+              )}
+
+              {/* Filter Rules */}
+              {formData.syncType === 'full' && (
+                <div className="space-y-2">
+                  <span className="block text-base font-bold text-gray-700">
+                    Filter Rules
+                  </span>
+                  <FilterRulesEditor
+                    syncId={syncId}
+                    rules={formData.filterRules}
+                    onChange={(filterRules) => setFormData({ ...formData, filterRules })}
+                  />
+                  <p className="text-sm text-gray-600 leading-relaxed">
+                    With include rules, only events matching one of them are synced. Events matching an exclude rule are never synced.
+                  </p>
+                </div>
+              )}
+
+              {/* Field Templates */}
+              {formData.syncType === 'full' && (
+                <div className="space-y-2">
+                  <span className="block text-base font-bold text-gray-700">
+                    Field Templates
+                  </span>
+                  {TEMPLATE_FIELDS.map((field) => (
+                    <div key={field} className="space-y-1">
+                      <label htmlFor={`template-${field}`} className="block text-sm font-medium text-gray-700 capitalize">
+                        {field}
+                      </label>
+                      {field === 'description' ? (
+                        <textarea
+                          id={`template-${field}`}
+                          rows={3}
+                          className="input w-full font-mono text-sm"
+                          placeholder={TEMPLATE_EXAMPLES[field]}
+                          value={formData.eventTemplates[field] || ''}
+                          onChange={(e) => setFormData({ ...formData, eventTemplates: { ...formData.eventTemplates, [field]: e.target.value } })}
+                        />
+                      ) : (
+                        <input
+                          id={`template-${field}`}
+                          type="text"
+                          className="input w-full font-mono text-sm"
+                          placeholder={TEMPLATE_EXAMPLES[field]}
+                          value={formData.eventTemplates[field] || ''}
+                          onChange={(e) => setFormData({ ...formData, eventTemplates: { ...formData.eventTemplates, [field]: e.target.value } })}
+                        />
+                      )}
+                    </div>
+                  ))}
+                  <p className="text-sm text-gray-600 leading-relaxed">
+                    Leave a field empty to copy it unchanged. Available placeholders: {TEMPLATE_PLACEHOLDERS.map((name) => `{${name}}`).join(', ')}. Write {'{{'} or {'}}'} for a literal brace.
+                  </p>
+                </div>
+              )}
+
+              {/* Event Appearance */}
+              <div className="space-y-2">
+                <span className="block text-base font-bold text-gray-700">
+                  Synced Event Appearance
+                </span>
+                <EventAppearanceEditor
+                  appearance={formData.eventAppearance}
+                  onChange={(eventAppearance) => setFormData({ ...formData, eventAppearance })}
+                />
+                <p className="text-sm text-gray-600 leading-relaxed">
+                  Applied to every event this sync writes, so imported events are easy to tell apart from your own.
+                </p>
+              </div>
+
+              {/* Sync Window */}
+              <div className="space-y-2">
+                <span className="block text-base font-bold text-gray-700">
+                  Sync Window
+                </span>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <label htmlFor="syncDaysPast" className="block text-sm font-medium text-gray-700">
+                      Days in the past
+                    </label>
+                    <input
+                      id="syncDaysPast"
+                      type="number"
+                      min={0}
+                      max={MAX_SYNC_DAYS}
+                      required
+                      className="input w-full"
+                      value={formData.syncDaysPast}
+                      onChange={(e) => setFormData({ ...formData, syncDaysPast: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label htmlFor="syncDaysFuture" className="block text-sm font-medium text-gray-700">
+                      Days in the future
+                    </label>
+                    <input
+                      id="syncDaysFuture"
+                      type="number"
+                      min={0}
+                      max={MAX_SYNC_DAYS}
+                      required
+                      className="input w-full"
+                      value={formData.syncDaysFuture}
+                      onChange={(e) => setFormData({ ...formData, syncDaysFuture: Number(e.target.value) })}
+                    />
+                  </div>
+                </div>
+                <p className="text-sm text-gray-600 leading-relaxed">
+                  Events starting within this many days before and after today are synced.
+                </p>
+              </div>
+
+              {/* Deletion Propagation */}
+              <div className="space-y-2">
+                <label htmlFor="deleteRemovedEvents" className="flex items-start space-x-3 cursor-pointer">
+                  <input
+                    id="deleteRemovedEvents"
+                    type="checkbox"
+                    className="mt-1 h-4 w-4"
+                    checked={formData.deleteRemovedEvents}
+                    onChange={(e) => setFormData({ ...formData, deleteRemovedEvents: e.target.checked })}
+                  />
+                  <span className="text-base font-bold text-gray-700">
+                    Remove events deleted from the source
+                  </span>
+                </label>
+                <p className="text-sm text-gray-600 leading-relaxed">
+                  When an event disappears from the ICS feed, its synced copy is deleted from Google Calendar.
+                </p>
+              </div>
+
+              {/* Schedule */}
+              <div className="space-y-2">
+                <label htmlFor="schedule" className="block text-base font-bold text-gray-700">
+                  Automatic Sync
+                </label>
+                <select
+                  id="schedule"
+                  className="input w-full"
+                  value={formData.schedule}
+                  onChange={(e) => setFormData({ ...formData, schedule: e.target.value as SyncSchedule })}
+                >
+                  {SYNC_SCHEDULES.map((schedule) => (
+                    <option key={schedule} value={schedule}>
+                      {SYNC_SCHEDULE_LABELS[schedule]}
+                    </option>
+                  ))}
+                </select>
+                {formData.schedule === 'custom' && (
+                  <input
+                    id="scheduleCron"
+                    type="text"
+                    required
+                    placeholder="0 6 * * 1-5"
+                    className="input w-full font-mono"
+                    value={formData.scheduleCron}
+                    onChange={(e) => setFormData({ ...formData, scheduleCron: e.target.value })}
+                  />
+                )}
+                <p className="text-sm text-gray-600 leading-relaxed">
+                  {formData.schedule === 'custom'
+                    ? 'Cron expression with five fields (minute hour day month weekday), evaluated in UTC.'
+                    : 'How often this calendar is synced in the background.'}
+                </p>
+              </div>
+
+              {/* Active */}
+              <div className="space-y-2">
+                <label htmlFor="isActive" className="flex items-start space-x-3 cursor-pointer">
+                  <input
+                    id="isActive"
+                    type="checkbox"
+                    className="mt-1 h-4 w-4"
+                    checked={formData.isActive}
+                    onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                  />
+                  <span className="text-base font-bold text-gray-700">
+                    Active
+                  </span>
+                </label>
+                <p className="text-sm text-gray-600 leading-relaxed">
+                  Inactive syncs are skipped by automatic sync but keep their history.
+                </p>
+              </div>
+
+              {/* Submit Button */}
+              <div className="space-mobile pt-4">
+                <Button
+                  type="submit"
+                  disabled={saving}
+                  fullWidth
+                  className="bg-primary-600 hover:bg-primary-700 shadow-lg hover:shadow-xl transition-all duration-200 sm:w-auto"
+                >
+                  {saving ? (
+                    <>
+                      <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent mr-2" />
+                      Saving...
+                    </>
+                  ) : (
+                    'Save Changes'
+                  )}
+                </Button>
+                <Link href="/dashboard" className="block sm:inline-block">
+                  <Button 
+                    variant="outline" 
+                    type="button" 
+                    fullWidth
+                    className="sm:w-auto"
+                  >
+                    Cancel
+                  </Button>
+                </Link>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
\ No newline at end of file
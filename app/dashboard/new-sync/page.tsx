@@ -6,6 +6,8 @@ import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft, Calendar } from 'lucide-react';
 import Link from 'next/link';
+import { DEFAULT_SYNC_DAYS_PAST, DEFAULT_SYNC_DAYS_FUTURE, MAX_SYNC_DAYS } from '@/lib/sync-window';
+import { DEFAULT_SYNC_SCHEDULE, SYNC_SCHEDULES, SYNC_SCHEDULE_LABELS, SyncSchedule } from '@/lib/sync-schedule';
 
 interface GoogleCalendar {
   id: string;
@@ -32,6 +34,11 @@ export default function NewSyncPage() {
     name: '',
     icsUrl: '',
     googleCalendarId: '',
+    syncDaysPast: DEFAULT_SYNC_DAYS_PAST,
+    syncDaysFuture: DEFAULT_SYNC_DAYS_FUTURE,
+    deleteRemovedEvents: true,
+    schedule: DEFAULT_SYNC_SCHEDULE as SyncSchedule,
+    scheduleCron: '',
   });
 
   useEffect(() => {
@@ -109,6 +116,8 @@ export default function NewSyncPage() {
 
       if (response.ok) {
         router.push('/dashboard');
+      } else if (response.status === 400) {
+        alert(await response.text());
       } else {
         alert('Failed to create sync. Please try again.');
       }
@@ -266,6 +275,102 @@ export default function NewSyncPage() {
                 </p>
               </div>
 
+              {/* Sync Window */}
+              <div className="space-y-2">
+                <span className="block text-base font-bold text-gray-700">
+                  Sync Window
+                </span>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <label htmlFor="syncDaysPast" className="block text-sm font-medium text-gray-700">
+                      Days in the past
+                    </label>
+                    <input
+                      id="syncDaysPast"
+                      type="number"
+                      min={0}
+                      max={MAX_SYNC_DAYS}
+                      required
+                      className="input w-full"
+                      value={formData.syncDaysPast}
+                      onChange={(e) => setFormData({ ...formData, syncDaysPast: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label htmlFor="syncDaysFuture" className="block text-sm font-medium text-gray-700">
+                      Days in the future
+                    </label>
+                    <input
+                      id="syncDaysFuture"
+                      type="number"
+                      min={0}
+                      max={MAX_SYNC_DAYS}
+                      required
+                      className="input w-full"
+                      value={formData.syncDaysFuture}
+                      onChange={(e) => setFormData({ ...formData, syncDaysFuture: Number(e.target.value) })}
+                    />
+                  </div>
+                </div>
+                <p className="text-sm text-gray-600 leading-relaxed">
+                  Events starting within this many days before and after today are synced.
+                </p>
+              </div>
+
+              {/* Deletion Propagation */}
+              <div className="space-y-2">
+                <label htmlFor="deleteRemovedEvents" className="flex items-start space-x-3 cursor-pointer">
+                  <input
+                    id="deleteRemovedEvents"
+                    type="checkbox"
+                    className="mt-1 h-4 w-4"
+                    checked={formData.deleteRemovedEvents}
+                    onChange={(e) => setFormData({ ...formData, deleteRemovedEvents: e.target.checked })}
+                  />
+                  <span className="text-base font-bold text-gray-700">
+                    Remove events deleted from the source
+                  </span>
+                </label>
+                <p className="text-sm text-gray-600 leading-relaxed">
+                  When an event disappears from the ICS feed, its synced copy is deleted from Google Calendar.
+                </p>
+              </div>
+
+              {/* Schedule */}
+              <div className="space-y-2">
+                <label htmlFor="schedule" className="block text-base font-bold text-gray-700">
+                  Automatic Sync
+                </label>
+                <select
+                  id="schedule"
+                  className="input w-full"
+                  value={formData.schedule}
+                  onChange={(e) => setFormData({ ...formData, schedule: e.target.value as SyncSchedule })}
+                >
+                  {SYNC_SCHEDULES.map((schedule) => (
+                    <option key={schedule} value={schedule}>
+                      {SYNC_SCHEDULE_LABELS[schedule]}
+                    </option>
+                  ))}
+                </select>
+                {formData.schedule === 'custom' && (
+                  <input
+                    id="scheduleCron"
+                    type="text"
+                    required
+                    placeholder="0 6 * * 1-5"
+                    className="input w-full font-mono"
+                    value={formData.scheduleCron}
+                    onChange={(e) => setFormData({ ...formData, scheduleCron: e.target.value })}
+                  />
+                )}
+                <p className="text-sm text-gray-600 leading-relaxed">
+                  {formData.schedule === 'custom'
+                    ? 'Cron expression with five fields (minute hour day month weekday), evaluated in UTC.'
+                    : 'How often this calendar is synced in the background.'}
+                </p>
+              </div>
+
               {/* Info Box */}
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                 <h3 className="text-base font-bold text-blue-800 mb-3 flex items-center">
@@ -278,11 +383,11 @@ export default function NewSyncPage() {
                   </li>
                   <li className="flex items-start">
                     <span className="text-blue-500 mr-2 mt-0.5">✓</span>
-                    Only events from the current month are synced
+                    Only events inside the sync window are synced
                   </li>
                   <li className="flex items-start">
                     <span className="text-blue-500 mr-2 mt-0.5">✓</span>
-                    Automatic sync runs on the 1st of each month
+                    Automatic sync runs on the schedule you choose
                   </li>
                   <li className="flex items-start">
                     <span className="text-blue-500 mr-2 mt-0.5">✓</span>
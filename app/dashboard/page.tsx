@@ -5,16 +5,24 @@ import { useSession, signOut, signIn } from 'next-auth/react';
 import { Button } from '@/components/ui/button';
 import { Calendar, Plus, Settings, LogOut, Play, Trash2, Clock } from 'lucide-react';
 import Link from 'next/link';
+import { describeSyncSchedule } from '@/lib/sync-schedule';
+import type { SyncPlan } from '@/lib/sync-plan';
+import { SyncPlanPreview } from '@/components/sync/SyncPlanPreview';
 
 interface CalendarSync {
   id: string;
   name: string;
   icsUrl: string;
+  sources: Array<{ tag: string; icsUrl: string }> | null;
   googleCalendarId: string;
   googleCalendarName: string;
   isActive: boolean;
+  syncType: string;
   lastSync: string | null;
   syncErrors: string[] | null;
+  schedule: string;
+  scheduleCron: string | null;
+  nextRunAt: string | null;
 }
 
 interface SyncLog {
@@ -32,6 +40,8 @@ function DashboardContent() {
   const [syncs, setSyncs] = useState<CalendarSync[]>([]);
   const [loading, setLoading] = useState(true);
   const [syncing, setSyncing] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  const [preview, setPreview] = useState<{ syncId: string; plan: SyncPlan } | null>(null);
 
   useEffect(() => {
     fetchSyncs();
@@ -51,6 +61,36 @@ function DashboardContent() {
     }
   };
 
+  // Show what the sync would change before running it
+  const handlePreviewSync = async (syncId: string) => {
+    setPreviewing(syncId);
+    setPreview(null);
+    try {
+      const userTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const response = await fetch(`/api/syncs/${syncId}/preview?timeZone=${encodeURIComponent(userTimeZone)}`);
+
+      if (response.ok) {
+        const plan: SyncPlan = await response.json();
+        console.log('👀 Sync preview:', plan);
+        setPreview({ syncId, plan });
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        console.error('❌ Preview failed:', errorData);
+        alert(`Could not preview this sync: ${errorData.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Preview failed:', error);
+      alert('Could not preview this sync. Please try again.');
+    } finally {
+      setPreviewing(null);
+    }
+  };
+
+  const handleConfirmSync = async (syncId: string) => {
+    await handleManualSync(syncId);
+    setPreview(null);
+  };
+
   const handleManualSync = async (syncId: string) => {
     setSyncing(syncId);
     try {
@@ -74,7 +114,23 @@ function DashboardContent() {
       
       clearTimeout(timeoutId);
       
-      if (response.ok) {
+      if (response.status === 409) {
+        const running = await response.json();
+        const progress = running.progress;
+        console.log('🔒 Sync already running:', running);
+        alert(progress?.total
+          ? `${running.error} (${progress.processed ?? 0} of ${progress.total} events processed)`
+          : running.error);
+        await fetchSyncs();
+      } else if (response.status === 202) {
+        // Queued for a retry, or picked up by another worker
+        const job = await response.json();
+        console.log('⏳ Sync job pending:', job);
+        alert(job.status === 'failed'
+          ? `Sync failed and will be retried automatically: ${job.error}`
+          : 'This sync is queued. Please check back in a few minutes.');
+        await fetchSyncs();
+      } else if (response.ok) {
         const result = await response.json();
         console.log('🎉 Sync completed:', result);
         await fetchSyncs();
@@ -202,7 +258,9 @@ function DashboardContent() {
                   <div className="flex flex-col space-y-4">
                     <div className="flex-1">
                       <h3 className="text-xl sm:text-2xl font-bold text-gray-900 mb-2">
-                        {sync.name}
+                        <Link href={`/dashboard/syncs/${sync.id}`} className="hover:text-primary-700 hover:underline">
+                          {sync.name}
+                        </Link>
                       </h3>
                       <p className="text-base sm:text-lg text-gray-600 mb-3">
                         Syncing to: <span className="font-medium">{sync.googleCalendarName}</span>
@@ -219,25 +277,34 @@ function DashboardContent() {
                           <span className="flex items-center text-base">
                             <Clock className="h-4 w-4 mr-2" />
                             Last sync: {new Date(sync.lastSync).toLocaleDateString()}
+                            <Link href={`/dashboard/syncs/${sync.id}`} className="ml-2 text-primary-600 hover:underline">
+                              History
+                            </Link>
                           </span>
                         ) : (
                           <span className="text-amber-600 font-medium">⚠ Never synced</span>
                         )}
+                        <span className="text-base">
+                          {describeSyncSchedule(sync)}
+                          {sync.isActive && (
+                            <> · Next: {sync.nextRunAt ? new Date(sync.nextRunAt).toLocaleString() : 'soon'}</>
+                          )}
+                        </span>
                       </div>
                     </div>
                     
                     <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3">
                       <Button
                         variant="outline"
-                        onClick={() => handleManualSync(sync.id)}
-                        disabled={syncing === sync.id}
+                        onClick={() => sync.syncType === 'full' ? handlePreviewSync(sync.id) : handleManualSync(sync.id)}
+                        disabled={syncing === sync.id || previewing === sync.id || preview?.syncId === sync.id}
                         fullWidth
                         className="sm:flex-1 border-primary-200 hover:border-primary-300 hover:bg-primary-50"
                       >
-                        {syncing === sync.id ? (
+                        {syncing === sync.id || previewing === sync.id ? (
                           <>
                             <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary-600 mr-2" />
-                            Syncing...
+                            {previewing === sync.id ? 'Checking changes...' : 'Syncing...'}
                           </>
                         ) : (
                           <>
@@ -246,6 +313,16 @@ function DashboardContent() {
                           </>
                         )}
                       </Button>
+                      <Link href={`/dashboard/edit-sync/${sync.id}`} className="block sm:inline-block">
+                        <Button
+                          variant="outline"
+                          fullWidth
+                          className="min-w-[44px] sm:w-auto"
+                        >
+                          <Settings className="h-5 w-5" />
+                          <span className="ml-2 sm:hidden">Edit</span>
+                        </Button>
+                      </Link>
                       <Button
                         variant="outline"
                         onClick={() => handleDeleteSync(sync.id)}
@@ -257,6 +334,15 @@ function DashboardContent() {
                     </div>
                   </div>
 
+                  {preview?.syncId === sync.id && (
+                    <SyncPlanPreview
+                      plan={preview.plan}
+                      confirming={syncing === sync.id}
+                      onConfirm={() => handleConfirmSync(sync.id)}
+                      onCancel={() => setPreview(null)}
+                    />
+                  )}
+
                   {sync.syncErrors && sync.syncErrors.length > 0 && (
                     <div className="bg-red-50 border border-red-200 rounded-lg p-4 mt-4">
                       <h4 className="text-base font-bold text-red-800 mb-3">
@@ -271,8 +357,21 @@ function DashboardContent() {
                   )}
 
                   <div className="text-sm text-gray-500 mt-4 p-3 bg-gray-50 rounded-lg">
-                    <span className="font-medium">ICS URL:</span>
-                    <div className="break-all mt-1 font-mono text-xs">{sync.icsUrl}</div>
+                    {sync.sources ? (
+                      <>
+                        <span className="font-medium">ICS Sources:</span>
+                        {sync.sources.map((source) => (
+                          <div key={source.tag} className="break-all mt-1 font-mono text-xs">
+                            <span className="font-sans font-medium">{source.tag}:</span> {source.icsUrl}
+                          </div>
+                        ))}
+                      </>
+                    ) : (
+                      <>
+                        <span className="font-medium">ICS URL:</span>
+                        <div className="break-all mt-1 font-mono text-xs">{sync.icsUrl}</div>
+                      </>
+                    )}
                   </div>
                 </div>
               ))}
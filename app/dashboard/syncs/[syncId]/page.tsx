@@ -0,0 +1,296 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Clock, Settings } from 'lucide-react';
+import Link from 'next/link';
+import { describeSyncSchedule } from '@/lib/sync-schedule';
+import { SyncConflicts } from '@/components/sync/SyncConflicts';
+import type { SyncHistoryDay, SyncHistoryStats, SyncRunStatus } from '@/lib/sync-history';
+import type { GoogleQuotaUsage } from '@/lib/google-quota';
+
+interface SyncDetails {
+  id: string;
+  name: string;
+  icsUrl: string;
+  syncType: string;
+  isActive: boolean;
+  lastSync: string | null;
+  schedule: string;
+  scheduleCron: string | null;
+  nextRunAt: string | null;
+}
+
+// SyncRun as it arrives over JSON
+interface SyncRun {
+  id: string;
+  status: SyncRunStatus;
+  createdAt: string;
+  eventsProcessed: number;
+  eventsCreated: number;
+  eventsUpdated: number;
+  eventsDeleted: number;
+  durationMs: number | null;
+  errors: string[];
+  quotaUsage?: GoogleQuotaUsage;
+}
+
+const STATUS_STYLES: Record<SyncRunStatus, { label: string; className: string }> = {
+  success: { label: '✓ Success', className: 'bg-green-100 text-green-800 border-green-200' },
+  not_modified: { label: '○ Unchanged', className: 'bg-gray-100 text-gray-800 border-gray-200' },
+  error: { label: '⚠ Errors', className: 'bg-red-100 text-red-800 border-red-200' },
+};
+
+function formatDuration(durationMs: number | null): string {
+  if (durationMs === null) return '–';
+  return durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+function RunsChart({ days }: { days: SyncHistoryDay[] }) {
+  const maxRuns = Math.max(1, ...days.map(day => day.success + day.error + day.notModified));
+
+  return (
+    <div>
+      <div className="flex items-end h-32 gap-[2px]" aria-label="Runs per day">
+        {days.map((day) => {
+          const total = day.success + day.error + day.notModified;
+          return (
+            <div
+              key={day.date}
+              className="flex-1 flex flex-col-reverse"
+              style={{ height: `${(total / maxRuns) * 100}%` }}
+              title={`${day.date}: ${day.success} succeeded, ${day.notModified} unchanged, ${day.error} with errors`}
+            >
+              {total > 0 && (
+                <>
+                  <div className="bg-green-500" style={{ flexGrow: day.success }} />
+                  <div className="bg-gray-300" style={{ flexGrow: day.notModified }} />
+                  <div className="bg-red-500" style={{ flexGrow: day.error }} />
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{days[0]?.date}</span>
+        <span>{days[days.length - 1]?.date}</span>
+      </div>
+    </div>
+  );
+}
+
+export default function SyncDetailPage() {
+  useSession({
+    required: true,
+    onUnauthenticated() {
+      window.location.href = '/';
+    },
+  });
+
+  const { syncId } = useParams<{ syncId: string }>();
+  const [sync, setSync] = useState<SyncDetails | null>(null);
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [stats, setStats] = useState<SyncHistoryStats | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSyncAndHistory();
+  }, []);
+
+  const fetchSyncAndHistory = async () => {
+    try {
+      const [syncResponse, historyResponse] = await Promise.all([
+        fetch(`/api/syncs/${syncId}`),
+        fetch(`/api/syncs/${syncId}/history`),
+      ]);
+
+      if (!syncResponse.ok || !historyResponse.ok) {
+        setError(syncResponse.status === 404 ? 'This sync no longer exists.' : 'Failed to load sync history');
+        return;
+      }
+
+      const history = await historyResponse.json();
+      setSync(await syncResponse.json());
+      setRuns(history.runs);
+      setStats(history.stats);
+      setNextCursor(history.nextCursor);
+    } catch (error) {
+      console.error('Failed to fetch sync history:', error);
+      setError('Failed to load sync history. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadOlderRuns = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const response = await fetch(`/api/syncs/${syncId}/history?before=${encodeURIComponent(nextCursor)}`);
+      if (response.ok) {
+        const history = await response.json();
+        setRuns(current => [...current, ...history.runs]);
+        setNextCursor(history.nextCursor);
+      }
+    } catch (error) {
+      console.error('Failed to fetch older runs:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-white">
+        <div className="text-center space-mobile">
+          <div className="animate-spin rounded-full h-16 w-16 sm:h-20 sm:w-20 border-4 border-primary-600 border-t-transparent mx-auto mb-4"></div>
+          <p className="text-lg sm:text-xl text-gray-600 animate-pulse">Loading sync history...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-white">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b sticky top-0 z-10">
+        <div className="container-mobile">
+          <div className="nav-mobile">
+            <Link href="/dashboard" className="block">
+              <Button variant="ghost" size="sm" className="min-w-[44px]">
+                <ArrowLeft className="h-5 w-5 sm:mr-2" />
+                <span className="hidden sm:inline">Back to Dashboard</span>
+              </Button>
+            </Link>
+            <h1 className="text-lg sm:text-xl font-bold text-gray-900 truncate ml-2">
+              {sync?.name || 'Sync History'}
+            </h1>
+          </div>
+        </div>
+      </header>
+
+      <div className="container-mobile py-4 sm:py-6 lg:py-8">
+        <div className="max-w-4xl mx-auto space-mobile">
+          {error || !sync ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          ) : (
+            <>
+              {/* Sync Summary */}
+              <div className="card-mobile">
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+                  <div>
+                    <h2 className="text-2xl font-bold text-gray-900 mb-2">{sync.name}</h2>
+                    <p className="text-sm text-gray-600 flex items-center">
+                      <Clock className="h-4 w-4 mr-2" />
+                      {sync.lastSync ? `Last sync: ${new Date(sync.lastSync).toLocaleString()}` : 'Never synced'}
+                    </p>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {describeSyncSchedule(sync)}
+                      {sync.isActive
+                        ? <> · Next: {sync.nextRunAt ? new Date(sync.nextRunAt).toLocaleString() : 'soon'}</>
+                        : ' · Inactive'}
+                    </p>
+                  </div>
+                  <Link href={`/dashboard/edit-sync/${sync.id}`} className="block sm:inline-block">
+                    <Button variant="outline" fullWidth className="sm:w-auto">
+                      <Settings className="h-5 w-5 mr-2" />
+                      Edit
+                    </Button>
+                  </Link>
+                </div>
+              </div>
+
+              {sync.syncType === 'two_way' && <SyncConflicts syncId={sync.id} />}
+
+              {/* Stats */}
+              {stats && (
+                <div className="card-mobile space-y-4">
+                  <h3 className="text-lg font-bold text-gray-900">Last {stats.days.length} days</h3>
+                  <div className="grid grid-cols-3 gap-4 text-center">
+                    <div>
+                      <div className="text-2xl font-bold text-gray-900">{stats.totalRuns}</div>
+                      <div className="text-sm text-gray-600">Runs</div>
+                    </div>
+                    <div>
+                      <div className="text-2xl font-bold text-gray-900">
+                        {stats.successRate === null ? '–' : `${Math.round(stats.successRate * 100)}%`}
+                      </div>
+                      <div className="text-sm text-gray-600">Without errors</div>
+                    </div>
+                    <div>
+                      <div className="text-2xl font-bold text-gray-900">{formatDuration(stats.averageDurationMs)}</div>
+                      <div className="text-sm text-gray-600">Average duration</div>
+                    </div>
+                  </div>
+                  <RunsChart days={stats.days} />
+                  <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+                    <span className="flex items-center"><span className="w-3 h-3 bg-green-500 mr-1" />Success</span>
+                    <span className="flex items-center"><span className="w-3 h-3 bg-gray-300 mr-1" />Unchanged</span>
+                    <span className="flex items-center"><span className="w-3 h-3 bg-red-500 mr-1" />Errors</span>
+                  </div>
+                </div>
+              )}
+
+              {/* Timeline */}
+              <div className="card-mobile">
+                <h3 className="text-lg font-bold text-gray-900 mb-4">Runs</h3>
+                {runs.length === 0 ? (
+                  <p className="text-gray-600">This sync has not run yet.</p>
+                ) : (
+                  <ol className="border-l-2 border-gray-200 space-y-4">
+                    {runs.map((run) => (
+                      <li key={run.id} className="ml-4">
+                        <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                          <span className={`px-2 py-1 rounded-full border text-xs font-medium w-fit ${STATUS_STYLES[run.status]?.className ?? ''}`}>
+                            {STATUS_STYLES[run.status]?.label ?? run.status}
+                          </span>
+                          <span className="text-sm text-gray-900">{new Date(run.createdAt).toLocaleString()}</span>
+                          <span className="text-sm text-gray-500">{formatDuration(run.durationMs)}</span>
+                        </div>
+                        <p className="text-sm text-gray-600 mt-1">
+                          {run.eventsProcessed} processed · {run.eventsCreated} created · {run.eventsUpdated} updated · {run.eventsDeleted} deleted
+                        </p>
+                        {run.quotaUsage && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {run.quotaUsage.requests} Google API requests
+                            {run.quotaUsage.retries > 0 && ` · ${run.quotaUsage.retries} retried`}
+                            {run.quotaUsage.rateLimited > 0 && ` · ${run.quotaUsage.rateLimited} rate-limited`}
+                          </p>
+                        )}
+                        {run.errors.length > 0 && (
+                          <details className="mt-2 bg-red-50 border border-red-200 rounded-lg p-3">
+                            <summary className="cursor-pointer text-sm font-medium text-red-800">
+                              {run.errors.length} {run.errors.length === 1 ? 'error' : 'errors'}
+                            </summary>
+                            <ul className="text-sm text-red-700 space-y-2 mt-2">
+                              {run.errors.map((runError, index) => (
+                                <li key={index} className="break-words leading-relaxed">• {runError}</li>
+                              ))}
+                            </ul>
+                          </details>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+                {nextCursor && (
+                  <Button variant="outline" onClick={loadOlderRuns} disabled={loadingMore} fullWidth className="mt-6">
+                    {loadingMore ? 'Loading...' : 'Load older runs'}
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  EVENT_COLOR_IDS,
+  EVENT_TRANSPARENCIES,
+  EVENT_VISIBILITIES,
+  MAX_REMINDER_MINUTES,
+  MAX_REMINDERS,
+  REMINDER_METHODS,
+  EventAppearance,
+} from '@/lib/event-appearance';
+
+interface EventAppearanceEditorProps {
+  appearance: EventAppearance;
+  onChange: (appearance: EventAppearance) => void;
+}
+
+type ReminderMode = 'default' | 'none' | 'custom';
+
+// Names and swatches Google Calendar shows for its event palette
+const COLORS: Record<typeof EVENT_COLOR_IDS[number], { name: string; hex: string }> = {
+  '1': { name: 'Lavender', hex: '#7986cb' },
+  '2': { name: 'Sage', hex: '#33b679' },
+  '3': { name: 'Grape', hex: '#8e24aa' },
+  '4': { name: 'Flamingo', hex: '#e67c73' },
+  '5': { name: 'Banana', hex: '#f6bf26' },
+  '6': { name: 'Tangerine', hex: '#f4511e' },
+  '7': { name: 'Peacock', hex: '#039be5' },
+  '8': { name: 'Graphite', hex: '#616161' },
+  '9': { name: 'Blueberry', hex: '#3f51b5' },
+  '10': { name: 'Basil', hex: '#0b8043' },
+  '11': { name: 'Tomato', hex: '#d50000' },
+};
+
+const VISIBILITY_LABELS: Record<typeof EVENT_VISIBILITIES[number], string> = {
+  default: 'Calendar default',
+  public: 'Public',
+  private: 'Private',
+  confidential: 'Confidential',
+};
+
+const TRANSPARENCY_LABELS: Record<typeof EVENT_TRANSPARENCIES[number], string> = {
+  opaque: 'Busy',
+  transparent: 'Free',
+};
+
+/** Color, reminders, visibility and busy status of the events a sync writes */
+export function EventAppearanceEditor({ appearance, onChange }: EventAppearanceEditorProps) {
+  const reminders = appearance.reminders;
+  const reminderMode: ReminderMode = !reminders ? 'default' : reminders.length === 0 ? 'none' : 'custom';
+
+  // Unset settings are dropped rather than stored as empty values
+  const update = (changes: Partial<EventAppearance>) => {
+    const next = { ...appearance, ...changes };
+    (Object.keys(next) as (keyof EventAppearance)[]).forEach((key) => {
+      if (next[key] === undefined) delete next[key];
+    });
+    onChange(next);
+  };
+
+  const setReminderMode = (mode: ReminderMode) => {
+    update({
+      reminders: mode === 'default' ? undefined : mode === 'none' ? [] : [{ method: 'popup', minutes: 10 }],
+    });
+  };
+
+  const updateReminder = (index: number, changes: Partial<NonNullable<EventAppearance['reminders']>[number]>) => {
+    update({ reminders: reminders?.map((reminder, i) => (i === index ? { ...reminder, ...changes } : reminder)) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="space-y-1">
+          <label htmlFor="colorId" className="block text-sm font-medium text-gray-700">
+            Color
+          </label>
+          <select
+            id="colorId"
+            className="input w-full"
+            value={appearance.colorId || ''}
+            onChange={(e) => update({ colorId: (e.target.value || undefined) as EventAppearance['colorId'] })}
+            style={appearance.colorId ? { borderLeft: `6px solid ${COLORS[appearance.colorId].hex}` } : undefined}
+          >
+            <option value="">Calendar color</option>
+            {EVENT_COLOR_IDS.map((colorId) => (
+              <option key={colorId} value={colorId}>{COLORS[colorId].name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="visibility" className="block text-sm font-medium text-gray-700">
+            Visibility
+          </label>
+          <select
+            id="visibility"
+            className="input w-full"
+            value={appearance.visibility || 'default'}
+            onChange={(e) => update({
+              visibility: e.target.value === 'default' ? undefined : e.target.value as EventAppearance['visibility'],
+            })}
+          >
+            {EVENT_VISIBILITIES.map((visibility) => (
+              <option key={visibility} value={visibility}>{VISIBILITY_LABELS[visibility]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="transparency" className="block text-sm font-medium text-gray-700">
+            Show as
+          </label>
+          <select
+            id="transparency"
+            className="input w-full"
+            value={appearance.transparency || ''}
+            onChange={(e) => update({ transparency: (e.target.value || undefined) as EventAppearance['transparency'] })}
+          >
+            <option value="">Calendar default</option>
+            {EVENT_TRANSPARENCIES.map((transparency) => (
+              <option key={transparency} value={transparency}>{TRANSPARENCY_LABELS[transparency]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label htmlFor="reminderMode" className="block text-sm font-medium text-gray-700">
+          Reminders
+        </label>
+        <select
+          id="reminderMode"
+          className="input w-full"
+          value={reminderMode}
+          onChange={(e) => setReminderMode(e.target.value as ReminderMode)}
+        >
+          <option value="default">Calendar default reminders</option>
+          <option value="none">No reminders</option>
+          <option value="custom">Custom reminders</option>
+        </select>
+
+        {reminderMode === 'custom' && reminders?.map((reminder, index) => (
+          <div key={index} className="grid grid-cols-[auto_1fr_auto] gap-2 items-center">
+            <select
+              className="input"
+              value={reminder.method}
+              onChange={(e) => updateReminder(index, { method: e.target.value as typeof REMINDER_METHODS[number] })}
+            >
+              {REMINDER_METHODS.map((method) => (
+                <option key={method} value={method}>{method === 'popup' ? 'Notification' : 'Email'}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              max={MAX_REMINDER_MINUTES}
+              required
+              className="input w-full"
+              aria-label="Minutes before the event"
+              value={reminder.minutes}
+              onChange={(e) => updateReminder(index, { minutes: Number(e.target.value) })}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => update({ reminders: reminders.filter((_, i) => i !== index) })}
+              className="text-red-600 min-w-[44px]"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        {reminderMode === 'custom' && reminders && reminders.length < MAX_REMINDERS && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => update({ reminders: [...reminders, { method: 'popup', minutes: 10 }] })}
+            className="sm:w-auto"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Reminder
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
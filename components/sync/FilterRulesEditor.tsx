@@ -0,0 +1,169 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  FILTER_ACTIONS,
+  FILTER_DURATION_OPERATORS,
+  FILTER_TEXT_FIELDS,
+  FILTER_TEXT_OPERATORS,
+  FilterRule,
+} from '@/lib/event-filters';
+
+interface FilterRulesEditorProps {
+  syncId: string;
+  rules: FilterRule[];
+  onChange: (rules: FilterRule[]) => void;
+}
+
+interface FilterTestResult {
+  total: number;
+  kept: number;
+  dropped: number;
+  truncated: boolean;
+  events: Array<{ uid: string; summary: string; start: string; kept: boolean; reason: string }>;
+}
+
+const FIELDS = [...FILTER_TEXT_FIELDS, 'duration'] as const;
+
+const OPERATOR_LABELS: Record<string, string> = {
+  contains: 'contains',
+  equals: 'equals',
+  regex: 'matches regex',
+  atLeast: 'is at least (minutes)',
+  atMost: 'is at most (minutes)',
+};
+
+/** Include/exclude rules of a sync, with a dry run against the current feed */
+export function FilterRulesEditor({ syncId, rules, onChange }: FilterRulesEditorProps) {
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<FilterTestResult | null>(null);
+
+  const updateRule = (index: number, changes: Partial<FilterRule>) => {
+    const current = rules[index];
+    let next = { ...current, ...changes } as FilterRule;
+
+    // Switching between text and duration fields changes the valid operators and values
+    if (changes.field && (changes.field === 'duration') !== (current.field === 'duration')) {
+      next = changes.field === 'duration'
+        ? { action: current.action, field: 'duration', operator: 'atLeast', value: 0 }
+        : { action: current.action, field: changes.field, operator: 'contains', value: '' } as FilterRule;
+    }
+
+    onChange(rules.map((rule, i) => (i === index ? next : rule)));
+    setTestResult(null);
+  };
+
+  const addRule = () => {
+    onChange([...rules, { action: 'exclude', field: 'summary', operator: 'contains', value: '' }]);
+    setTestResult(null);
+  };
+
+  const removeRule = (index: number) => {
+    onChange(rules.filter((_, i) => i !== index));
+    setTestResult(null);
+  };
+
+  const testRules = async () => {
+    setTesting(true);
+    try {
+      const response = await fetch(`/api/syncs/${syncId}/filters/test`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rules }),
+      });
+
+      if (response.ok) {
+        setTestResult(await response.json());
+      } else if (response.status === 400) {
+        alert(await response.text());
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        alert(`Could not test rules: ${errorData.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Filter test failed:', error);
+      alert('Could not test rules. Please try again.');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {rules.map((rule, index) => (
+        <div key={index} className="grid grid-cols-1 sm:grid-cols-[auto_auto_auto_1fr_auto] gap-2 items-center">
+          <select
+            className="input"
+            value={rule.action}
+            onChange={(e) => updateRule(index, { action: e.target.value as FilterRule['action'] })}
+          >
+            {FILTER_ACTIONS.map((action) => (
+              <option key={action} value={action}>{action === 'include' ? 'Only include' : 'Exclude'}</option>
+            ))}
+          </select>
+          <select
+            className="input"
+            value={rule.field}
+            onChange={(e) => updateRule(index, { field: e.target.value as FilterRule['field'] })}
+          >
+            {FIELDS.map((field) => (
+              <option key={field} value={field}>{field}</option>
+            ))}
+          </select>
+          <select
+            className="input"
+            value={rule.operator}
+            onChange={(e) => updateRule(index, { operator: e.target.value as FilterRule['operator'] } as Partial<FilterRule>)}
+          >
+            {(rule.field === 'duration' ? FILTER_DURATION_OPERATORS : FILTER_TEXT_OPERATORS).map((operator) => (
+              <option key={operator} value={operator}>{OPERATOR_LABELS[operator]}</option>
+            ))}
+          </select>
+          <input
+            type={rule.field === 'duration' ? 'number' : 'text'}
+            min={0}
+            required
+            className="input w-full font-mono text-sm"
+            placeholder={rule.field === 'status' ? 'TENTATIVE' : 'OOO'}
+            value={rule.value}
+            onChange={(e) => updateRule(index, {
+              value: rule.field === 'duration' ? Number(e.target.value) : e.target.value,
+            } as Partial<FilterRule>)}
+          />
+          <Button type="button" variant="ghost" size="sm" onClick={() => removeRule(index)} className="text-red-600 min-w-[44px]">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3">
+        <Button type="button" variant="outline" onClick={addRule} className="sm:w-auto">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+        <Button type="button" variant="outline" onClick={testRules} disabled={testing} className="sm:w-auto">
+          {testing ? 'Testing...' : 'Test Rules Against Feed'}
+        </Button>
+      </div>
+
+      {testResult && (
+        <div className="border rounded-lg p-3 text-sm">
+          <p className="font-medium text-gray-900 mb-2">
+            Keeps {testResult.kept} of {testResult.total} events ({testResult.dropped} dropped)
+          </p>
+          <ul className="space-y-1 max-h-64 overflow-y-auto">
+            {testResult.events.map((event) => (
+              <li key={`${event.uid}:${event.start}`} className={event.kept ? 'text-gray-800' : 'text-gray-400 line-through'}>
+                {event.summary} · {new Date(event.start).toLocaleString()}
+                <span className="no-underline text-xs text-gray-500"> — {event.reason}</span>
+              </li>
+            ))}
+          </ul>
+          {testResult.truncated && <p className="text-xs text-gray-500 mt-2">Only the first {testResult.events.length} events are listed.</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import type { ConflictSide, EventSnapshot } from '@/lib/two-way-sync';
+import type { SyncConflict } from '@/lib/two-way-sync-service';
+
+interface SyncConflictsProps {
+  syncId: string;
+}
+
+function SnapshotDetails({ title, snapshot }: { title: string; snapshot: EventSnapshot | null }) {
+  return (
+    <div className="border rounded-lg p-3 text-sm">
+      <div className="font-medium text-gray-900 mb-1">{title}</div>
+      {snapshot ? (
+        <>
+          <div className="break-words">{snapshot.summary || '(no title)'}</div>
+          <div className="text-gray-500">
+            {new Date(snapshot.start).toLocaleString()} – {new Date(snapshot.end).toLocaleString()}
+          </div>
+          {snapshot.location && <div className="text-gray-500 break-words">{snapshot.location}</div>}
+          {snapshot.modifiedAt && (
+            <div className="text-xs text-gray-400 mt-1">Edited {new Date(snapshot.modifiedAt).toLocaleString()}</div>
+          )}
+        </>
+      ) : (
+        <div className="text-red-700">Deleted</div>
+      )}
+    </div>
+  );
+}
+
+/** Two-way sync events edited on both sides, waiting for the user to pick one */
+export function SyncConflicts({ syncId }: SyncConflictsProps) {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchConflicts();
+  }, []);
+
+  const fetchConflicts = async () => {
+    try {
+      const response = await fetch(`/api/syncs/${syncId}/conflicts`);
+      if (response.ok) {
+        const data = await response.json();
+        setConflicts(data.conflicts);
+      }
+    } catch (error) {
+      console.error('Failed to fetch conflicts:', error);
+    }
+  };
+
+  const resolveConflict = async (mappingId: string, resolution: ConflictSide) => {
+    setResolving(mappingId);
+    try {
+      const response = await fetch(`/api/syncs/${syncId}/conflicts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mappingId, resolution }),
+      });
+
+      if (response.ok) {
+        setConflicts(current => current.map(conflict => (
+          conflict.mappingId === mappingId
+            ? { ...conflict, conflict: { ...conflict.conflict, resolution } }
+            : conflict
+        )));
+      } else {
+        alert('Failed to resolve the conflict. Please try again.');
+      }
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      alert('Failed to resolve the conflict. Please try again.');
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="card-mobile">
+      <h3 className="text-lg font-bold text-gray-900 mb-2">Conflicts ({conflicts.length})</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        These events were changed in both calendars. Pick the version to keep; the next sync copies it to the other side.
+      </p>
+      <ul className="space-y-4">
+        {conflicts.map(({ mappingId, eventTitle, conflict }) => (
+          <li key={mappingId} className="space-y-2">
+            <div className="font-medium text-gray-900 break-words">{eventTitle}</div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <SnapshotDetails title="Source calendar" snapshot={conflict.source} />
+              <SnapshotDetails title="Google Calendar" snapshot={conflict.google} />
+            </div>
+            {conflict.resolution ? (
+              <p className="text-sm text-green-700">
+                Keeping the {conflict.resolution === 'source' ? 'source' : 'Google'} version on the next sync.
+              </p>
+            ) : (
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button
+                  variant="outline"
+                  disabled={resolving === mappingId}
+                  onClick={() => resolveConflict(mappingId, 'source')}
+                  className="sm:w-auto"
+                >
+                  Keep source
+                </Button>
+                <Button
+                  variant="outline"
+                  disabled={resolving === mappingId}
+                  onClick={() => resolveConflict(mappingId, 'google')}
+                  className="sm:w-auto"
+                >
+                  Keep Google
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
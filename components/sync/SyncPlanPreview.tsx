@@ -0,0 +1,90 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import type { SyncPlan, SyncPlanEvent } from '@/lib/sync-plan';
+
+interface SyncPlanPreviewProps {
+  plan: SyncPlan;
+  confirming: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const MAX_LISTED_EVENTS = 25;
+
+function formatStart(start: string): string {
+  return new Date(start).toLocaleString();
+}
+
+function PlanSection({
+  title,
+  events,
+  className,
+  showChanges = false,
+}: {
+  title: string;
+  events: SyncPlanEvent[];
+  className: string;
+  showChanges?: boolean;
+}) {
+  if (events.length === 0) return null;
+
+  return (
+    <details className="border rounded-lg p-3" open={events.length <= 5}>
+      <summary className={`cursor-pointer font-medium ${className}`}>
+        {title} ({events.length})
+      </summary>
+      <ul className="mt-2 space-y-2 text-sm text-gray-700">
+        {events.slice(0, MAX_LISTED_EVENTS).map((event) => (
+          <li key={event.key} className="break-words">
+            <span className="font-medium">{event.summary || '(no title)'}</span>
+            <span className="text-gray-500"> · {formatStart(event.start)}</span>
+            {showChanges && event.changes && (
+              <ul className="mt-1 ml-4 space-y-1 text-xs">
+                {event.changes.map((change) => (
+                  <li key={change.field} className="font-mono break-all">
+                    {change.field}: <span className="text-red-700 line-through">{change.before || '(empty)'}</span>
+                    {' → '}
+                    <span className="text-green-700">{change.after || '(empty)'}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+        {events.length > MAX_LISTED_EVENTS && (
+          <li className="text-gray-500">…and {events.length - MAX_LISTED_EVENTS} more</li>
+        )}
+      </ul>
+    </details>
+  );
+}
+
+/** Planned changes of a sync run, shown before the user confirms it */
+export function SyncPlanPreview({ plan, confirming, onConfirm, onCancel }: SyncPlanPreviewProps) {
+  const hasChanges = plan.create.length + plan.update.length + plan.delete.length > 0;
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mt-4 space-y-3">
+      <h4 className="text-base font-bold text-gray-900">Preview of this sync</h4>
+      <p className="text-sm text-gray-600">
+        {plan.eventsInFeed} events in the feed between {new Date(plan.window.start).toLocaleDateString()} and{' '}
+        {new Date(plan.window.end).toLocaleDateString()}: {plan.create.length} to create, {plan.update.length} to
+        update, {plan.delete.length} to delete, {plan.unchanged.length} unchanged.
+      </p>
+
+      <PlanSection title="To create" events={plan.create} className="text-green-800" />
+      <PlanSection title="To update" events={plan.update} className="text-blue-800" showChanges />
+      <PlanSection title="To delete" events={plan.delete} className="text-red-800" />
+
+      <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-3">
+        <Button onClick={onConfirm} disabled={confirming} className="sm:flex-1">
+          {confirming ? 'Syncing...' : hasChanges ? 'Confirm and Sync' : 'Sync Anyway'}
+        </Button>
+        <Button variant="outline" onClick={onCancel} disabled={confirming} className="sm:flex-1">
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Plus, Trash2 } from 'lucide-react';
+import { MAX_SYNC_SOURCES, SyncSource } from '@/lib/sync-sources';
+
+interface SyncSourcesEditorProps {
+  sources: SyncSource[];
+  onChange: (sources: SyncSource[]) => void;
+}
+
+/** Tagged ICS feeds merged by a multi-source sync */
+export function SyncSourcesEditor({ sources, onChange }: SyncSourcesEditorProps) {
+  const updateSource = (index: number, changes: Partial<SyncSource>) => {
+    onChange(sources.map((source, i) => (i === index ? { ...source, ...changes } : source)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {sources.map((source, index) => (
+        <div key={index} className="grid grid-cols-1 sm:grid-cols-[10rem_1fr_auto] gap-2 items-center">
+          <input
+            type="text"
+            required
+            maxLength={50}
+            className="input w-full"
+            aria-label="Source tag"
+            placeholder={`Vendor ${index + 1}`}
+            value={source.tag}
+            onChange={(e) => updateSource(index, { tag: e.target.value })}
+          />
+          <input
+            type="url"
+            required
+            className="input w-full font-mono text-sm"
+            aria-label="Source ICS URL"
+            placeholder="https://outlook.office365.com/owa/calendar/..."
+            value={source.icsUrl}
+            onChange={(e) => updateSource(index, { icsUrl: e.target.value })}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(sources.filter((_, i) => i !== index))}
+            className="text-red-600 min-w-[44px]"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {sources.length < MAX_SYNC_SOURCES && (
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => onChange([...sources, { tag: '', icsUrl: '' }])}
+          className="sm:w-auto"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Source
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+-- Rolling sync window per calendar sync
+-- Migration: 002-add-sync-window-columns.sql
+
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "syncDaysPast" INTEGER DEFAULT 7 NOT NULL;
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "syncDaysFuture" INTEGER DEFAULT 30 NOT NULL;
+
+ALTER TABLE calendar_syncs DROP CONSTRAINT IF EXISTS calendar_syncs_sync_window_check;
+ALTER TABLE calendar_syncs ADD CONSTRAINT calendar_syncs_sync_window_check
+  CHECK ("syncDaysPast" BETWEEN 0 AND 365 AND "syncDaysFuture" BETWEEN 0 AND 365);
@@ -0,0 +1,9 @@
+-- Propagate deletions from ICS feeds to Google Calendar
+-- Migration: 003-add-deletion-propagation.sql
+
+-- Existing syncs keep their current behaviour (nothing is deleted) until the
+-- option is turned on; syncs created afterwards propagate deletions by default
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "deleteRemovedEvents" BOOLEAN DEFAULT FALSE NOT NULL;
+ALTER TABLE calendar_syncs ALTER COLUMN "deleteRemovedEvents" SET DEFAULT TRUE;
+
+ALTER TABLE sync_logs ADD COLUMN IF NOT EXISTS "eventsDeleted" TEXT DEFAULT '0' NOT NULL;
@@ -0,0 +1,15 @@
+-- One event_mappings row per source occurrence, used as the sync's primary lookup
+-- Migration: 004-add-event-mapping-unique-index.sql
+
+-- Keep the most recently synced row if earlier runs left duplicates
+-- (rows written in the same run share lastSyncedAt, so ties keep the highest id)
+DELETE FROM event_mappings a
+  USING event_mappings b
+  WHERE a."calendarSyncId" = b."calendarSyncId"
+    AND a."sourceUid" = b."sourceUid"
+    AND a."startDateTime" = b."startDateTime"
+    AND (a."lastSyncedAt" < b."lastSyncedAt"
+      OR (a."lastSyncedAt" = b."lastSyncedAt" AND a.id < b.id));
+
+CREATE UNIQUE INDEX IF NOT EXISTS event_mappings_sync_event_idx
+  ON event_mappings ("calendarSyncId", "sourceUid", "startDateTime");
@@ -0,0 +1,4 @@
+-- Skip Google updates for events whose content has not changed
+-- Migration: 005-add-event-mapping-content-hash.sql
+
+ALTER TABLE event_mappings ADD COLUMN IF NOT EXISTS "contentHash" TEXT;
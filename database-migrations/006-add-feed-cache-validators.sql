@@ -0,0 +1,6 @@
+-- Conditional ICS downloads (If-None-Match / If-Modified-Since)
+-- Migration: 006-add-feed-cache-validators.sql
+
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "feedEtag" TEXT;
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "feedLastModified" TEXT;
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "feedFetchedAt" TIMESTAMP;
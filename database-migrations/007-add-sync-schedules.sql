@@ -0,0 +1,13 @@
+-- Per-sync schedules; the cron endpoint dispatches syncs whose "nextRunAt" has passed
+-- Migration: 007-add-sync-schedules.sql
+
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "schedule" TEXT DEFAULT 'daily' NOT NULL;
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "scheduleCron" TEXT;
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "nextRunAt" TIMESTAMP;
+
+ALTER TABLE calendar_syncs DROP CONSTRAINT IF EXISTS calendar_syncs_schedule_check;
+ALTER TABLE calendar_syncs ADD CONSTRAINT calendar_syncs_schedule_check
+  CHECK ("schedule" IN ('hourly', 'daily', 'weekly', 'custom') AND ("schedule" <> 'custom' OR "scheduleCron" IS NOT NULL));
+
+-- Dispatcher lookup of due syncs
+CREATE INDEX IF NOT EXISTS idx_calendar_syncs_next_run ON calendar_syncs("nextRunAt") WHERE "isActive" = true;
@@ -0,0 +1,28 @@
+-- Durable sync job queue with retries and backoff
+-- Migration: 008-create-sync-jobs.sql
+
+CREATE TABLE IF NOT EXISTS sync_jobs (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "calendarSyncId" TEXT NOT NULL REFERENCES calendar_syncs(id) ON DELETE CASCADE,
+    "trigger" TEXT NOT NULL,
+    "status" TEXT DEFAULT 'queued' NOT NULL,
+    "attempts" INTEGER DEFAULT 0 NOT NULL,
+    "maxAttempts" INTEGER DEFAULT 5 NOT NULL,
+    "runAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+    "lockedBy" TEXT,
+    "lockedAt" TIMESTAMP,
+    "userTimeZone" TEXT,
+    "lastError" TEXT,
+    "result" JSONB,
+    "createdAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+    "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+    "finishedAt" TIMESTAMP,
+    CONSTRAINT sync_jobs_status_check
+      CHECK ("status" IN ('queued', 'running', 'succeeded', 'failed', 'dead')),
+    CONSTRAINT sync_jobs_trigger_check
+      CHECK ("trigger" IN ('manual', 'schedule'))
+);
+
+-- Workers look up due jobs by status and runAt
+CREATE INDEX IF NOT EXISTS sync_jobs_status_run_at_idx ON sync_jobs("status", "runAt");
+CREATE INDEX IF NOT EXISTS sync_jobs_calendar_sync_idx ON sync_jobs("calendarSyncId");
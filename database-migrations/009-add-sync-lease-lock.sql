@@ -0,0 +1,6 @@
+-- Per-sync lease lock so only one run of a sync writes to Google at a time
+-- Migration: 009-add-sync-lease-lock.sql
+
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "lockedBy" TEXT;
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "lockedUntil" TIMESTAMP;
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "syncProgress" JSONB;
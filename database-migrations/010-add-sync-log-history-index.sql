@@ -0,0 +1,4 @@
+-- Index for paging through a sync's run history
+-- Migration: 010-add-sync-log-history-index.sql
+
+CREATE INDEX IF NOT EXISTS sync_logs_sync_created_idx ON sync_logs("calendarSyncId", "createdAt");
@@ -0,0 +1,4 @@
+-- Per-sync include/exclude rules for feed events
+-- Migration: 011-add-sync-filter-rules.sql
+
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "filterRules" JSONB;
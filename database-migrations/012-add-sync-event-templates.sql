@@ -0,0 +1,4 @@
+-- Per-sync summary/description/location templates for synced events
+-- Migration: 012-add-sync-event-templates.sql
+
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "eventTemplates" JSONB;
@@ -0,0 +1,4 @@
+-- Per-sync color, reminders, visibility and transparency of synced events
+-- Migration: 013-add-sync-event-appearance.sql
+
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "eventAppearance" JSONB;
@@ -0,0 +1,5 @@
+-- Multiple tagged ICS sources per sync, and the source of each synced event
+-- Migration: 014-add-sync-sources.sql
+
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "sources" JSONB;
+ALTER TABLE event_mappings ADD COLUMN IF NOT EXISTS "sourceTag" TEXT;
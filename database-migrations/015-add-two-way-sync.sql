@@ -0,0 +1,11 @@
+-- Two-way syncs with a CalDAV source: conflict policy, credentials and per-event revision state
+-- Migration: 015-add-two-way-sync.sql
+
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "conflictPolicy" TEXT NOT NULL DEFAULT 'source_wins';
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "caldavUsername" TEXT;
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "caldavPassword" TEXT;
+
+ALTER TABLE event_mappings ADD COLUMN IF NOT EXISTS "sourceHref" TEXT;
+ALTER TABLE event_mappings ADD COLUMN IF NOT EXISTS "sourceEtag" TEXT;
+ALTER TABLE event_mappings ADD COLUMN IF NOT EXISTS "syncedHash" TEXT;
+ALTER TABLE event_mappings ADD COLUMN IF NOT EXISTS "conflict" JSONB;
@@ -0,0 +1,6 @@
+-- Native recurring events: per-sync recurrence mode and series mappings
+-- Migration: 016-add-native-recurrence.sql
+
+ALTER TABLE calendar_syncs ADD COLUMN IF NOT EXISTS "recurrenceMode" TEXT NOT NULL DEFAULT 'expand';
+
+ALTER TABLE event_mappings ADD COLUMN IF NOT EXISTS "isRecurring" BOOLEAN NOT NULL DEFAULT false;
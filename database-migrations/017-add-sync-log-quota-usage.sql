@@ -0,0 +1,4 @@
+-- Google API requests, retries and rate limits of each sync run
+-- Migration: 017-add-sync-log-quota-usage.sql
+
+ALTER TABLE sync_logs ADD COLUMN IF NOT EXISTS "quotaUsage" JSONB;
@@ -0,0 +1,21 @@
+-- Local cache of Google target calendars, refreshed through sync tokens
+-- Migration: 018-create-google-event-cache.sql
+
+CREATE TABLE IF NOT EXISTS google_calendar_caches (
+    "id" TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+    "userId" TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    "calendarId" TEXT NOT NULL,
+    "syncToken" TEXT,
+    "refreshedAt" TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS google_calendar_caches_user_calendar_idx
+    ON google_calendar_caches("userId", "calendarId");
+
+CREATE TABLE IF NOT EXISTS google_cached_events (
+    "cacheId" TEXT NOT NULL REFERENCES google_calendar_caches(id) ON DELETE CASCADE,
+    "eventId" TEXT NOT NULL,
+    "event" JSONB NOT NULL,
+    "updatedAt" TIMESTAMP DEFAULT NOW() NOT NULL,
+    PRIMARY KEY ("cacheId", "eventId")
+);
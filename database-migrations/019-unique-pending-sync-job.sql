@@ -0,0 +1,20 @@
+-- At most one pending (queued, running or awaiting retry) job per sync
+-- Migration: 019-unique-pending-sync-job.sql
+
+-- Concurrent enqueues may already have queued extra jobs; keep the oldest
+UPDATE sync_jobs
+SET "status" = 'dead',
+    "lastError" = 'Duplicate of an earlier pending job',
+    "finishedAt" = NOW(),
+    "updatedAt" = NOW()
+WHERE "status" IN ('queued', 'running', 'failed')
+  AND "id" NOT IN (
+    SELECT DISTINCT ON ("calendarSyncId") "id"
+    FROM sync_jobs
+    WHERE "status" IN ('queued', 'running', 'failed')
+    ORDER BY "calendarSyncId", "createdAt", "id"
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS sync_jobs_pending_sync_idx
+    ON sync_jobs("calendarSyncId")
+    WHERE "status" IN ('queued', 'running', 'failed');
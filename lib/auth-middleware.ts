@@ -150,46 +150,181 @@ export async function refreshTokenProactively(userId: string): Promise<TokenRefr
 }
 
 /**
- * Get authenticated Google client with automatic token refresh
+ * Get an OAuth client for a user's Google account, refreshing the access
+ * token when it is about to expire. Keyed by user id rather than the request
+ * session, so it works for background syncs as well as API routes.
+ * Throws `REAUTH_REQUIRED` when the stored tokens are missing or revoked.
  */
 export async function getAuthenticatedGoogleClient(userId: string) {
   const { db } = await import('./db');
   const { accounts } = await import('./db/schema');
   const { eq } = await import('drizzle-orm');
 
-  const account = await db
+  const oauth2Client = new google.auth.OAuth2(
+    process.env.GOOGLE_CLIENT_ID,
+    process.env.GOOGLE_CLIENT_SECRET
+  );
+
+  let account = await db
     .select()
     .from(accounts)
     .where(eq(accounts.userId, userId))
     .limit(1);
 
-  if (!account[0]?.access_token) {
-    throw new Error('No Google account connected');
+  if (!account[0]) {
+    console.error('❌ No Google account found in database for user:', userId);
+    throw new Error('REAUTH_REQUIRED');
   }
 
-  const oauth2Client = new google.auth.OAuth2(
-    process.env.GOOGLE_CLIENT_ID,
-    process.env.GOOGLE_CLIENT_SECRET
-  );
+  const accountData = account[0];
+  console.log('🔍 Account validation:', {
+    hasAccessToken: !!accountData.access_token,
+    hasRefreshToken: !!accountData.refresh_token,
+    expiresAt: accountData.expires_at,
+    currentTime: Math.floor(Date.now() / 1000),
+    isExpired: accountData.expires_at ? accountData.expires_at < Math.floor(Date.now() / 1000) : 'unknown'
+  });
 
+  // Check if we have minimum required tokens
+  if (!accountData.access_token || !accountData.refresh_token) {
+    console.error('❌ Missing essential tokens:', {
+      accessToken: !!accountData.access_token,
+      refreshToken: !!accountData.refresh_token
+    });
+    
+    // Clean up invalid account record
+    await db
+      .delete(accounts)
+      .where(eq(accounts.userId, userId));
+    
+    throw new Error('REAUTH_REQUIRED');
+  }
+
+  // Set initial credentials
   oauth2Client.setCredentials({
-    access_token: account[0].access_token,
-    refresh_token: account[0].refresh_token
+    access_token: accountData.access_token,
+    refresh_token: accountData.refresh_token,
   });
 
-  // Set up automatic token refresh
-  oauth2Client.on('tokens', async (tokens) => {
-    if (tokens.access_token) {
+  // Determine if we need to refresh the token
+  const now = Math.floor(Date.now() / 1000);
+  const tokenExpired = accountData.expires_at ? accountData.expires_at <= now + 300 : true; // Refresh 5 mins early
+  
+  if (tokenExpired || !accountData.access_token) {
+    console.log('🔄 Token requires refresh:', {
+      expired: tokenExpired,
+      expiresAt: accountData.expires_at,
+      currentTime: now,
+      bufferTime: now + 300
+    });
+    
+    try {
+      const { credentials } = await oauth2Client.refreshAccessToken();
+      console.log('🔄 Refresh response:', {
+        hasNewAccessToken: !!credentials.access_token,
+        hasNewRefreshToken: !!credentials.refresh_token,
+        newExpiryDate: credentials.expiry_date
+      });
+      
+      if (!credentials.access_token) {
+        throw new Error('No access token received from refresh');
+      }
+
+      // Update database with new tokens - preserve refresh token if not provided
+      const updateData: any = {
+        access_token: credentials.access_token,
+        expires_at: credentials.expiry_date ? Math.floor(credentials.expiry_date / 1000) : null,
+      };
+      
+      // Only update refresh token if we got a new one
+      if (credentials.refresh_token) {
+        updateData.refresh_token = credentials.refresh_token;
+      }
+      
       await db
         .update(accounts)
-        .set({
-          access_token: tokens.access_token,
-          expires_at: tokens.expiry_date ? Math.floor(tokens.expiry_date / 1000) : null
-        })
+        .set(updateData)
         .where(eq(accounts.userId, userId));
+      
+      // Update oauth2Client with new credentials
+      oauth2Client.setCredentials({
+        access_token: credentials.access_token,
+        refresh_token: credentials.refresh_token || accountData.refresh_token, // Keep original if no new one
+      });
+      
+      console.log('✅ Token refreshed and stored successfully');
+      
+      // Verify the refresh worked by re-fetching account data
+      account = await db
+        .select()
+        .from(accounts)
+        .where(eq(accounts.userId, userId))
+        .limit(1);
+        
+      console.log('✅ Post-refresh verification:', {
+        hasAccessToken: !!account[0]?.access_token,
+        hasRefreshToken: !!account[0]?.refresh_token,
+        newExpiresAt: account[0]?.expires_at
+      });
+      
+    } catch (refreshError: any) {
+      console.error('❌ Token refresh failed:', {
+        error: refreshError.message,
+        code: refreshError.code,
+        status: refreshError.status,
+        response: refreshError.response?.data
+      });
+      
+      // Handle specific refresh token errors
+      if (refreshError.message?.includes('invalid_grant') || 
+          refreshError.code === 400 || 
+          refreshError.response?.data?.error === 'invalid_grant') {
+        console.error('❌ Refresh token is invalid or expired');
+        
+        // Clean up invalid account
+        await db
+          .delete(accounts)
+          .where(eq(accounts.userId, userId));
+        
+        throw new Error('REAUTH_REQUIRED');
+      }
+      
+      // For other errors, provide specific guidance
+      throw new Error(`Token refresh failed: ${refreshError.message}. Please sign out and sign back in to re-authenticate.`);
     }
-  });
+  }
 
+  // Set up automatic token refresh for future requests
+  oauth2Client.on('tokens', async (tokens) => {
+    console.log('🔄 Auto-refresh triggered:', {
+      hasAccessToken: !!tokens.access_token,
+      hasRefreshToken: !!tokens.refresh_token,
+      expiryDate: tokens.expiry_date
+    });
+    
+    if (tokens.access_token) {
+      const updateData: any = {
+        access_token: tokens.access_token,
+        expires_at: tokens.expiry_date ? Math.floor(tokens.expiry_date / 1000) : null,
+      };
+      
+      // Update refresh token if provided
+      if (tokens.refresh_token) {
+        updateData.refresh_token = tokens.refresh_token;
+      }
+      
+      try {
+        await db
+          .update(accounts)
+          .set(updateData)
+          .where(eq(accounts.userId, userId));
+        console.log('✅ Auto-refresh tokens stored successfully');
+      } catch (error) {
+        console.error('❌ Failed to store auto-refreshed tokens:', error);
+      }
+    }
+  });
+  
   return oauth2Client;
 }
 
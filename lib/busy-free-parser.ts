@@ -1,5 +1,5 @@
-import ICAL from 'ical';
-import { RRule } from 'rrule';
+import { parseRawICS, expandOccurrences, FeedValidators } from './ics-parser';
+import { ICSDateValue, VTimezoneDefinitions, parseVTimezones, resolveICSDate } from './timezone';
 
 export interface BusyFreeEvent {
   uid: string;
@@ -11,18 +11,22 @@ export interface BusyFreeEvent {
   location?: string;
   attendee?: string;
   description?: string;
+  allDay?: boolean;
 }
 
 export interface BusyFreeCalendar {
   calendarName?: string;
   timezone?: string;
   events: BusyFreeEvent[];
+  notModified?: boolean; // Server answered 304 to the validators in ParseOptions; events is empty
+  validators?: FeedValidators; // ETag/Last-Modified of the downloaded feed
 }
 
 export interface ParseOptions {
   startDate?: Date;
   endDate?: Date;
   includeFreeBusy?: boolean;
+  validators?: FeedValidators; // Send If-None-Match/If-Modified-Since
 }
 
 export async function parseBusyFreeICS(
@@ -30,18 +34,34 @@ export async function parseBusyFreeICS(
   options: ParseOptions = {}
 ): Promise<BusyFreeCalendar> {
   try {
-    const response = await fetch(icsUrl, {
-      headers: {
-        'User-Agent': 'Calendar-Sync-App-BusyFree/1.0',
-      },
-    });
+    const headers: Record<string, string> = {
+      'User-Agent': 'Calendar-Sync-App-BusyFree/1.0',
+    };
+    if (options.validators?.etag) {
+      headers['If-None-Match'] = options.validators.etag;
+    }
+    if (options.validators?.lastModified) {
+      headers['If-Modified-Since'] = options.validators.lastModified;
+    }
+
+    const response = await fetch(icsUrl, { headers });
+
+    if (response.status === 304) {
+      return { events: [], notModified: true };
+    }
 
     if (!response.ok) {
       throw new Error(`Failed to fetch busy/free calendar: HTTP ${response.status} ${response.statusText}`);
     }
 
     const icsData = await response.text();
-    return parseBusyFreeData(icsData, options);
+    return {
+      ...parseBusyFreeData(icsData, options),
+      validators: {
+        etag: response.headers?.get('etag') || null,
+        lastModified: response.headers?.get('last-modified') || null,
+      },
+    };
   } catch (error) {
     if (error instanceof Error && error.message.startsWith('Failed to fetch busy/free calendar')) {
       throw error;
@@ -55,8 +75,9 @@ export function parseBusyFreeData(
   options: ParseOptions = {}
 ): BusyFreeCalendar {
   try {
-    const parsed = ICAL.parseICS(icsData);
+    const parsed = parseRawICS(icsData);
     const events: BusyFreeEvent[] = [];
+    const timezones = parseVTimezones(parsed);
     
     let calendarName: string | undefined;
     let timezone: string | undefined;
@@ -85,7 +106,10 @@ export function parseBusyFreeData(
       const component = parsed[key];
       
       if (component.type === 'VEVENT') {
-        const busyFreeEvent = parseBusyFreeEvent(component);
+        // The event's own TZID wins; floating times use the calendar timezone
+        const rawStart = component.start as ICSDateValue | undefined;
+        const eventTimezone = rawStart?.tz || (rawStart?.utc ? 'UTC' : timezone);
+        const busyFreeEvent = parseBusyFreeEvent(component, eventTimezone, timezones);
         
         if (busyFreeEvent) {
           // Handle recurring events
@@ -94,7 +118,9 @@ export function parseBusyFreeData(
               busyFreeEvent,
               component.rrule,
               options.startDate || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // 30 days ago
-              options.endDate || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) // 30 days from now
+              options.endDate || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
+              busyFreeEvent.allDay ? undefined : eventTimezone,
+              timezones
             );
             events.push(...expandedEvents);
           } else {
@@ -128,15 +154,22 @@ export function parseBusyFreeData(
   }
 }
 
-function parseBusyFreeEvent(component: any): BusyFreeEvent | null {
+function parseBusyFreeEvent(
+  component: any,
+  timezone?: string,
+  timezones: VTimezoneDefinitions = {}
+): BusyFreeEvent | null {
   try {
-    if (!component.start || !component.end) {
+    const allDay = !!component.start?.dateOnly;
+    if (!component.start || (!component.end && !allDay)) {
       return null;
     }
 
-    // Parse start and end dates
-    const start = parseICSDate(component.start);
-    const end = parseICSDate(component.end);
+    // Parse start and end dates; an all-day event without DTEND lasts one day
+    const start = parseICSDate(component.start, timezone, timezones);
+    const end = component.end
+      ? parseICSDate(component.end, component.end.tz || timezone, timezones)
+      : start && new Date(start.getTime() + 24 * 60 * 60 * 1000);
 
     if (!start || !end) {
       return null;
@@ -174,6 +207,9 @@ function parseBusyFreeEvent(component: any): BusyFreeEvent | null {
     };
 
     // Optional fields
+    if (allDay) {
+      event.allDay = true;
+    }
     if (component.location) {
       event.location = String(component.location);
     }
@@ -191,25 +227,16 @@ function parseBusyFreeEvent(component: any): BusyFreeEvent | null {
   }
 }
 
-function parseICSDate(dateValue: any): Date | null {
+function parseICSDate(
+  dateValue: any,
+  timezone?: string,
+  timezones: VTimezoneDefinitions = {}
+): Date | null {
   try {
     if (!dateValue) return null;
 
-    if (typeof dateValue === 'object' && typeof dateValue.getFullYear === 'function') {
-      // Already a Date object - extract components to avoid timezone issues
-      const year = dateValue.getFullYear();
-      const month = dateValue.getMonth();
-      const day = dateValue.getDate();
-      const hours = dateValue.getHours();
-      const minutes = dateValue.getMinutes();
-      const seconds = dateValue.getSeconds() || 0;
-      
-      return new Date(year, month, day, hours, minutes, seconds);
-    }
-
-    // Parse as string
-    const dateStr = String(dateValue);
-    return new Date(dateStr);
+    const date = resolveICSDate(dateValue, timezone, timezones);
+    return isNaN(date.getTime()) ? null : date;
   } catch (error) {
     console.error('Error parsing ICS date:', error);
     return null;
@@ -220,22 +247,23 @@ function expandRecurringBusyFreeEvent(
   event: BusyFreeEvent,
   rrule: any,
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  timezone?: string,
+  timezones: VTimezoneDefinitions = {}
 ): BusyFreeEvent[] {
   try {
-    const rule = RRule.fromString(rrule.toString());
-    const occurrences = rule.between(startDate, endDate, true);
+    const occurrences = expandOccurrences(rrule.toString(), event.start, timezone, startDate, endDate, timezones);
     
     const expandedEvents: BusyFreeEvent[] = [];
     const originalDuration = event.end.getTime() - event.start.getTime();
     
     occurrences.forEach((occurrence) => {
-      const occurrenceStart = new Date(occurrence);
-      const occurrenceEnd = new Date(occurrence.getTime() + originalDuration);
+      const occurrenceStart = occurrence.start;
+      const occurrenceEnd = new Date(occurrence.start.getTime() + originalDuration);
       
       const expandedEvent: BusyFreeEvent = {
         ...event,
-        uid: `${event.uid}-${occurrence.getTime()}`,
+        uid: `${event.uid}-${occurrence.floatingStart.getTime()}`,
         start: occurrenceStart,
         end: occurrenceEnd,
       };
@@ -6,8 +6,15 @@ import {
   createGoogleCalendarEvent,
   updateGoogleCalendarEvent,
   getExistingGoogleEvents,
+  getGoogleCalendarClientForUser,
 } from './google-calendar';
+import { createQuotaUsage, GoogleQuotaUsage } from './google-quota';
+import { buildEventKey } from './event-identity';
 import type { CalendarEvent } from './ics-parser';
+import { getSyncWindow } from './sync-window';
+import { getFeedValidators, feedCacheUpdate } from './feed-cache';
+import { withSyncLock, ReportProgress } from './sync-lock';
+import { getSyncEventAppearance } from './event-appearance';
 
 export interface BusyFreeSyncResult {
   success: boolean;
@@ -17,14 +24,28 @@ export interface BusyFreeSyncResult {
   eventsSkipped: number;
   errors: string[];
   duration: number;
+  notModified?: boolean;
+  quotaUsage?: GoogleQuotaUsage; // Set once the run talks to Google
 }
 
 export type PrivacyLevel = 'busy_only' | 'show_free_busy' | 'full_details';
 export type SyncType = 'full' | 'busy_free';
 
+/**
+ * Sync a busy/free feed into Google. Shares the per-sync lease with
+ * `syncCalendar`: throws `SYNC_IN_PROGRESS` when another run holds it.
+ */
 export async function syncBusyFreeCalendar(
   calendarSyncId: string,
   userTimeZone?: string
+): Promise<BusyFreeSyncResult> {
+  return withSyncLock(calendarSyncId, reportProgress => runBusyFreeSync(calendarSyncId, userTimeZone, reportProgress));
+}
+
+async function runBusyFreeSync(
+  calendarSyncId: string,
+  userTimeZone: string | undefined,
+  reportProgress: ReportProgress
 ): Promise<BusyFreeSyncResult> {
   const startTime = Date.now();
   const result: BusyFreeSyncResult = {
@@ -68,23 +89,35 @@ export async function syncBusyFreeCalendar(
     
     console.log(`🔐 Sync type: ${syncType}, Privacy level: ${privacyLevel}`);
 
-    // Parse busy/free calendar data for the current month
-    const now = new Date();
-    const currentYear = now.getFullYear();
-    const currentMonth = now.getMonth();
-    
-    const monthStart = new Date(currentYear, currentMonth, 1);
-    const monthEnd = new Date(currentYear, currentMonth + 1, 0, 23, 59, 59);
+    // Parse busy/free calendar data for the configured rolling window
+    const { start: windowStart, end: windowEnd } = getSyncWindow(config);
     
     console.log(`📥 Fetching busy/free events from: ${config.icsUrl}`);
-    console.log(`📅 Date range: ${monthStart.toISOString().split('T')[0]} to ${monthEnd.toISOString().split('T')[0]}`);
+    console.log(`📅 Date range: ${windowStart.toISOString().split('T')[0]} to ${windowEnd.toISOString().split('T')[0]}`);
     console.log(`🌍 User timezone: ${userTimeZone || 'default'}`);
     
+    await reportProgress({ phase: 'fetching' });
     const busyFreeData = await parseBusyFreeICS(config.icsUrl, {
-      startDate: monthStart,
-      endDate: monthEnd,
-      includeFreeBusy: privacyLevel !== 'busy_only'
+      startDate: windowStart,
+      endDate: windowEnd,
+      includeFreeBusy: privacyLevel !== 'busy_only',
+      validators: getFeedValidators(config),
     });
+
+    if (busyFreeData.notModified) {
+      console.log('📭 Feed not modified since the last sync, nothing to do');
+      result.notModified = true;
+      result.success = true;
+      result.duration = Date.now() - startTime;
+
+      await db
+        .update(calendarSyncs)
+        .set({ lastSync: new Date(), syncErrors: null })
+        .where(eq(calendarSyncs.id, calendarSyncId));
+
+      await logBusyFreeSyncResult(calendarSyncId, result);
+      return result;
+    }
     
     console.log(`📊 Parsed ${busyFreeData.events.length} busy/free events`);
     console.log(`🕰️ Calendar timezone: ${busyFreeData.timezone || 'not specified'}`);
@@ -103,10 +136,19 @@ export async function syncBusyFreeCalendar(
     if (busyFreeData.events.length === 0) {
       result.success = true;
       result.duration = Date.now() - startTime;
+      await db
+        .update(calendarSyncs)
+        .set(feedCacheUpdate(busyFreeData.validators, true))
+        .where(eq(calendarSyncs.id, calendarSyncId));
       await logBusyFreeSyncResult(calendarSyncId, result);
       return result;
     }
 
+    // Act as the sync owner rather than the request session, so cron runs work too
+    result.quotaUsage = createQuotaUsage();
+    const calendar = await getGoogleCalendarClientForUser(config.userId, result.quotaUsage);
+    const appearance = getSyncEventAppearance(config);
+
     // Process events in batches with duplicate checking
     console.log(`🔄 Processing ${busyFreeData.events.length} busy/free events...`);
     const BATCH_SIZE = 5;
@@ -119,15 +161,23 @@ export async function syncBusyFreeCalendar(
     console.log(`📦 Processing ${eventBatches.length} batches of ${BATCH_SIZE} events each`);
 
     for (let batchIndex = 0; batchIndex < eventBatches.length; batchIndex++) {
+      await reportProgress({
+        phase: 'processing',
+        processed: batchIndex * BATCH_SIZE,
+        total: busyFreeData.events.length,
+      });
+
       const batch = eventBatches[batchIndex];
       console.log(`🔄 Processing batch ${batchIndex + 1}/${eventBatches.length} (${batch.length} events)`);
       
       // Get existing events for duplicate detection
       const existingEvents = await getExistingGoogleEvents(
         config.googleCalendarId,
-        monthStart,
-        monthEnd,
-        0
+        windowStart,
+        windowEnd,
+        0,
+        { syncId: calendarSyncId, userId: config.userId },
+        calendar
       );
       console.log(`📊 Found ${Object.keys(existingEvents).length} existing events for comparison`);
       
@@ -143,53 +193,18 @@ export async function syncBusyFreeCalendar(
           const calendarEvent: CalendarEvent = {
             uid: busyFreeEvent.uid,
             summary: privacyCompliantEvent.summary || 'Busy',
-            description: `${privacyCompliantEvent.description || ''}\n\nBusy/Free Status: ${busyFreeEvent.status}\nOriginal UID: ${busyFreeEvent.uid}`.trim(),
+            description: `${privacyCompliantEvent.description || ''}\n\nBusy/Free Status: ${busyFreeEvent.status}`.trim(),
             start: busyFreeEvent.start,
             end: busyFreeEvent.end,
             location: privacyLevel === 'full_details' ? busyFreeEvent.location : undefined,
             status: 'CONFIRMED',
             sourceTimezone: busyFreeData.timezone,
+            allDay: busyFreeEvent.allDay,
           };
 
-          // TIMEZONE-AWARE DUPLICATE DETECTION:
-          // We need to generate the key using the same timezone conversion that createGoogleCalendarEvent will use
-          // This ensures duplicate detection matches what gets stored in Google Calendar
-          const convertToUserTimezone = (sourceDate: Date, sourceTimezone?: string) => {
-            // If we have timezone info from the source calendar, use it for conversion
-            if (sourceTimezone && userTimeZone && sourceTimezone !== userTimeZone) {
-              // For now, handle common timezone conversions
-              // This can be expanded with a proper timezone library if needed
-              const hours = sourceDate.getHours();
-              const minutes = sourceDate.getMinutes();
-              
-              // Simple timezone offset conversion (this should ideally use a timezone library)
-              if (sourceTimezone === 'America/Phoenix' && userTimeZone) {
-                // Arizona is UTC-7 (no DST)
-                const arizonaOffset = -7;
-                const userOffset = new Date().getTimezoneOffset() / -60;
-                const timeDifference = userOffset - arizonaOffset;
-                
-                const convertedTime = new Date(
-                  sourceDate.getFullYear(),
-                  sourceDate.getMonth(),
-                  sourceDate.getDate(),
-                  hours + timeDifference,
-                  minutes,
-                  sourceDate.getSeconds()
-                );
-                
-                return convertedTime;
-              }
-            }
-            
-            // Return original date if no conversion needed
-            return sourceDate;
-          };
-          
-          // Generate key using timezone-adjusted time (for duplicate detection only)
-          const adjustedStartForKey = convertToUserTimezone(busyFreeEvent.start, busyFreeData.timezone);
-          const uniqueKey = `${busyFreeEvent.uid}:${adjustedStartForKey.toISOString()}`;
-          console.log(`🔍 Checking for duplicate with timezone-adjusted key: ${uniqueKey}`);
+          // Same instant-based key that getExistingGoogleEvents derives from Google's start time
+          const uniqueKey = buildEventKey(busyFreeEvent.uid, busyFreeEvent.start);
+          console.log(`🔍 Checking for duplicate with key: ${uniqueKey}`);
 
           if (existingEvents[uniqueKey]) {
             // Update existing event
@@ -199,7 +214,10 @@ export async function syncBusyFreeCalendar(
               config.googleCalendarId,
               existingEventId,
               calendarEvent,
-              userTimeZone
+              userTimeZone,
+              calendarSyncId,
+              calendar,
+              appearance
             );
             return { 
               type: 'updated', 
@@ -212,7 +230,10 @@ export async function syncBusyFreeCalendar(
             const createdEventId = await createGoogleCalendarEvent(
               config.googleCalendarId, 
               calendarEvent, 
-              userTimeZone
+              userTimeZone,
+              calendarSyncId,
+              calendar,
+              appearance
             );
             console.log(`✅ Created busy/free event with ID: ${createdEventId}`);
             
@@ -262,6 +283,7 @@ export async function syncBusyFreeCalendar(
       .set({ 
         lastSync: new Date(),
         syncErrors: result.errors.length > 0 ? result.errors : null,
+        ...feedCacheUpdate(busyFreeData.validators, result.errors.length === 0),
       })
       .where(eq(calendarSyncs.id, calendarSyncId));
 
@@ -294,7 +316,8 @@ async function logBusyFreeSyncResult(calendarSyncId: string, result: BusyFreeSyn
       eventsUpdated: result.eventsUpdated.toString(),
       errors: result.errors.length > 0 ? result.errors : null,
       duration: `${result.duration}ms`,
-      status: result.success ? 'success' : 'error',
+      status: result.notModified ? 'not_modified' : result.success ? 'success' : 'error',
+      quotaUsage: result.quotaUsage ?? null,
     };
 
     await db.insert(syncLogs).values(logData);
@@ -305,7 +328,7 @@ async function logBusyFreeSyncResult(calendarSyncId: string, result: BusyFreeSyn
     console.log(`  • Events updated: ${result.eventsUpdated}`);
     console.log(`  • Events skipped: ${result.eventsSkipped}`);
     console.log(`  • Duration: ${result.duration}ms`);
-    console.log(`  • Status: ${result.success ? 'success' : 'error'}`);
+    console.log(`  • Status: ${result.notModified ? 'not_modified' : result.success ? 'success' : 'error'}`);
     
     if (result.errors.length > 0) {
       console.log(`  • Errors: ${result.errors.length}`);
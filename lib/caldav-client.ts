@@ -0,0 +1,188 @@
+import { parseICSCalendar, CalendarEvent } from './ics-parser';
+
+/**
+ * Minimal CalDAV client
+ *
+ * Just enough of RFC 4791 for two-way syncs: list the events of a calendar
+ * collection in a time range (REPORT calendar-query) and write or delete
+ * single resources. Writes carry ETag preconditions, so an edit made on the
+ * server since the listing is never overwritten; such writes fail with
+ * `CALDAV_PRECONDITION_FAILED` and are retried by the next run.
+ */
+
+export interface CalDAVCredentials {
+  username: string;
+  password: string;
+}
+
+export interface CalDAVResource {
+  href: string;
+  etag: string;
+}
+
+export interface CalDAVEvent extends CalDAVResource {
+  data: string; // calendar-data exactly as stored on the server
+  event: CalendarEvent; // The main VEVENT of the resource
+}
+
+export interface CalDAVCalendar {
+  listEvents(timeMin: Date, timeMax: Date): Promise<CalDAVEvent[]>;
+  getEvent(href: string): Promise<CalDAVEvent | null>; // null when the resource is gone
+  createEvent(uid: string, data: string): Promise<CalDAVResource>;
+  updateEvent(resource: CalDAVResource, data: string): Promise<CalDAVResource>;
+  deleteEvent(resource: CalDAVResource): Promise<void>;
+}
+
+type Fetch = (url: string, init: RequestInit) => Promise<Response>;
+
+function formatTimeRange(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#13;/g, '\r')
+    .replace(/&amp;/g, '&');
+}
+
+function xmlElement(xml: string, name: string): string | undefined {
+  const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`));
+  return match ? unescapeXml(match[1].trim()) : undefined;
+}
+
+/**
+ * Resources of a calendar-query multistatus response that returned their
+ * calendar data, with hrefs resolved against the collection URL. Hrefs on
+ * another origin are skipped: requests to them would carry the credentials.
+ */
+export function parseMultiStatus(xml: string, collectionUrl: string): Array<CalDAVResource & { data: string }> {
+  const responses = xml.match(/<(?:[\w-]+:)?response\b[^>]*>[\s\S]*?<\/(?:[\w-]+:)?response>/g) || [];
+  const origin = new URL(collectionUrl).origin;
+
+  return responses.flatMap(response => {
+    const href = xmlElement(response, 'href');
+    const data = xmlElement(response, 'calendar-data');
+    if (!href || !data) return [];
+
+    const url = new URL(href, collectionUrl);
+    if (url.origin !== origin) {
+      console.warn(`⚠️ Skipping CalDAV resource outside the server: ${url.origin}`);
+      return [];
+    }
+
+    return [{
+      href: url.toString(),
+      etag: xmlElement(response, 'getetag') || '',
+      data,
+    }];
+  });
+}
+
+/** Main (non-override) VEVENT of a calendar resource */
+function mainEvent(data: string): CalendarEvent | undefined {
+  return parseICSCalendar(data).events.find(event => !event.recurrenceId);
+}
+
+export function createCalDAVCalendar(
+  collectionUrl: string,
+  credentials?: CalDAVCredentials | null,
+  fetchImpl: Fetch = fetch
+): CalDAVCalendar {
+  const baseUrl = collectionUrl.replace(/^webcal:/i, 'https:').replace(/\/?$/, '/');
+  const authorization = credentials
+    ? `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`
+    : undefined;
+
+  const origin = new URL(baseUrl).origin;
+
+  const request = async (url: string, init: RequestInit, action: string, acceptedStatus?: number): Promise<Response> => {
+    // Resource hrefs are stored between runs; never send the credentials elsewhere
+    if (new URL(url).origin !== origin) {
+      throw new Error(`Failed to ${action}: ${url} is not on the CalDAV server`);
+    }
+    const response = await fetchImpl(url, {
+      ...init,
+      headers: {
+        'User-Agent': 'Calendar-Sync-App/1.0',
+        ...(authorization && { Authorization: authorization }),
+        ...init.headers,
+      },
+    });
+
+    if (response.status === 412) {
+      throw new Error('CALDAV_PRECONDITION_FAILED');
+    }
+    if (!response.ok && response.status !== acceptedStatus) {
+      throw new Error(`Failed to ${action}: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  };
+
+  const writeEvent = async (href: string, data: string, precondition: Record<string, string>, action: string) => {
+    const response = await request(href, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'text/calendar; charset=utf-8', ...precondition },
+      body: data,
+    }, action);
+
+    // Servers may omit the new ETag; the next listing picks it up
+    return { href, etag: response.headers.get('etag') || '' };
+  };
+
+  return {
+    async listEvents(timeMin, timeMax) {
+      const body = `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop><d:getetag/><c:calendar-data/></d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">
+        <c:time-range start="${formatTimeRange(timeMin)}" end="${formatTimeRange(timeMax)}"/>
+      </c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`;
+
+      const response = await request(baseUrl, {
+        method: 'REPORT',
+        headers: { Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' },
+        body,
+      }, 'list CalDAV events');
+
+      return parseMultiStatus(await response.text(), baseUrl).flatMap(resource => {
+        const event = mainEvent(resource.data);
+        return event ? [{ ...resource, event }] : [];
+      });
+    },
+
+    async getEvent(href) {
+      const response = await request(href, { method: 'GET' }, 'read CalDAV event', 404);
+      if (response.status === 404) return null;
+
+      const data = await response.text();
+      const event = mainEvent(data);
+      return event ? { href, etag: response.headers.get('etag') || '', data, event } : null;
+    },
+
+    createEvent(uid, data) {
+      const href = new URL(`${encodeURIComponent(uid)}.ics`, baseUrl).toString();
+      return writeEvent(href, data, { 'If-None-Match': '*' }, 'create CalDAV event');
+    },
+
+    updateEvent(resource, data) {
+      return writeEvent(resource.href, data, resource.etag ? { 'If-Match': resource.etag } : {}, 'update CalDAV event');
+    },
+
+    async deleteEvent(resource) {
+      await request(resource.href, {
+        method: 'DELETE',
+        headers: resource.etag ? { 'If-Match': resource.etag } : {},
+      }, 'delete CalDAV event', 404); // Already gone
+    },
+  };
+}
@@ -7,6 +7,8 @@ import {
   jsonb,
   integer,
   primaryKey,
+  uniqueIndex,
+  index,
 } from 'drizzle-orm/pg-core';
 
 export const users = pgTable('users', {
@@ -58,8 +60,28 @@ export const calendarSyncs = pgTable('calendar_syncs', {
   icsUrl: text('icsUrl').notNull(),
   googleCalendarId: text('googleCalendarId').notNull(),
   isActive: boolean('isActive').default(true).notNull(),
-  syncType: text('syncType').default('full').notNull(), // 'full' or 'busy_free'
+  syncType: text('syncType').default('full').notNull(), // 'full', 'busy_free' or 'two_way' (icsUrl is then a CalDAV collection)
   privacyLevel: text('privacyLevel').default('busy_only'), // 'busy_only', 'show_free_busy', 'full_details'
+  syncDaysPast: integer('syncDaysPast').default(7).notNull(), // Rolling window: days before today
+  syncDaysFuture: integer('syncDaysFuture').default(30).notNull(), // Rolling window: days after today
+  deleteRemovedEvents: boolean('deleteRemovedEvents').default(true).notNull(), // Delete Google copies of events removed from the feed
+  filterRules: jsonb('filterRules'), // Include/exclude rules for feed events (see lib/event-filters.ts); null = keep all
+  eventTemplates: jsonb('eventTemplates'), // Summary/description/location templates (see lib/event-templates.ts); null = copy verbatim
+  eventAppearance: jsonb('eventAppearance'), // Color, reminders, visibility, transparency (see lib/event-appearance.ts); null = calendar defaults
+  sources: jsonb('sources'), // Tagged ICS feeds merged by this sync (see lib/sync-sources.ts); null = icsUrl only
+  recurrenceMode: text('recurrenceMode').default('expand').notNull(), // 'expand' (one event per occurrence) or 'native' (recurring Google events)
+  conflictPolicy: text('conflictPolicy').default('source_wins').notNull(), // Two-way syncs: 'source_wins', 'google_wins', 'newest_wins' or 'manual'
+  caldavUsername: text('caldavUsername'), // Two-way syncs: CalDAV login
+  caldavPassword: text('caldavPassword'), // Two-way syncs: CalDAV password, encrypted (see lib/secrets.ts)
+  feedEtag: text('feedEtag'), // ETag of the last feed processed without errors
+  feedLastModified: text('feedLastModified'), // Last-Modified of the last feed processed without errors
+  feedFetchedAt: timestamp('feedFetchedAt', { mode: 'date' }), // When the validators above were stored
+  schedule: text('schedule').default('daily').notNull(), // 'hourly', 'daily', 'weekly' or 'custom'
+  scheduleCron: text('scheduleCron'), // Five-field cron expression (UTC) for 'custom' schedules
+  nextRunAt: timestamp('nextRunAt', { mode: 'date' }), // When the dispatcher should run this sync next; null = as soon as possible
+  lockedBy: text('lockedBy'), // Run currently holding the sync lease
+  lockedUntil: timestamp('lockedUntil', { mode: 'date' }), // Lease expiry; renewed while the run reports progress
+  syncProgress: jsonb('syncProgress'), // Progress of the running sync ({ phase, processed, total })
   lastSync: timestamp('lastSync', { mode: 'date' }),
   syncErrors: jsonb('syncErrors'),
   createdAt: timestamp('createdAt', { mode: 'date' }).defaultNow().notNull(),
@@ -72,11 +94,15 @@ export const syncLogs = pgTable('sync_logs', {
   eventsProcessed: text('eventsProcessed').notNull().default('0'),
   eventsCreated: text('eventsCreated').notNull().default('0'),
   eventsUpdated: text('eventsUpdated').notNull().default('0'),
+  eventsDeleted: text('eventsDeleted').notNull().default('0'),
   errors: jsonb('errors'),
   duration: text('duration'),
   status: text('status').notNull(),
+  quotaUsage: jsonb('quotaUsage'), // Google API requests of the run (GoogleQuotaUsage)
   createdAt: timestamp('createdAt', { mode: 'date' }).defaultNow().notNull(),
-});
+}, (table) => ({
+  syncCreatedIdx: index('sync_logs_sync_created_idx').on(table.calendarSyncId, table.createdAt),
+}));
 
 // Event tracking table for duplicate resolution
 export const eventMappings = pgTable('event_mappings', {
@@ -89,11 +115,21 @@ export const eventMappings = pgTable('event_mappings', {
   startDateTime: timestamp('startDateTime', { mode: 'date' }).notNull(),
   endDateTime: timestamp('endDateTime', { mode: 'date' }).notNull(),
   location: text('location'),
+  sourceTag: text('sourceTag'), // Source the event was written for (multi-source syncs)
+  isRecurring: boolean('isRecurring').default(false).notNull(), // A whole series written as a recurring Google event; startDateTime is the series start
+  sourceHref: text('sourceHref'), // Two-way syncs: CalDAV resource of the event
+  sourceEtag: text('sourceEtag'), // Two-way syncs: ETag of that resource when last reconciled
+  syncedHash: text('syncedHash'), // Two-way syncs: revision both sides had after the last run (see lib/two-way-sync.ts)
+  conflict: jsonb('conflict'), // Two-way syncs: unresolved edit on both sides
   eventHash: text('eventHash').notNull(), // SHA-256 hash for quick comparison
   fuzzyHash: text('fuzzyHash').notNull(), // Simplified hash for fuzzy matching
+  contentHash: text('contentHash'), // Hash of everything last written to Google; unchanged events are skipped
   lastSyncedAt: timestamp('lastSyncedAt', { mode: 'date' }).defaultNow().notNull(),
   createdAt: timestamp('createdAt', { mode: 'date' }).defaultNow().notNull(),
-});
+}, (table) => ({
+  // One mapping per source occurrence; upserts target this index
+  syncEventIdx: uniqueIndex('event_mappings_sync_event_idx').on(table.calendarSyncId, table.sourceUid, table.startDateTime),
+}));
 
 // Duplicate resolution logs
 export const duplicateResolutions = pgTable('duplicate_resolutions', {
@@ -172,4 +208,51 @@ export const busyFreeSyncs = pgTable('busy_free_syncs', {
   sourceTimezone: text('sourceTimezone'),
   lastSyncedAt: timestamp('lastSyncedAt', { mode: 'date' }).defaultNow().notNull(),
   createdAt: timestamp('createdAt', { mode: 'date' }).defaultNow().notNull(),
-});
\ No newline at end of file
+});
+// Durable queue of sync runs (manual and scheduled), processed by lib/sync-jobs.ts
+export const syncJobs = pgTable('sync_jobs', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()::text`),
+  calendarSyncId: text('calendarSyncId').notNull().references(() => calendarSyncs.id, { onDelete: 'cascade' }),
+  trigger: text('trigger').notNull(), // 'manual' or 'schedule'
+  status: text('status').default('queued').notNull(), // 'queued', 'running', 'succeeded', 'failed' (retry pending), 'dead'
+  attempts: integer('attempts').default(0).notNull(),
+  maxAttempts: integer('maxAttempts').default(5).notNull(),
+  runAt: timestamp('runAt', { mode: 'date' }).defaultNow().notNull(), // Not picked up before this time (retry backoff)
+  lockedBy: text('lockedBy'), // Worker running the job
+  lockedAt: timestamp('lockedAt', { mode: 'date' }),
+  userTimeZone: text('userTimeZone'),
+  lastError: text('lastError'),
+  result: jsonb('result'), // SyncResult of the successful run
+  createdAt: timestamp('createdAt', { mode: 'date' }).defaultNow().notNull(),
+  updatedAt: timestamp('updatedAt', { mode: 'date' }).defaultNow().notNull(),
+  finishedAt: timestamp('finishedAt', { mode: 'date' }),
+}, (table) => ({
+  // Workers look up due jobs by status and runAt
+  statusRunAtIdx: index('sync_jobs_status_run_at_idx').on(table.status, table.runAt),
+  calendarSyncIdx: index('sync_jobs_calendar_sync_idx').on(table.calendarSyncId),
+  // At most one pending job per sync, even when two requests enqueue at once
+  pendingSyncIdx: uniqueIndex('sync_jobs_pending_sync_idx')
+    .on(table.calendarSyncId)
+    .where(sql`"status" IN ('queued', 'running', 'failed')`),
+}));
+
+// Target calendars read through Google sync tokens (see lib/google-event-cache.ts)
+export const googleCalendarCaches = pgTable('google_calendar_caches', {
+  id: text('id').primaryKey().default(sql`gen_random_uuid()::text`),
+  userId: text('userId').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  calendarId: text('calendarId').notNull(), // Google Calendar ID
+  syncToken: text('syncToken'), // nextSyncToken of the last listing; null until the first full listing
+  refreshedAt: timestamp('refreshedAt', { mode: 'date' }).defaultNow().notNull(),
+}, (table) => ({
+  userCalendarIdx: uniqueIndex('google_calendar_caches_user_calendar_idx').on(table.userId, table.calendarId),
+}));
+
+// Synced events of a cached calendar, as Google last returned them
+export const googleCachedEvents = pgTable('google_cached_events', {
+  cacheId: text('cacheId').notNull().references(() => googleCalendarCaches.id, { onDelete: 'cascade' }),
+  eventId: text('eventId').notNull(), // Google event ID
+  event: jsonb('event').notNull(), // calendar_v3.Schema$Event
+  updatedAt: timestamp('updatedAt', { mode: 'date' }).defaultNow().notNull(),
+}, (table) => ({
+  compoundKey: primaryKey({ columns: [table.cacheId, table.eventId] }),
+}));
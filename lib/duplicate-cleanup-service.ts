@@ -1,9 +1,10 @@
 import { google } from 'googleapis';
-import { getGoogleCalendarClient } from './google-calendar';
+import { getGoogleCalendarClient, GoogleCalendarClient } from './google-calendar';
 import { db } from './db';
 import { calendarSyncs, eventMappings, duplicateResolutions } from './db/schema';
 import { eq, sql, and, between, or, like } from 'drizzle-orm';
-import crypto from 'crypto';
+import { getSourceUid } from './event-identity';
+import { generateEventHash, generateFuzzyHash } from './event-mappings';
 
 export interface DuplicateEvent {
   id: string;
@@ -78,6 +79,11 @@ export class DuplicateCleanupService {
   private readonly maxEventsPerRequest = 2500;
   private readonly maxBatchSize = 100;
 
+  /**
+   * @param client Calendar client of the calendar owner; defaults to the signed-in user's
+   */
+  constructor(private readonly client?: GoogleCalendarClient) {}
+
   /**
    * Generates a consistent hash for event comparison
    */
@@ -87,33 +93,14 @@ export class DuplicateCleanupService {
     description?: string, 
     location?: string
   ): string {
-    const normalizedTitle = title.trim().toLowerCase();
-    const startTime = startDateTime.toISOString();
-    const normalizedDesc = description?.trim().toLowerCase() || '';
-    const normalizedLocation = location?.trim().toLowerCase() ?? '';
-    
-    const content = `${normalizedTitle}|${startTime}|${normalizedDesc}|${normalizedLocation}`;
-    return crypto.createHash('sha256').update(content).digest('hex');
+    return generateEventHash(title, startDateTime, description, location);
   }
 
   /**
    * Generates a fuzzy hash for similar event detection
    */
   private generateFuzzyHash(title: string, startDateTime: Date): string {
-    // Remove common words and normalize for fuzzy matching
-    const normalizedTitle = title
-      .toLowerCase()
-      .replace(/\b(the|and|or|a|an|in|on|at|to|for|of|with|by)\b/g, '')
-      .replace(/[^\w\s]/g, '')
-      .replace(/\s+/g, ' ')
-      .trim();
-
-    // Round start time to nearest hour for fuzzy matching
-    const roundedTime = new Date(startDateTime);
-    roundedTime.setMinutes(0, 0, 0);
-    
-    const content = `${normalizedTitle}|${roundedTime.toISOString()}`;
-    return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+    return generateFuzzyHash(title, startDateTime);
   }
 
   /**
@@ -123,7 +110,7 @@ export class DuplicateCleanupService {
     calendarIds: string[],
     dateRange?: { start: Date; end: Date }
   ): Promise<DuplicateEvent[]> {
-    const calendar = await getGoogleCalendarClient();
+    const calendar = this.client ?? await getGoogleCalendarClient();
     const allEvents: DuplicateEvent[] = [];
 
     const defaultStart = dateRange?.start || new Date(Date.now() - 90 * 24 * 60 * 60 * 1000); // 90 days ago
@@ -152,7 +139,7 @@ export class DuplicateCleanupService {
           const endDateTime = new Date(event.end?.dateTime || event.start.dateTime);
           
           // Extract source UID if available
-          const sourceUid = event.description?.match(/Original UID: (.+)/)?.[1];
+          const sourceUid = getSourceUid(event);
 
           const duplicateEvent: DuplicateEvent = {
             id: event.id,
@@ -263,10 +250,10 @@ export class DuplicateCleanupService {
       }
     }
 
-    // Pattern-based matching for events with "Original UID:" in description
+    // Pattern-based matching for sync-created events (extended properties or "Original UID:" marker)
     const patternEvents = events.filter(event => 
       !processedEvents.has(event.id) && 
-      event.description?.includes('Original UID:')
+      event.sourceUid
     );
 
     const uidGroups = new Map<string, DuplicateEvent[]>();
@@ -419,7 +406,7 @@ export class DuplicateCleanupService {
    */
   async createBackup(groups: DuplicateGroup[]): Promise<BackupData> {
     const backupId = `backup_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
-    const calendar = await getGoogleCalendarClient();
+    const calendar = this.client ?? await getGoogleCalendarClient();
     const backupEvents: BackupData['events'] = [];
 
     for (const group of groups) {
@@ -544,7 +531,7 @@ export class DuplicateCleanupService {
       }
 
       // Actual deletion for interactive and batch modes
-      const calendar = await getGoogleCalendarClient();
+      const calendar = this.client ?? await getGoogleCalendarClient();
       
       for (const group of finalGroups) {
         console.log(`🗑️ Processing group ${group.groupId} (${group.matchType} match, ${group.confidence}% confidence)`);
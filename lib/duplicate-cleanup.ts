@@ -1,5 +1,6 @@
-import { getGoogleCalendarClient } from './google-calendar';
+import { getGoogleCalendarClient, GoogleCalendarClient } from './google-calendar';
 import { calendar_v3 } from 'googleapis';
+import { getSourceUid } from './event-identity';
 
 export interface DuplicateGroup {
   primaryEvent: calendar_v3.Schema$Event;
@@ -43,8 +44,13 @@ export interface CleanupAnalysis {
 
 export class DuplicateCleanupService {
   private options: CleanupOptions;
+  private client?: GoogleCalendarClient;
 
-  constructor(options: Partial<CleanupOptions> = {}) {
+  /**
+   * @param client Calendar client of the calendar owner; defaults to the signed-in user's
+   */
+  constructor(options: Partial<CleanupOptions> = {}, client?: GoogleCalendarClient) {
+    this.client = client;
     this.options = {
       mode: 'dry-run',
       titlePatterns: [],
@@ -232,7 +238,7 @@ export class DuplicateCleanupService {
    */
   private async getCalendarEvents(calendarId: string): Promise<calendar_v3.Schema$Event[]> {
     try {
-      const calendar = await getGoogleCalendarClient();
+      const calendar = this.client ?? await getGoogleCalendarClient();
       
       const params: any = {
         calendarId,
@@ -404,18 +410,15 @@ export class DuplicateCleanupService {
   private isPatternMatch(event1: calendar_v3.Schema$Event, event2: calendar_v3.Schema$Event): number {
     let confidence = 0;
 
-    // Check for "Original UID:" pattern in descriptions
-    const hasOriginalUID1 = event1.description?.includes('Original UID:');
-    const hasOriginalUID2 = event2.description?.includes('Original UID:');
+    // Check for sync-created events (extended properties or "Original UID:" marker)
+    const uid1 = getSourceUid(event1);
+    const uid2 = getSourceUid(event2);
 
-    if (hasOriginalUID1 && hasOriginalUID2) {
+    if (uid1 && uid2) {
       confidence += 0.4;
 
-      // Extract and compare original UIDs
-      const uid1 = event1.description?.match(/Original UID: (.+)/)?.[1];
-      const uid2 = event2.description?.match(/Original UID: (.+)/)?.[1];
-
-      if (uid1 && uid2 && uid1 === uid2) {
+      // Compare original UIDs
+      if (uid1 === uid2) {
         confidence += 0.5; // High confidence for same original UID
       }
     }
@@ -486,7 +489,7 @@ export class DuplicateCleanupService {
    */
   private async deleteEvent(calendarId: string, eventId: string): Promise<void> {
     try {
-      const calendar = await getGoogleCalendarClient();
+      const calendar = this.client ?? await getGoogleCalendarClient();
       await calendar.events.delete({
         calendarId,
         eventId,
@@ -537,9 +540,10 @@ export class DuplicateCleanupService {
  */
 export async function quickCleanupDuplicates(
   calendarIds: string[],
-  options: Partial<CleanupOptions> = {}
+  options: Partial<CleanupOptions> = {},
+  client?: GoogleCalendarClient
 ): Promise<CleanupResult> {
-  const service = new DuplicateCleanupService(options);
+  const service = new DuplicateCleanupService(options, client);
   return service.cleanupDuplicates(calendarIds);
 }
 
@@ -548,8 +552,9 @@ export async function quickCleanupDuplicates(
  */
 export async function analyzeDuplicates(
   calendarIds: string[],
-  options: Partial<CleanupOptions> = {}
+  options: Partial<CleanupOptions> = {},
+  client?: GoogleCalendarClient
 ): Promise<CleanupAnalysis> {
-  const service = new DuplicateCleanupService(options);
+  const service = new DuplicateCleanupService(options, client);
   return service.analyzeDuplicates(calendarIds);
 }
\ No newline at end of file
@@ -1,7 +1,9 @@
 import { CalendarEvent } from './ics-parser';
-import { getGoogleCalendarClient } from './google-calendar';
+import { getGoogleCalendarClient, GoogleCalendarClient } from './google-calendar';
 import { calendar_v3 } from 'googleapis';
 import { CleanupAnalysis } from './duplicate-cleanup';
+import { normalizeTimezone, formatDateOnly } from './timezone';
+import { getSourceUid } from './event-identity';
 
 export interface DuplicateResolutionResult {
   isDuplicate: boolean;
@@ -34,9 +36,14 @@ export const DEFAULT_DUPLICATE_OPTIONS: DuplicateDetectionOptions = {
  */
 export class DuplicateResolver {
   private options: DuplicateDetectionOptions;
+  private client?: GoogleCalendarClient;
 
-  constructor(options: Partial<DuplicateDetectionOptions> = {}) {
+  /**
+   * @param client Calendar client of the sync owner; defaults to the signed-in user's
+   */
+  constructor(options: Partial<DuplicateDetectionOptions> = {}, client?: GoogleCalendarClient) {
     this.options = { ...DEFAULT_DUPLICATE_OPTIONS, ...options };
+    this.client = client;
   }
 
   /**
@@ -180,14 +187,9 @@ export class DuplicateResolver {
     incomingEvent: CalendarEvent,
     existingEvent: calendar_v3.Schema$Event
   ): { matches: boolean; reason: string } {
-    if (!existingEvent.description) {
-      return { matches: false, reason: 'No description in existing event' };
-    }
-
-    // Check for original UID in description
-    const uidMatch = existingEvent.description.match(/Original UID: (.+)/);
-    if (uidMatch) {
-      const existingUID = uidMatch[1].trim();
+    // Source UID from the extended properties, or the legacy description marker
+    const existingUID = getSourceUid(existingEvent);
+    if (existingUID) {
       
       // Handle recurring event UIDs (remove timestamp suffix)
       const incomingBaseUID = incomingEvent.uid.split('-')[0];
@@ -297,7 +299,7 @@ export class DuplicateResolver {
     timeMax: Date
   ): Promise<calendar_v3.Schema$Event[]> {
     try {
-      const calendar = await getGoogleCalendarClient();
+      const calendar = this.client ?? await getGoogleCalendarClient();
       
       const response = await calendar.events.list({
         calendarId,
@@ -353,8 +355,11 @@ export class DuplicateResolver {
 /**
  * Utility function to create a duplicate resolver with custom options
  */
-export function createDuplicateResolver(options?: Partial<DuplicateDetectionOptions>): DuplicateResolver {
-  return new DuplicateResolver(options);
+export function createDuplicateResolver(
+  options?: Partial<DuplicateDetectionOptions>,
+  client?: GoogleCalendarClient
+): DuplicateResolver {
+  return new DuplicateResolver(options, client);
 }
 
 /**
@@ -365,9 +370,10 @@ export async function findDuplicateMeeting(
   calendarId: string,
   timeMin: Date,
   timeMax: Date,
-  options?: Partial<DuplicateDetectionOptions>
+  options?: Partial<DuplicateDetectionOptions>,
+  client?: GoogleCalendarClient
 ): Promise<DuplicateResolutionResult> {
-  const resolver = new DuplicateResolver(options);
+  const resolver = new DuplicateResolver(options, client);
   return resolver.findDuplicateMeeting(incomingEvent, calendarId, timeMin, timeMax);
 }
 
@@ -381,28 +387,8 @@ export function mergeEventData(
 ): calendar_v3.Schema$Event {
   console.log(`🔄 Merging event data for: "${incomingEvent.summary}"`);
   
-  // Convert timezone (reuse logic from google-calendar.ts)
-  const convertToUserTimezone = (sourceDate: Date) => {
-    const hours = sourceDate.getHours();
-    const minutes = sourceDate.getMinutes();
-    
-    // Arizona (MST) is UTC-7, Madrid is UTC+1/+2 (depending on DST)
-    const arizonaOffset = -7;
-    const madridOffset = new Date().getTimezoneOffset() / -60;
-    const timeDifference = madridOffset - arizonaOffset;
-    
-    return new Date(
-      sourceDate.getFullYear(),
-      sourceDate.getMonth(),
-      sourceDate.getDate(),
-      hours + timeDifference,
-      minutes,
-      sourceDate.getSeconds()
-    );
-  };
-
-  const adjustedStart = convertToUserTimezone(incomingEvent.start);
-  const adjustedEnd = convertToUserTimezone(incomingEvent.end);
+  // Start/end are real instants; keep the zone Google already shows, else use the source zone
+  const timeZone = normalizeTimezone(incomingEvent.sourceTimezone) || normalizeTimezone(userTimeZone);
 
   // Preserve existing Google Calendar specific data while updating with incoming event data
   const mergedEvent: calendar_v3.Schema$Event = {
@@ -410,14 +396,18 @@ export function mergeEventData(
     summary: incomingEvent.summary,
     description: `${incomingEvent.description || ''}\n\nOriginal UID: ${incomingEvent.uid}`.trim(),
     location: incomingEvent.location,
-    start: {
-      dateTime: adjustedStart.toISOString(),
-      timeZone: existingEvent.start?.timeZone, // Preserve existing timezone
-    },
-    end: {
-      dateTime: adjustedEnd.toISOString(),
-      timeZone: existingEvent.end?.timeZone, // Preserve existing timezone
-    },
+    start: incomingEvent.allDay
+      ? { date: formatDateOnly(incomingEvent.start) }
+      : {
+          dateTime: incomingEvent.start.toISOString(),
+          timeZone: existingEvent.start?.timeZone || timeZone, // Preserve existing timezone
+        },
+    end: incomingEvent.allDay
+      ? { date: formatDateOnly(incomingEvent.end) }
+      : {
+          dateTime: incomingEvent.end.toISOString(),
+          timeZone: existingEvent.end?.timeZone || timeZone, // Preserve existing timezone
+        },
     status: incomingEvent.status?.toLowerCase() === 'cancelled' ? 'cancelled' : 'confirmed',
     // Keep existing: id, etag, created, creator, organizer, attendees, etc.
   };
@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import type { calendar_v3 } from 'googleapis';
+
+/**
+ * Per-sync appearance of written events
+ *
+ * Lets synced events stand apart from the user's own: a Google event color,
+ * reminder overrides (an empty list means no reminders), visibility and
+ * whether the event blocks time. Unset settings keep the target calendar's
+ * defaults.
+ */
+
+// Google's event palette ids (see colors.get); 1 is Lavender, 11 is Tomato
+export const EVENT_COLOR_IDS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '11'] as const;
+export const REMINDER_METHODS = ['popup', 'email'] as const;
+export const EVENT_VISIBILITIES = ['default', 'public', 'private', 'confidential'] as const;
+export const EVENT_TRANSPARENCIES = ['opaque', 'transparent'] as const;
+
+// Google accepts at most five overrides of up to four weeks
+export const MAX_REMINDERS = 5;
+export const MAX_REMINDER_MINUTES = 40320;
+
+export const eventAppearanceSchema = z
+  .object({
+    colorId: z.enum(EVENT_COLOR_IDS),
+    reminders: z
+      .array(
+        z
+          .object({
+            method: z.enum(REMINDER_METHODS),
+            minutes: z.number().int('must be a whole number').min(0).max(MAX_REMINDER_MINUTES),
+          })
+          .strict()
+      )
+      .max(MAX_REMINDERS),
+    visibility: z.enum(EVENT_VISIBILITIES),
+    transparency: z.enum(EVENT_TRANSPARENCIES),
+  })
+  .partial()
+  .strict();
+
+export type EventAppearance = z.infer<typeof eventAppearanceSchema>;
+
+/** Google event fields for the settings; fields of unset settings are left out */
+export function buildAppearanceFields(appearance: EventAppearance | null | undefined): calendar_v3.Schema$Event {
+  if (!appearance) return {};
+
+  return {
+    ...(appearance.colorId && { colorId: appearance.colorId }),
+    ...(appearance.reminders && { reminders: { useDefault: false, overrides: appearance.reminders } }),
+    ...(appearance.visibility && { visibility: appearance.visibility }),
+    ...(appearance.transparency && { transparency: appearance.transparency }),
+  };
+}
+
+/** Reminders of a Google event as comparable text */
+export function formatReminders(reminders?: calendar_v3.Schema$Event['reminders']): string {
+  if (!reminders || reminders.useDefault !== false) return 'calendar default';
+  if (!reminders.overrides?.length) return 'none';
+
+  return reminders.overrides
+    .map(reminder => `${reminder.method} ${reminder.minutes}m`)
+    .sort()
+    .join(', ');
+}
+
+/** Stored settings as saved by the API; anything unparsable or empty means calendar defaults */
+export function getSyncEventAppearance(config: { eventAppearance?: unknown }): EventAppearance | null {
+  const parsed = eventAppearanceSchema.safeParse(config.eventAppearance ?? {});
+  if (!parsed.success) return null;
+
+  return Object.values(parsed.data).some(value => value !== undefined) ? parsed.data : null;
+}
@@ -0,0 +1,156 @@
+import { z } from 'zod';
+import { RE2 } from 're2-wasm';
+import type { CalendarEvent } from './ics-parser';
+
+/**
+ * Per-sync event filter rules
+ *
+ * Rules decide which feed events a sync copies. When a sync has include
+ * rules, an event must match at least one of them; an event matching any
+ * exclude rule is dropped either way. Text fields are matched with
+ * `contains`, `equals` or `regex` (case-insensitive unless `caseSensitive`),
+ * the duration in minutes with `atLeast`/`atMost`.
+ *
+ * Regex rules run against every event on every scheduled run, so they are
+ * matched with RE2, whose running time is linear in the input whatever the
+ * pattern: no saved rule can stall a sync with backtracking. RE2 has no
+ * lookarounds or backreferences; patterns using them are rejected.
+ */
+
+export const FILTER_ACTIONS = ['include', 'exclude'] as const;
+export const FILTER_TEXT_FIELDS = ['summary', 'description', 'location', 'status'] as const;
+export const FILTER_TEXT_OPERATORS = ['contains', 'equals', 'regex'] as const;
+export const FILTER_DURATION_OPERATORS = ['atLeast', 'atMost'] as const;
+export const MAX_FILTER_RULES = 50;
+const MAX_PATTERN_LENGTH = 500;
+const MAX_REGEX_LENGTH = 200;
+const MAX_REGEX_INPUT_LENGTH = 5000;
+
+const textRuleSchema = z.object({
+  action: z.enum(FILTER_ACTIONS),
+  field: z.enum(FILTER_TEXT_FIELDS),
+  operator: z.enum(FILTER_TEXT_OPERATORS),
+  value: z.string().min(1, 'must not be empty').max(MAX_PATTERN_LENGTH),
+  caseSensitive: z.boolean().optional(),
+}).strict();
+
+// Compiled patterns, reused across events and runs
+const compiledPatterns = new Map<string, RE2>();
+const MAX_COMPILED_PATTERNS = 500;
+
+/** RE2 program of a regex rule; throws for patterns RE2 does not support */
+function compilePattern(pattern: string, caseSensitive?: boolean): RE2 {
+  const flags = caseSensitive ? 'u' : 'iu';
+  const key = `${flags}/${pattern}`;
+  let compiled = compiledPatterns.get(key);
+  if (!compiled) {
+    compiled = new RE2(pattern, flags);
+    if (compiledPatterns.size >= MAX_COMPILED_PATTERNS) compiledPatterns.clear();
+    compiledPatterns.set(key, compiled);
+  }
+  return compiled;
+}
+
+const durationRuleSchema = z.object({
+  action: z.enum(FILTER_ACTIONS),
+  field: z.literal('duration'),
+  operator: z.enum(FILTER_DURATION_OPERATORS),
+  value: z.coerce.number().int('must be a whole number of minutes').min(0),
+}).strict();
+
+export const filterRuleSchema = z
+  .discriminatedUnion('field', [
+    textRuleSchema.extend({ field: z.literal('summary') }),
+    textRuleSchema.extend({ field: z.literal('description') }),
+    textRuleSchema.extend({ field: z.literal('location') }),
+    textRuleSchema.extend({ field: z.literal('status') }),
+    durationRuleSchema,
+  ])
+  .superRefine((rule, ctx) => {
+    if (rule.field !== 'duration' && rule.operator === 'regex') {
+      if (rule.value.length > MAX_REGEX_LENGTH) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: `must be at most ${MAX_REGEX_LENGTH} characters` });
+        return;
+      }
+      try {
+        compilePattern(rule.value, rule.caseSensitive);
+      } catch {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['value'],
+          message: 'is not a valid regular expression (lookarounds and backreferences are not supported)',
+        });
+      }
+    }
+  });
+
+export const filterRulesSchema = z.array(filterRuleSchema).max(MAX_FILTER_RULES);
+
+export type FilterRule = z.infer<typeof filterRuleSchema>;
+
+export interface FilterDecision {
+  event: CalendarEvent;
+  kept: boolean;
+  // Index of the rule that decided, or null when no rule applied
+  ruleIndex: number | null;
+  reason: string;
+}
+
+function getTextField(event: CalendarEvent, field: typeof FILTER_TEXT_FIELDS[number]): string {
+  if (field === 'status') return (event.status || 'CONFIRMED').toUpperCase();
+  return event[field] || '';
+}
+
+export function matchesFilterRule(event: CalendarEvent, rule: FilterRule): boolean {
+  if (rule.field === 'duration') {
+    const minutes = (event.end.getTime() - event.start.getTime()) / 60000;
+    return rule.operator === 'atLeast' ? minutes >= rule.value : minutes <= rule.value;
+  }
+
+  const text = getTextField(event, rule.field);
+  if (rule.operator === 'regex') {
+    return compilePattern(rule.value, rule.caseSensitive).test(text.slice(0, MAX_REGEX_INPUT_LENGTH));
+  }
+
+  const haystack = rule.caseSensitive ? text : text.toLowerCase();
+  const needle = rule.caseSensitive ? rule.value : rule.value.toLowerCase();
+  return rule.operator === 'equals' ? haystack.trim() === needle.trim() : haystack.includes(needle);
+}
+
+function describeRule(rule: FilterRule): string {
+  return `${rule.action} ${rule.field} ${rule.operator} "${rule.value}"`;
+}
+
+/** Whether each event is kept, and which rule decided it */
+export function evaluateEventFilters(events: CalendarEvent[], rules: FilterRule[] | null | undefined): FilterDecision[] {
+  const activeRules = rules ?? [];
+  const hasIncludes = activeRules.some(rule => rule.action === 'include');
+
+  return events.map(event => {
+    const excludeIndex = activeRules.findIndex(rule => rule.action === 'exclude' && matchesFilterRule(event, rule));
+    if (excludeIndex !== -1) {
+      return { event, kept: false, ruleIndex: excludeIndex, reason: `Matches ${describeRule(activeRules[excludeIndex])}` };
+    }
+
+    if (!hasIncludes) {
+      return { event, kept: true, ruleIndex: null, reason: 'No include rules' };
+    }
+
+    const includeIndex = activeRules.findIndex(rule => rule.action === 'include' && matchesFilterRule(event, rule));
+    return includeIndex !== -1
+      ? { event, kept: true, ruleIndex: includeIndex, reason: `Matches ${describeRule(activeRules[includeIndex])}` }
+      : { event, kept: false, ruleIndex: null, reason: 'Matches no include rule' };
+  });
+}
+
+/** Feed events a sync with these rules copies */
+export function applyEventFilters(events: CalendarEvent[], rules: FilterRule[] | null | undefined): CalendarEvent[] {
+  if (!rules || rules.length === 0) return events;
+  return evaluateEventFilters(events, rules).filter(decision => decision.kept).map(decision => decision.event);
+}
+
+/** Stored rules as saved by the API; anything unparsable filters nothing */
+export function getSyncFilterRules(config: { filterRules?: unknown }): FilterRule[] {
+  const parsed = filterRulesSchema.safeParse(config.filterRules ?? []);
+  return parsed.success ? parsed.data : [];
+}
@@ -0,0 +1,94 @@
+import type { calendar_v3 } from 'googleapis';
+import type { CalendarEvent } from './ics-parser';
+
+/**
+ * Identity of synced Google events
+ *
+ * Every event written by a sync carries the source UID, the sync id and the
+ * occurrence start in `extendedProperties.private`, plus the source tag when
+ * the sync merges several feeds. Instances of a native recurring event
+ * patched with a source override also carry the override's RECURRENCE-ID.
+ * These are invisible to calendar viewers and survive description edits.
+ * Events written before this existed only have an "Original UID: ..." line
+ * in their description; they are still recognised and get the properties on
+ * their next update.
+ */
+
+export const SOURCE_UID_PROPERTY = 'sourceUid';
+export const SYNC_ID_PROPERTY = 'syncId';
+export const INSTANCE_START_PROPERTY = 'instanceStart';
+export const SOURCE_TAG_PROPERTY = 'sourceTag';
+export const RECURRENCE_ID_PROPERTY = 'recurrenceId';
+
+const LEGACY_UID_PATTERN = /Original UID: (.+)/;
+
+/**
+ * Key used to match a source event with its Google copy: the source UID plus
+ * the start instant. Both sides must derive it from the same instant.
+ */
+export function buildEventKey(uid: string, start: Date): string {
+  return `${uid}:${start.toISOString()}`;
+}
+
+export function buildSyncedEventProperties(
+  event: CalendarEvent,
+  syncId: string
+): calendar_v3.Schema$Event['extendedProperties'] {
+  return {
+    private: {
+      [SOURCE_UID_PROPERTY]: event.uid,
+      [SYNC_ID_PROPERTY]: syncId,
+      [INSTANCE_START_PROPERTY]: event.start.toISOString(),
+      ...(event.sourceTag && { [SOURCE_TAG_PROPERTY]: event.sourceTag }),
+      ...(event.recurrenceId && { [RECURRENCE_ID_PROPERTY]: event.recurrenceId.toISOString() }),
+    },
+  };
+}
+
+/** Sync that wrote a Google event, if it carries the extended properties */
+export function getSyncId(event: calendar_v3.Schema$Event): string | undefined {
+  return event.extendedProperties?.private?.[SYNC_ID_PROPERTY] || undefined;
+}
+
+/** Source a Google event was attributed to by a multi-source sync */
+export function getSourceTag(event: calendar_v3.Schema$Event): string | undefined {
+  return event.extendedProperties?.private?.[SOURCE_TAG_PROPERTY] || undefined;
+}
+
+/** True for events only identified by the old description marker */
+export function isLegacyMarkedEvent(event: calendar_v3.Schema$Event): boolean {
+  return !event.extendedProperties?.private?.[SOURCE_UID_PROPERTY] && LEGACY_UID_PATTERN.test(event.description || '');
+}
+
+/** Source UID of a synced Google event, from its extended properties or the legacy description marker */
+export function getSourceUid(event: calendar_v3.Schema$Event): string | undefined {
+  const sourceUid = event.extendedProperties?.private?.[SOURCE_UID_PROPERTY];
+  if (sourceUid) return sourceUid;
+
+  return event.description?.match(LEGACY_UID_PATTERN)?.[1].trim() || undefined;
+}
+
+/**
+ * Duplicate-detection key of a synced Google event, or `undefined` if it was
+ * not written by a sync. Instances of a native recurring event have none;
+ * the series is matched through the recurring event itself.
+ */
+export function getGoogleEventKey(event: calendar_v3.Schema$Event): string | undefined {
+  if (event.recurringEventId) return undefined;
+
+  const sourceUid = getSourceUid(event);
+  const start = getGoogleEventStart(event);
+  return sourceUid && start ? buildEventKey(sourceUid, start) : undefined;
+}
+
+/** Start of the source occurrence a synced Google event was written for, as used in its key */
+export function getGoogleEventStart(event: calendar_v3.Schema$Event): Date | undefined {
+  // All-day events only have start.date, which parses to midnight UTC like the source side
+  const start = event.extendedProperties?.private?.[INSTANCE_START_PROPERTY]
+    || event.start?.dateTime
+    || event.start?.date;
+  if (!start) return undefined;
+
+  const startDate = new Date(start);
+  return isNaN(startDate.getTime()) ? undefined : startDate;
+}
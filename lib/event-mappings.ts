@@ -0,0 +1,206 @@
+import crypto from 'crypto';
+import { db } from './db';
+import { eventMappings } from './db/schema';
+import { and, eq, gte, lte, or, inArray } from 'drizzle-orm';
+import type { CalendarEvent } from './ics-parser';
+import { buildEventKey } from './event-identity';
+import { normalizeTimezone } from './timezone';
+
+/**
+ * Source occurrence -> Google event mappings
+ *
+ * Every event a sync creates or updates is recorded in `event_mappings`, so
+ * the next run can decide between create and update from the database and
+ * only ask Google about events it has never written.
+ */
+
+export type EventMapping = typeof eventMappings.$inferSelect;
+
+export function normalizeEventTitle(title: string): string {
+  return title.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/** SHA-256 of the fields that identify an event's content */
+export function generateEventHash(
+  title: string,
+  startDateTime: Date,
+  description?: string,
+  location?: string
+): string {
+  const normalizedTitle = title.trim().toLowerCase();
+  const startTime = startDateTime.toISOString();
+  const normalizedDesc = description?.trim().toLowerCase() || '';
+  const normalizedLocation = location?.trim().toLowerCase() ?? '';
+
+  const content = `${normalizedTitle}|${startTime}|${normalizedDesc}|${normalizedLocation}`;
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/** Short hash of the title without filler words and the start rounded down to the hour */
+export function generateFuzzyHash(title: string, startDateTime: Date): string {
+  const normalizedTitle = title
+    .toLowerCase()
+    .replace(/\b(the|and|or|a|an|in|on|at|to|for|of|with|by)\b/g, '')
+    .replace(/[^\w\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const roundedTime = new Date(startDateTime);
+  roundedTime.setMinutes(0, 0, 0);
+
+  const content = `${normalizedTitle}|${roundedTime.toISOString()}`;
+  return crypto.createHash('sha256').update(content).digest('hex').substring(0, 16);
+}
+
+/**
+ * Hash of everything a sync writes to Google for an event: the normalized
+ * event fields plus any sync settings that shape the request (e.g. the user
+ * timezone used when the feed has none). Equal hashes mean the Google copy
+ * is already up to date.
+ */
+export function generateContentHash(event: CalendarEvent, settings: Record<string, unknown> = {}): string {
+  const content = JSON.stringify({
+    summary: event.summary.trim(),
+    description: (event.description || '').trim(),
+    location: (event.location || '').trim(),
+    start: event.start.toISOString(),
+    end: event.end.toISOString(),
+    allDay: !!event.allDay,
+    timezone: normalizeTimezone(event.sourceTimezone) || null,
+    status: (event.status || 'CONFIRMED').toUpperCase(),
+    // Only multi-source syncs tag events, so other hashes stay valid
+    ...(event.sourceTag && { source: event.sourceTag }),
+    // Likewise only native-recurrence syncs write whole series
+    ...(event.recurrenceRule && {
+      recurrence: {
+        rule: event.recurrenceRule,
+        exceptionDates: (event.exceptionDates || []).map(date => date.toISOString()),
+        overrides: (event.overrides || []).map(override => ({
+          recurrenceId: override.recurrenceId?.toISOString() || null,
+          summary: override.summary.trim(),
+          description: (override.description || '').trim(),
+          location: (override.location || '').trim(),
+          start: override.start.toISOString(),
+          end: override.end.toISOString(),
+        })),
+      },
+    }),
+    settings: Object.keys(settings).sort().map(key => [key, settings[key] ?? null]),
+  });
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Mappings of a sync whose occurrence starts inside the window, plus series
+ * that started before it, keyed like `getExistingGoogleEvents` results
+ * (`buildEventKey`).
+ */
+export async function getEventMappings(
+  calendarSyncId: string,
+  windowStart: Date,
+  windowEnd: Date
+): Promise<Map<string, EventMapping>> {
+  const rows = await db
+    .select()
+    .from(eventMappings)
+    .where(
+      and(
+        eq(eventMappings.calendarSyncId, calendarSyncId),
+        or(gte(eventMappings.startDateTime, windowStart), eq(eventMappings.isRecurring, true)),
+        lte(eventMappings.startDateTime, windowEnd)
+      )
+    );
+
+  return new Map(rows.map(row => [buildEventKey(row.sourceUid, row.startDateTime), row]));
+}
+
+function mappingValues(event: CalendarEvent, googleEventId: string, contentHash?: string) {
+  return {
+    googleEventId,
+    eventTitle: event.summary,
+    eventTitleNormalized: normalizeEventTitle(event.summary),
+    endDateTime: event.end,
+    location: event.location || null,
+    sourceTag: event.sourceTag ?? null,
+    isRecurring: !!event.recurrenceRule,
+    eventHash: generateEventHash(event.summary, event.start, event.description, event.location),
+    fuzzyHash: generateFuzzyHash(event.summary, event.start),
+    contentHash: contentHash ?? null,
+    lastSyncedAt: new Date(),
+  };
+}
+
+/** Record (or refresh) the Google event written for a source occurrence */
+export async function upsertEventMapping(
+  calendarSyncId: string,
+  event: CalendarEvent,
+  googleEventId: string,
+  contentHash?: string
+): Promise<void> {
+  const values = mappingValues(event, googleEventId, contentHash);
+
+  await db
+    .insert(eventMappings)
+    .values({
+      calendarSyncId,
+      sourceUid: event.uid,
+      startDateTime: event.start,
+      ...values,
+    })
+    .onConflictDoUpdate({
+      target: [eventMappings.calendarSyncId, eventMappings.sourceUid, eventMappings.startDateTime],
+      set: values,
+    });
+}
+
+export type TwoWayMappingState = Pick<EventMapping, 'sourceHref' | 'sourceEtag' | 'syncedHash' | 'conflict'>;
+
+/**
+ * Record the state of a two-way event. Two-way events are tracked by UID, so
+ * an existing mapping is updated in place even when the event moved.
+ */
+export async function saveTwoWayMapping(
+  calendarSyncId: string,
+  event: CalendarEvent,
+  googleEventId: string,
+  state: TwoWayMappingState,
+  existing?: EventMapping
+): Promise<void> {
+  const values = {
+    ...mappingValues(event, googleEventId),
+    ...state,
+    startDateTime: event.start,
+  };
+
+  if (existing) {
+    await db.update(eventMappings).set(values).where(eq(eventMappings.id, existing.id));
+    return;
+  }
+
+  await db
+    .insert(eventMappings)
+    .values({ calendarSyncId, sourceUid: event.uid, ...values })
+    .onConflictDoUpdate({
+      target: [eventMappings.calendarSyncId, eventMappings.sourceUid, eventMappings.startDateTime],
+      set: values,
+    });
+}
+
+/** Forget mappings of Google events that were deleted */
+export async function deleteEventMappings(calendarSyncId: string, googleEventIds: string[]): Promise<void> {
+  if (googleEventIds.length === 0) return;
+
+  await db
+    .delete(eventMappings)
+    .where(
+      and(
+        eq(eventMappings.calendarSyncId, calendarSyncId),
+        inArray(eventMappings.googleEventId, googleEventIds)
+      )
+    );
+}
+
+/** Forget every mapping of a sync, e.g. after its target calendar changed */
+export async function clearEventMappings(calendarSyncId: string): Promise<void> {
+  await db.delete(eventMappings).where(eq(eventMappings.calendarSyncId, calendarSyncId));
+}
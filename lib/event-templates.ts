@@ -0,0 +1,110 @@
+import { z } from 'zod';
+import type { CalendarEvent } from './ics-parser';
+
+/**
+ * Per-sync field templates
+ *
+ * A sync can rewrite the summary, description and location of the events it
+ * writes, e.g. `[Vendor] {summary}`. Placeholders name `CalendarEvent`
+ * fields; `{{` and `}}` produce literal braces. Missing fields render as
+ * empty text, and a field without a template is copied verbatim.
+ */
+
+export const TEMPLATE_FIELDS = ['summary', 'description', 'location'] as const;
+export const TEMPLATE_PLACEHOLDERS = ['summary', 'description', 'location', 'status', 'uid', 'start', 'end', 'timezone', 'source'] as const;
+
+type TemplateField = typeof TEMPLATE_FIELDS[number];
+type TemplatePlaceholder = typeof TEMPLATE_PLACEHOLDERS[number];
+
+const TOKEN_PATTERN = /\{\{|\}\}|\{(\w+)\}/g;
+
+/** Problem with a template, or `null` if it is valid */
+export function validateTemplate(template: string): string | null {
+  for (const match of Array.from(template.matchAll(TOKEN_PATTERN))) {
+    if (match[1] && !TEMPLATE_PLACEHOLDERS.includes(match[1] as TemplatePlaceholder)) {
+      return `unknown placeholder {${match[1]}} (use ${TEMPLATE_PLACEHOLDERS.map(name => `{${name}}`).join(', ')})`;
+    }
+  }
+
+  if (/[{}]/.test(template.replace(TOKEN_PATTERN, ''))) {
+    return 'has an unmatched brace (write {{ or }} for a literal brace)';
+  }
+
+  return null;
+}
+
+const templateSchema = (maxLength: number) =>
+  z
+    .string()
+    .max(maxLength)
+    .superRefine((template, ctx) => {
+      const problem = validateTemplate(template);
+      if (problem) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+      }
+    });
+
+export const eventTemplatesSchema = z
+  .object({
+    summary: templateSchema(1024),
+    description: templateSchema(8192),
+    location: templateSchema(1024),
+  })
+  .partial()
+  .strict();
+
+export type EventTemplates = z.infer<typeof eventTemplatesSchema>;
+
+export function renderTemplate(template: string, event: CalendarEvent): string {
+  const values: Record<TemplatePlaceholder, string> = {
+    summary: event.summary || '',
+    description: event.description || '',
+    location: event.location || '',
+    status: (event.status || 'CONFIRMED').toUpperCase(),
+    uid: event.uid,
+    start: event.start.toISOString(),
+    end: event.end.toISOString(),
+    timezone: event.sourceTimezone || '',
+    source: event.sourceTag || '',
+  };
+
+  return template
+    .replace(TOKEN_PATTERN, (token, name?: string) => {
+      if (token === '{{') return '{';
+      if (token === '}}') return '}';
+      return values[name as TemplatePlaceholder] ?? '';
+    })
+    .trim();
+}
+
+/** The event as the sync writes it to Google */
+export function applyEventTemplates(event: CalendarEvent, templates: EventTemplates | null | undefined): CalendarEvent {
+  if (!templates) return event;
+
+  const rendered: Partial<Record<TemplateField, string>> = {};
+  for (const field of TEMPLATE_FIELDS) {
+    const template = templates[field];
+    if (template) {
+      rendered[field] = renderTemplate(template, event);
+    }
+  }
+
+  return {
+    ...event,
+    ...rendered,
+    // Google needs a title; fall back to the source one when the template renders nothing
+    summary: rendered.summary || event.summary,
+    // Modified instances of a native series are written with the same templates
+    ...(event.overrides && {
+      overrides: event.overrides.map(override => applyEventTemplates({ ...override, sourceTag: event.sourceTag }, templates)),
+    }),
+  };
+}
+
+/** Stored templates as saved by the API; anything unparsable or empty means no templates */
+export function getSyncEventTemplates(config: { eventTemplates?: unknown }): EventTemplates | null {
+  const parsed = eventTemplatesSchema.safeParse(config.eventTemplates ?? {});
+  if (!parsed.success) return null;
+
+  return TEMPLATE_FIELDS.some(field => parsed.data[field]) ? parsed.data : null;
+}
@@ -0,0 +1,57 @@
+import type { FeedValidators } from './ics-parser';
+import { getSyncWindow, SyncWindowConfig } from './sync-window';
+
+/**
+ * Conditional feed downloads
+ *
+ * A sync stores the ETag/Last-Modified of the last feed it processed without
+ * errors and sends them back on the next run; a 304 then skips the sync.
+ */
+
+export interface FeedCacheState extends SyncWindowConfig {
+  feedEtag?: string | null;
+  feedLastModified?: string | null;
+  feedFetchedAt?: Date | null;
+}
+
+/** Column values that clear the stored validators, forcing a full download */
+export const CLEARED_FEED_CACHE = {
+  feedEtag: null,
+  feedLastModified: null,
+  feedFetchedAt: null,
+};
+
+/**
+ * Validators to send on the next download. They are only used while the sync
+ * window is the one the cached feed was processed for: once the window moves,
+ * occurrences entering it must be synced even if the feed did not change.
+ */
+export function getFeedValidators(config: FeedCacheState, now: Date = new Date()): FeedValidators {
+  if (!config.feedFetchedAt || (!config.feedEtag && !config.feedLastModified)) {
+    return {};
+  }
+
+  const cachedWindow = getSyncWindow(config, config.feedFetchedAt);
+  const currentWindow = getSyncWindow(config, now);
+  if (cachedWindow.start.getTime() !== currentWindow.start.getTime()) {
+    return {};
+  }
+
+  return {
+    etag: config.feedEtag,
+    lastModified: config.feedLastModified,
+  };
+}
+
+/** Column values to store after a sync; validators are kept only if it had no errors */
+export function feedCacheUpdate(validators: FeedValidators | undefined, succeeded: boolean, now: Date = new Date()) {
+  if (!succeeded || !validators || (!validators.etag && !validators.lastModified)) {
+    return CLEARED_FEED_CACHE;
+  }
+
+  return {
+    feedEtag: validators.etag || null,
+    feedLastModified: validators.lastModified || null,
+    feedFetchedAt: now,
+  };
+}
@@ -0,0 +1,230 @@
+import crypto from 'crypto';
+import type { calendar_v3 } from 'googleapis';
+import {
+  acquireQuota,
+  getBackoffDelay,
+  getClientQuota,
+  getGoogleErrorReasons,
+  isRateLimited,
+  isRetryableGoogleError,
+  MAX_RETRIES,
+} from './google-quota';
+
+/**
+ * Google Calendar batch requests
+ *
+ * Event writes are sent as multipart batch calls of up to 50 operations (the
+ * Calendar API limit) instead of one round trip each. Every operation gets
+ * its own result, in the order given. Items rejected by rate limits or server
+ * errors are sent again together in a later batch after a backoff, up to
+ * `maxAttempts`; items that succeeded or failed for good are never resent.
+ * Inserts are only resent after rate limits, which Google rejects before
+ * writing anything.
+ * Every item counts against the user's request quota (see `google-quota`).
+ */
+
+export const MAX_BATCH_SIZE = 50;
+
+const BATCH_URL = 'https://www.googleapis.com/batch/calendar/v3';
+
+export type GoogleBatchOperation =
+  | { method: 'insert'; requestBody: calendar_v3.Schema$Event }
+  | { method: 'update' | 'patch'; eventId: string; requestBody: calendar_v3.Schema$Event }
+  | { method: 'delete'; eventId: string };
+
+export interface GoogleBatchResult {
+  status: number; // HTTP status of the item; 0 when it never got one
+  event?: calendar_v3.Schema$Event; // Written event, for inserts, updates and patches
+  error?: string;
+  reasons?: string[]; // Google's error reasons, e.g. `rateLimitExceeded`
+}
+
+type Fetch = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface GoogleBatchOptions {
+  maxAttempts?: number;
+  fetchImpl?: Fetch;
+}
+
+const HTTP_METHODS: Record<GoogleBatchOperation['method'], string> = {
+  insert: 'POST',
+  update: 'PUT',
+  patch: 'PATCH',
+  delete: 'DELETE',
+};
+
+function requestPart(calendarId: string, operation: GoogleBatchOperation, index: number): string {
+  const eventsPath = `/calendar/v3/calendars/${encodeURIComponent(calendarId)}/events`;
+  const path = operation.method === 'insert' ? eventsPath : `${eventsPath}/${encodeURIComponent(operation.eventId)}`;
+  const lines = [
+    'Content-Type: application/http',
+    `Content-ID: <item-${index}>`,
+    '',
+    `${HTTP_METHODS[operation.method]} ${path} HTTP/1.1`,
+  ];
+
+  if (operation.method === 'delete') {
+    lines.push('');
+  } else {
+    lines.push('Content-Type: application/json; charset=UTF-8', '', JSON.stringify(operation.requestBody));
+  }
+  return lines.join('\r\n');
+}
+
+/** Multipart body of a batch call */
+export function serializeBatchRequest(calendarId: string, operations: GoogleBatchOperation[], boundary: string): string {
+  return operations
+    .map((operation, index) => `--${boundary}\r\n${requestPart(calendarId, operation, index)}\r\n`)
+    .join('') + `--${boundary}--\r\n`;
+}
+
+function parseJson(body: string): any {
+  try {
+    return body ? JSON.parse(body) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function itemResult(status: number, reason: string, body: string): GoogleBatchResult {
+  const data = parseJson(body);
+  if (status >= 200 && status < 300) {
+    return { status, ...(data && { event: data }) };
+  }
+
+  const reasons = getGoogleErrorReasons(data);
+  return {
+    status,
+    error: data?.error?.message || `${status} ${reason}`.trim(),
+    ...(reasons.length > 0 && { reasons }),
+  };
+}
+
+/**
+ * Item results of a multipart batch response, by the position of their
+ * operation in the request (taken from the `response-item-N` Content-ID).
+ */
+export function parseBatchResponse(body: string, contentType: string): Map<number, GoogleBatchResult> {
+  const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+  if (!boundary) {
+    throw new Error('Batch response has no multipart boundary');
+  }
+
+  const results = new Map<number, GoogleBatchResult>();
+  for (const part of body.split(`--${boundary}`)) {
+    const index = part.match(/Content-ID:\s*<response-item-(\d+)>/i)?.[1];
+    const statusLine = part.match(/HTTP\/[\d.]+ (\d{3})([^\r\n]*)/);
+    if (index === undefined || !statusLine) continue;
+
+    // The item body follows the blank line that ends its headers
+    const rest = part.slice(statusLine.index! + statusLine[0].length);
+    const separator = rest.search(/\r?\n\r?\n/);
+    const itemBody = separator === -1 ? '' : rest.slice(separator).trim();
+    results.set(Number(index), itemResult(Number(statusLine[1]), statusLine[2].trim(), itemBody));
+  }
+  return results;
+}
+
+async function authHeaders(client: calendar_v3.Calendar): Promise<Record<string, string>> {
+  const auth = client.context._options.auth;
+  if (!auth || typeof auth === 'string') {
+    throw new Error('Google Calendar client has no credentials for batch requests');
+  }
+  return await auth.getRequestHeaders() as Record<string, string>;
+}
+
+/** One batch call; a failed call fails each of its items with the call's status */
+async function sendBatch(
+  client: calendar_v3.Calendar,
+  calendarId: string,
+  operations: GoogleBatchOperation[],
+  fetchImpl: Fetch
+): Promise<GoogleBatchResult[]> {
+  const boundary = `batch_${crypto.randomBytes(12).toString('hex')}`;
+  const quota = getClientQuota(client);
+  if (quota) {
+    quota.usage.throttledMs += await acquireQuota(quota.userId, operations.length);
+    quota.usage.requests += operations.length;
+  }
+
+  let response: Response;
+  try {
+    response = await fetchImpl(BATCH_URL, {
+      method: 'POST',
+      headers: {
+        ...(await authHeaders(client)),
+        'Content-Type': `multipart/mixed; boundary=${boundary}`,
+      },
+      body: serializeBatchRequest(calendarId, operations, boundary),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('❌ Batch request failed:', error);
+    return operations.map(() => ({ status: 0, error: message }));
+  }
+
+  const body = await response.text();
+  let results: GoogleBatchResult[];
+  if (response.ok) {
+    const items = parseBatchResponse(body, response.headers.get('content-type') || '');
+    results = operations.map((_, index) => items.get(index) ?? { status: 0, error: 'Missing from batch response' });
+  } else {
+    const error = `Batch request failed: ${response.status} ${response.statusText}`;
+    const reasons = getGoogleErrorReasons(parseJson(body));
+    results = operations.map(() => ({ status: response.status, error, ...(reasons.length > 0 && { reasons }) }));
+  }
+
+  if (quota) {
+    quota.usage.rateLimited += results.filter(result => isRateLimited(result.status, result.reasons || [])).length;
+  }
+  return results;
+}
+
+/**
+ * Run event operations on one calendar through batch calls. Results follow
+ * the order of `operations`; failed items carry the status and message
+ * Google returned for them.
+ */
+export async function executeGoogleBatch(
+  client: calendar_v3.Calendar,
+  calendarId: string,
+  operations: GoogleBatchOperation[],
+  options: GoogleBatchOptions = {}
+): Promise<GoogleBatchResult[]> {
+  const { maxAttempts = MAX_RETRIES + 1, fetchImpl = fetch } = options;
+  const quota = getClientQuota(client);
+  const results: GoogleBatchResult[] = new Array(operations.length);
+  let pending = operations.map((_, index) => index);
+
+  for (let attempt = 1; pending.length > 0; attempt++) {
+    if (attempt > 1) {
+      const delay = getBackoffDelay(attempt - 1);
+      console.log(`⏳ Retrying ${pending.length} failed batch items in ${delay}ms (attempt ${attempt}/${maxAttempts})`);
+      if (quota) {
+        quota.usage.retries += pending.length;
+        quota.usage.throttledMs += delay;
+      }
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+
+    for (let offset = 0; offset < pending.length; offset += MAX_BATCH_SIZE) {
+      const chunk = pending.slice(offset, offset + MAX_BATCH_SIZE);
+      const chunkResults = await sendBatch(client, calendarId, chunk.map(index => operations[index]), fetchImpl);
+      chunk.forEach((index, position) => {
+        results[index] = chunkResults[position];
+      });
+    }
+
+    pending = attempt < maxAttempts
+      ? pending.filter(index => isRetryableGoogleError(
+        results[index].status,
+        results[index].reasons || [],
+        operations[index].method !== 'insert'
+      ))
+      : [];
+  }
+
+  const failed = results.filter(result => result.error).length;
+  console.log(`📦 Batch of ${operations.length} operations on ${calendarId}: ${operations.length - failed} succeeded, ${failed} failed`);
+  return results;
+}
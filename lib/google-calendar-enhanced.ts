@@ -1,7 +1,6 @@
-import { google } from 'googleapis';
 import { getServerSession } from 'next-auth';
 import { authOptions } from './auth';
-import { getAuthenticatedGoogleClient } from './auth-middleware';
+import { getGoogleCalendarClientForUser } from './google-calendar';
 import { CalendarEvent } from './ics-parser';
 
 /**
@@ -30,10 +29,8 @@ export async function getEnhancedGoogleCalendarClient() {
     throw new Error('No authenticated user found');
   }
 
-  // Use enhanced auth client that handles token refresh automatically
-  const oauth2Client = await getAuthenticatedGoogleClient(session.user.id);
-  
-  return google.calendar({ version: 'v3', auth: oauth2Client });
+  // Handles token refresh automatically and draws from the user's request quota
+  return getGoogleCalendarClientForUser(session.user.id);
 }
 
 /**
@@ -1,8 +1,42 @@
-import { google } from 'googleapis';
+import { google, calendar_v3 } from 'googleapis';
 import { getServerSession } from 'next-auth';
 import { authOptions } from './auth';
+import { getAuthenticatedGoogleClient } from './auth-middleware';
 import { CalendarEvent } from './ics-parser';
-// Remove date-fns-tz dependency for now - using native JS approach
+import { buildGoogleEventBody, getRecurringInstanceId } from './google-event-body';
+import type { EventAppearance } from './event-appearance';
+import { executeGoogleBatch, GoogleBatchOperation } from './google-batch';
+import { createQuotaAdapter, createQuotaUsage, trackClientQuota, GoogleQuotaUsage } from './google-quota';
+import { isEventInRange, listEventPages, refreshCalendarCache } from './google-event-cache';
+import {
+  SYNC_ID_PROPERTY,
+  RECURRENCE_ID_PROPERTY,
+  getGoogleEventKey,
+  getSyncId,
+  isLegacyMarkedEvent,
+} from './event-identity';
+
+export interface ExistingEventsQuery {
+  syncId?: string; // Match events written by this sync (extendedProperties.private.syncId)
+  includeLegacy?: boolean; // Also match events only marked with "Original UID:" in the description (default true)
+  userId?: string; // Owner of the calendar: read it through the user's event cache instead of listing the range
+}
+
+export interface GoogleEventWrite {
+  event: CalendarEvent;
+  eventId?: string; // Google event to update; the event is inserted without one
+}
+
+export interface GoogleEventWriteResult {
+  eventId?: string;
+  created: boolean;
+  error?: string;
+}
+
+export interface GoogleEventDeleteResult {
+  eventId: string;
+  error?: string;
+}
 
 export interface GoogleCalendarInfo {
   id: string;
@@ -12,189 +46,37 @@ export interface GoogleCalendarInfo {
   accessRole: string;
 }
 
-export async function getGoogleCalendarClient() {
+export type GoogleCalendarClient = calendar_v3.Calendar;
+
+/**
+ * Calendar API client acting as `userId`. Does not need a request session,
+ * so background syncs (cron dispatcher, workers) use it with the sync owner.
+ * Its calls draw from the user's request quota and are counted in `usage`.
+ */
+export async function getGoogleCalendarClientForUser(
+  userId: string,
+  usage: GoogleQuotaUsage = createQuotaUsage()
+): Promise<GoogleCalendarClient> {
+  const auth = await getAuthenticatedGoogleClient(userId);
+  const client = google.calendar({ version: 'v3', auth, adapter: createQuotaAdapter(userId, usage) });
+  trackClientQuota(client, userId, usage);
+  return client;
+}
+
+/** Calendar API client for the signed-in user of the current request */
+export async function getGoogleCalendarClient(): Promise<GoogleCalendarClient> {
   const session = await getServerSession(authOptions);
   
   if (!session?.user?.id) {
     throw new Error('No authenticated user found');
   }
 
-  const oauth2Client = new google.auth.OAuth2(
-    process.env.GOOGLE_CLIENT_ID,
-    process.env.GOOGLE_CLIENT_SECRET
-  );
-
-  // Get access token from database
-  const { db } = await import('./db');
-  const { accounts } = await import('./db/schema');
-  const { eq } = await import('drizzle-orm');
-
-  let account = await db
-    .select()
-    .from(accounts)
-    .where(eq(accounts.userId, session.user.id))
-    .limit(1);
-
-  if (!account[0]) {
-    console.error('❌ No Google account found in database for user:', session.user.id);
-    throw new Error('REAUTH_REQUIRED');
-  }
-
-  const accountData = account[0];
-  console.log('🔍 Account validation:', {
-    hasAccessToken: !!accountData.access_token,
-    hasRefreshToken: !!accountData.refresh_token,
-    expiresAt: accountData.expires_at,
-    currentTime: Math.floor(Date.now() / 1000),
-    isExpired: accountData.expires_at ? accountData.expires_at < Math.floor(Date.now() / 1000) : 'unknown'
-  });
-
-  // Check if we have minimum required tokens
-  if (!accountData.access_token || !accountData.refresh_token) {
-    console.error('❌ Missing essential tokens:', {
-      accessToken: !!accountData.access_token,
-      refreshToken: !!accountData.refresh_token
-    });
-    
-    // Clean up invalid account record
-    await db
-      .delete(accounts)
-      .where(eq(accounts.userId, session.user.id));
-    
-    throw new Error('REAUTH_REQUIRED');
-  }
-
-  // Set initial credentials
-  oauth2Client.setCredentials({
-    access_token: accountData.access_token,
-    refresh_token: accountData.refresh_token,
-  });
-
-  // Determine if we need to refresh the token
-  const now = Math.floor(Date.now() / 1000);
-  const tokenExpired = accountData.expires_at ? accountData.expires_at <= now + 300 : true; // Refresh 5 mins early
-  
-  if (tokenExpired || !accountData.access_token) {
-    console.log('🔄 Token requires refresh:', {
-      expired: tokenExpired,
-      expiresAt: accountData.expires_at,
-      currentTime: now,
-      bufferTime: now + 300
-    });
-    
-    try {
-      const { credentials } = await oauth2Client.refreshAccessToken();
-      console.log('🔄 Refresh response:', {
-        hasNewAccessToken: !!credentials.access_token,
-        hasNewRefreshToken: !!credentials.refresh_token,
-        newExpiryDate: credentials.expiry_date
-      });
-      
-      if (!credentials.access_token) {
-        throw new Error('No access token received from refresh');
-      }
-
-      // Update database with new tokens - preserve refresh token if not provided
-      const updateData: any = {
-        access_token: credentials.access_token,
-        expires_at: credentials.expiry_date ? Math.floor(credentials.expiry_date / 1000) : null,
-      };
-      
-      // Only update refresh token if we got a new one
-      if (credentials.refresh_token) {
-        updateData.refresh_token = credentials.refresh_token;
-      }
-      
-      await db
-        .update(accounts)
-        .set(updateData)
-        .where(eq(accounts.userId, session.user.id));
-      
-      // Update oauth2Client with new credentials
-      oauth2Client.setCredentials({
-        access_token: credentials.access_token,
-        refresh_token: credentials.refresh_token || accountData.refresh_token, // Keep original if no new one
-      });
-      
-      console.log('✅ Token refreshed and stored successfully');
-      
-      // Verify the refresh worked by re-fetching account data
-      account = await db
-        .select()
-        .from(accounts)
-        .where(eq(accounts.userId, session.user.id))
-        .limit(1);
-        
-      console.log('✅ Post-refresh verification:', {
-        hasAccessToken: !!account[0]?.access_token,
-        hasRefreshToken: !!account[0]?.refresh_token,
-        newExpiresAt: account[0]?.expires_at
-      });
-      
-    } catch (refreshError: any) {
-      console.error('❌ Token refresh failed:', {
-        error: refreshError.message,
-        code: refreshError.code,
-        status: refreshError.status,
-        response: refreshError.response?.data
-      });
-      
-      // Handle specific refresh token errors
-      if (refreshError.message?.includes('invalid_grant') || 
-          refreshError.code === 400 || 
-          refreshError.response?.data?.error === 'invalid_grant') {
-        console.error('❌ Refresh token is invalid or expired');
-        
-        // Clean up invalid account
-        await db
-          .delete(accounts)
-          .where(eq(accounts.userId, session.user.id));
-        
-        throw new Error('REAUTH_REQUIRED');
-      }
-      
-      // For other errors, provide specific guidance
-      throw new Error(`Token refresh failed: ${refreshError.message}. Please sign out and sign back in to re-authenticate.`);
-    }
-  }
-
-  // Set up automatic token refresh for future requests
-  oauth2Client.on('tokens', async (tokens) => {
-    console.log('🔄 Auto-refresh triggered:', {
-      hasAccessToken: !!tokens.access_token,
-      hasRefreshToken: !!tokens.refresh_token,
-      expiryDate: tokens.expiry_date
-    });
-    
-    if (tokens.access_token) {
-      const updateData: any = {
-        access_token: tokens.access_token,
-        expires_at: tokens.expiry_date ? Math.floor(tokens.expiry_date / 1000) : null,
-      };
-      
-      // Update refresh token if provided
-      if (tokens.refresh_token) {
-        updateData.refresh_token = tokens.refresh_token;
-      }
-      
-      try {
-        await db
-          .update(accounts)
-          .set(updateData)
-          .where(eq(accounts.userId, session.user.id));
-        console.log('✅ Auto-refresh tokens stored successfully');
-      } catch (error) {
-        console.error('❌ Failed to store auto-refreshed tokens:', error);
-      }
-    }
-  });
-  
-  return google.calendar({ version: 'v3', auth: oauth2Client });
+  return getGoogleCalendarClientForUser(session.user.id);
 }
 
-export async function getUserCalendars(): Promise<GoogleCalendarInfo[]> {
+export async function getUserCalendars(client?: GoogleCalendarClient): Promise<GoogleCalendarInfo[]> {
   try {
-    const calendar = await getGoogleCalendarClient();
+    const calendar = client ?? await getGoogleCalendarClient();
     const response = await calendar.calendarList.list();
     
     return response.data.items?.map(cal => ({
@@ -228,121 +110,17 @@ export async function getUserCalendars(): Promise<GoogleCalendarInfo[]> {
 export async function createGoogleCalendarEvent(
   calendarId: string,
   event: CalendarEvent,
-  userTimeZone?: string
+  userTimeZone?: string,
+  syncId?: string,
+  client?: GoogleCalendarClient,
+  appearance?: EventAppearance | null
 ): Promise<string> {
   try {
     console.log(`🎯 Creating event in calendar: ${calendarId}`);
-    const calendar = await getGoogleCalendarClient();
-    
-    // Get calendar timezone
-    let calendarTimeZone = 'UTC';
-    try {
-      const calendarInfo = await calendar.calendars.get({ calendarId });
-      calendarTimeZone = calendarInfo.data.timeZone || 'UTC';
-      console.log(`📅 Target calendar info:`, {
-        id: calendarInfo.data.id,
-        summary: calendarInfo.data.summary,
-        timeZone: calendarTimeZone
-      });
-    } catch (calError) {
-      console.error(`❌ Cannot access calendar ${calendarId}:`, calError);
-    }
-    
-    console.log(`\n🌍 Converting "${event.summary}" from ${event.sourceTimezone || 'Unknown'} to ${userTimeZone}`);
-    
-    // Use the user's timezone (this is the key - we want events to show in user's timezone)
-    const targetTimeZone = userTimeZone || 'UTC';
-    
-    // Function to convert Windows/ICS timezone names to IANA timezone identifiers
-    const normalizeTimezone = (timezone: string): string => {
-      // Try to use Intl.supportedValuesOf to check if it's already a valid IANA timezone
-      try {
-        // Test if this timezone works with Intl.DateTimeFormat
-        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
-        console.log(`✅ Timezone "${timezone}" is valid IANA identifier`);
-        return timezone;
-      } catch (error) {
-        console.log(`🔍 Timezone "${timezone}" is not IANA format, attempting conversion...`);
-        
-        // Common mappings for Windows timezone names
-        const commonMappings: { [key: string]: string } = {
-          'US Mountain Standard Time': 'America/Denver',
-          'US Eastern Standard Time': 'America/New_York', 
-          'US Pacific Standard Time': 'America/Los_Angeles',
-          'US Central Standard Time': 'America/Chicago',
-          'GMT Standard Time': 'Europe/London',
-          'Central European Standard Time': 'Europe/Berlin',
-          'UTC': 'UTC'
-        };
-        
-        if (commonMappings[timezone]) {
-          console.log(`🗺️ Mapped "${timezone}" to "${commonMappings[timezone]}"`);
-          return commonMappings[timezone];
-        }
-        
-        // If no mapping found, try to extract from the name
-        if (timezone.includes('Mountain')) return 'America/Denver';
-        if (timezone.includes('Eastern')) return 'America/New_York';
-        if (timezone.includes('Pacific')) return 'America/Los_Angeles';
-        if (timezone.includes('Central') && timezone.includes('US')) return 'America/Chicago';
-        if (timezone.includes('GMT') || timezone.includes('UTC')) return 'UTC';
-        
-        console.log(`⚠️ Could not map timezone "${timezone}", using as-is`);
-        return timezone;
-      }
-    };
-    
-    
-    // Smart timezone conversion based on source timezone
-    const convertToUserTimezone = (sourceDate: Date) => {
-      const hours = sourceDate.getHours();
-      const minutes = sourceDate.getMinutes();
-      
-      // Only apply timezone conversion if we know the source timezone is Arizona
-      if (event.sourceTimezone === 'America/Phoenix' && targetTimeZone !== 'America/Phoenix') {
-        // Arizona (MST) is UTC-7, Madrid is UTC+1/+2 (depending on DST)
-        const arizonaOffset = -7; // Arizona is UTC-7 (no DST)
-        const madridOffset = new Date().getTimezoneOffset() / -60; // Madrid offset in hours
-        const timeDifference = madridOffset - arizonaOffset;
-        
-        // Convert Arizona time to Madrid time
-        const convertedTime = new Date(
-          sourceDate.getFullYear(),
-          sourceDate.getMonth(),
-          sourceDate.getDate(),
-          hours + timeDifference,
-          minutes,
-          sourceDate.getSeconds()
-        );
-        
-        console.log(`  ${hours}:${String(minutes).padStart(2, '0')} Arizona → ${convertedTime.getHours()}:${String(convertedTime.getMinutes()).padStart(2, '0')} ${targetTimeZone}`);
-        
-        return convertedTime;
-      }
-      
-      // For other timezones or when source/target are the same, return original date
-      console.log(`  Keeping original time for ${event.sourceTimezone || 'unknown'} → ${targetTimeZone}: ${hours}:${String(minutes).padStart(2, '0')}`);
-      return sourceDate;
-    };
-    
-    const adjustedStart = convertToUserTimezone(event.start);
-    const adjustedEnd = convertToUserTimezone(event.end);
+    const calendar = client ?? await getGoogleCalendarClient();
     
-    const googleEvent = {
-      summary: event.summary,
-      description: event.description,
-      location: event.location,
-      start: {
-        dateTime: adjustedStart.toISOString(),
-        // No timeZone specified - Google Calendar will treat as user's local time
-      },
-      end: {
-        dateTime: adjustedEnd.toISOString(),
-        // No timeZone specified - Google Calendar will treat as user's local time
-      },
-      status: event.status?.toLowerCase() === 'cancelled' ? 'cancelled' : 'confirmed',
-    };
-
+    const googleEvent = buildGoogleEventBody(event, userTimeZone, syncId, appearance);
+    console.log(`🌍 "${event.summary}" at ${googleEvent.start?.dateTime || googleEvent.start?.date} (${googleEvent.start?.timeZone || (event.allDay ? 'all day' : 'no timezone')})`);
 
     const response = await calendar.events.insert({
       calendarId,
@@ -356,6 +134,10 @@ export async function createGoogleCalendarEvent(
       htmlLink: response.data.htmlLink
     });
 
+    if (event.recurrenceRule && event.overrides?.length) {
+      await writeRecurringOverrides(calendar, calendarId, response.data.id!, event, userTimeZone, syncId, appearance, false);
+    }
+
     return response.data.id!;
   } catch (error) {
     console.error(`❌ Failed to create event in calendar ${calendarId}:`, error);
@@ -367,7 +149,10 @@ export async function updateGoogleCalendarEvent(
   calendarId: string,
   eventId: string,
   event: CalendarEvent,
-  userTimeZone?: string
+  userTimeZone?: string,
+  syncId?: string,
+  client?: GoogleCalendarClient,
+  appearance?: EventAppearance | null
 ): Promise<void> {
   try {
     console.log(`🔄 Updating Google Calendar event ID: ${eventId} in calendar: ${calendarId}`);
@@ -378,95 +163,11 @@ export async function updateGoogleCalendarEvent(
       description: event.description?.substring(0, 100) + '...'
     });
     
-    const calendar = await getGoogleCalendarClient();
+    const calendar = client ?? await getGoogleCalendarClient();
     
-    // Get calendar timezone
-    let calendarTimeZone = 'UTC';
-    try {
-      const calendarInfo = await calendar.calendars.get({ calendarId });
-      calendarTimeZone = calendarInfo.data.timeZone || 'UTC';
-    } catch (calError) {
-      console.error(`❌ Cannot get calendar timezone for ${calendarId}:`, calError);
-    }
-    
-    // Use the same timezone normalization as in create function
-    const targetTimeZone = userTimeZone || 'UTC';
-    
-    // Function to normalize timezone (same as in create function)
-    const normalizeTimezone = (timezone: string): string => {
-      try {
-        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
-        return timezone;
-      } catch (error) {
-        const commonMappings: { [key: string]: string } = {
-          'US Mountain Standard Time': 'America/Denver',
-          'US Eastern Standard Time': 'America/New_York', 
-          'US Pacific Standard Time': 'America/Los_Angeles',
-          'US Central Standard Time': 'America/Chicago',
-          'GMT Standard Time': 'Europe/London',
-          'Central European Standard Time': 'Europe/Berlin',
-          'UTC': 'UTC'
-        };
-        
-        if (commonMappings[timezone]) return commonMappings[timezone];
-        if (timezone.includes('Mountain')) return 'America/Denver';
-        if (timezone.includes('Eastern')) return 'America/New_York';
-        if (timezone.includes('Pacific')) return 'America/Los_Angeles';
-        if (timezone.includes('Central') && timezone.includes('US')) return 'America/Chicago';
-        if (timezone.includes('GMT') || timezone.includes('UTC')) return 'UTC';
-        
-        return timezone;
-      }
-    };
-    
-    const convertToUserTimezone = (sourceDate: Date) => {
-      const hours = sourceDate.getHours();
-      const minutes = sourceDate.getMinutes();
-      
-      // Only apply timezone conversion if we know the source timezone is Arizona
-      if (event.sourceTimezone === 'America/Phoenix' && targetTimeZone !== 'America/Phoenix') {
-        // Arizona (MST) is UTC-7, Madrid is UTC+1/+2 (depending on DST)
-        const arizonaOffset = -7; // Arizona is UTC-7 (no DST)
-        const madridOffset = new Date().getTimezoneOffset() / -60; // Madrid offset in hours
-        const timeDifference = madridOffset - arizonaOffset;
-        
-        // Convert Arizona time to Madrid time
-        const convertedTime = new Date(
-          sourceDate.getFullYear(),
-          sourceDate.getMonth(),
-          sourceDate.getDate(),
-          hours + timeDifference,
-          minutes,
-          sourceDate.getSeconds()
-        );
-        
-        console.log(`🔄 Update: ${hours}:${String(minutes).padStart(2, '0')} Arizona → ${convertedTime.getHours()}:${String(convertedTime.getMinutes()).padStart(2, '0')} ${targetTimeZone}`);
-        
-        return convertedTime;
-      }
-      
-      // For other timezones or when source/target are the same, return original date
-      console.log(`🔄 Update: Keeping original time for ${event.sourceTimezone || 'unknown'} → ${targetTimeZone}: ${hours}:${String(minutes).padStart(2, '0')}`);
-      return sourceDate;
-    };
-    
-    const adjustedStart = convertToUserTimezone(event.start);
-    const adjustedEnd = convertToUserTimezone(event.end);
-    
-    const googleEvent = {
-      summary: event.summary,
-      description: event.description,
-      location: event.location,
-      start: {
-        dateTime: adjustedStart.toISOString(),
-        // No timeZone specified - Google Calendar will treat as user's local time
-      },
-      end: {
-        dateTime: adjustedEnd.toISOString(),
-        // No timeZone specified - Google Calendar will treat as user's local time
-      },
-      status: event.status?.toLowerCase() === 'cancelled' ? 'cancelled' : 'confirmed',
-    };
+    // A full update also stamps the extended properties on events that only had the legacy marker,
+    // and resets color, reminders and visibility to the calendar defaults when the sync sets none
+    const googleEvent = buildGoogleEventBody(event, userTimeZone, syncId, appearance);
 
     const response = await calendar.events.update({
       calendarId,
@@ -475,63 +176,316 @@ export async function updateGoogleCalendarEvent(
     });
     
     console.log(`✅ Successfully updated event. New event ID: ${response.data.id}, Status: ${response.data.status}`);
-  } catch (error) {
+
+    if (event.recurrenceRule) {
+      await writeRecurringOverrides(calendar, calendarId, eventId, event, userTimeZone, syncId, appearance, true);
+    }
+  } catch (error: any) {
+    // Deleted in Google since it was synced - callers recreate it
+    if (error.code === 404 || error.code === 410 || error.status === 404 || error.status === 410) {
+      console.log(`ℹ️ Event ${eventId} no longer exists in Google Calendar`);
+      throw new Error('EVENT_NOT_FOUND');
+    }
+
     console.error(`❌ Failed to update event ${eventId}:`, error);
     throw new Error(`Failed to update event: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+function isGoneError(error: any): boolean {
+  return error.code === 404 || error.code === 410 || error.status === 404 || error.status === 410;
+}
+
+/**
+ * Patch the instances of a native recurring event that the source modified
+ * (its RECURRENCE-ID overrides). When the series was written before,
+ * instances patched for overrides the source no longer has are reset to
+ * the series first.
+ */
+async function writeRecurringOverrides(
+  calendar: GoogleCalendarClient,
+  calendarId: string,
+  seriesId: string,
+  event: CalendarEvent,
+  userTimeZone?: string,
+  syncId?: string,
+  appearance?: EventAppearance | null,
+  previouslyWritten: boolean = false
+): Promise<void> {
+  const overrides = (event.overrides || []).filter(override => override.recurrenceId);
+  const recurrenceIds = new Set(overrides.map(override => override.recurrenceId!.toISOString()));
+  const duration = event.end.getTime() - event.start.getTime();
+  const instanceOf = (instance: CalendarEvent): CalendarEvent => ({
+    ...instance,
+    uid: event.uid,
+    sourceTag: event.sourceTag,
+    recurrenceRule: undefined,
+    exceptionDates: undefined,
+    overrides: undefined,
+  });
+
+  if (previouslyWritten) {
+    // Open-ended series have more instances than fit on one page
+    const instances: calendar_v3.Schema$Event[] = [];
+    let pageToken: string | undefined;
+    do {
+      const response = await calendar.events.instances({ calendarId, eventId: seriesId, maxResults: 2500, pageToken });
+      instances.push(...(response.data.items || []));
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    for (const instance of instances) {
+      const recurrenceId = instance.extendedProperties?.private?.[RECURRENCE_ID_PROPERTY];
+      if (!instance.id || !recurrenceId || recurrenceIds.has(recurrenceId)) continue;
+
+      // A full update also drops the override's recurrenceId property
+      const originalStart = new Date(recurrenceId);
+      console.log(`↩️ Resetting instance ${instance.id}: the source no longer modifies it`);
+      await calendar.events.update({
+        calendarId,
+        eventId: instance.id,
+        requestBody: buildGoogleEventBody(
+          instanceOf({ ...event, start: originalStart, end: new Date(originalStart.getTime() + duration) }),
+          userTimeZone,
+          syncId,
+          appearance
+        ),
+      });
+    }
+  }
+
+  for (const override of overrides) {
+    const instanceId = getRecurringInstanceId(seriesId, override.recurrenceId!, event.allDay);
+    try {
+      await calendar.events.patch({
+        calendarId,
+        eventId: instanceId,
+        requestBody: buildGoogleEventBody(instanceOf(override), userTimeZone, syncId, appearance),
+      });
+    } catch (error: any) {
+      // The RRULE does not produce that occurrence, so there is nothing to patch
+      if (!isGoneError(error)) throw error;
+      console.log(`ℹ️ Series ${seriesId} has no instance ${instanceId} to patch`);
+    }
+  }
+}
+
+export async function deleteGoogleCalendarEvent(
+  calendarId: string,
+  eventId: string,
+  client?: GoogleCalendarClient
+): Promise<void> {
+  try {
+    console.log(`🗑️ Deleting Google Calendar event ID: ${eventId} from calendar: ${calendarId}`);
+    const calendar = client ?? await getGoogleCalendarClient();
+
+    await calendar.events.delete({
+      calendarId,
+      eventId,
+    });
+
+    console.log(`✅ Successfully deleted event ${eventId}`);
+  } catch (error: any) {
+    // Already deleted (e.g. removed by the user in Google) - nothing left to do
+    if (error.code === 404 || error.code === 410 || error.status === 404 || error.status === 410) {
+      console.log(`ℹ️ Event ${eventId} was already deleted`);
+      return;
+    }
+
+    console.error(`❌ Failed to delete event ${eventId}:`, error);
+    throw new Error(`Failed to delete event: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Insert or update many events through batch requests. Like
+ * `updateGoogleCalendarEvent` callers do on `EVENT_NOT_FOUND`, updates of
+ * events deleted in Google since they were synced are retried as inserts.
+ * Results follow the order of `writes`; a failed write carries its error
+ * instead of throwing.
+ */
+export async function writeGoogleCalendarEvents(
+  calendarId: string,
+  writes: GoogleEventWrite[],
+  userTimeZone?: string,
+  syncId?: string,
+  client?: GoogleCalendarClient,
+  appearance?: EventAppearance | null
+): Promise<GoogleEventWriteResult[]> {
+  const calendar = client ?? await getGoogleCalendarClient();
+  const toOperation = ({ event, eventId }: GoogleEventWrite): GoogleBatchOperation => {
+    // Full updates, as in updateGoogleCalendarEvent
+    const requestBody = buildGoogleEventBody(event, userTimeZone, syncId, appearance);
+    return eventId ? { method: 'update', eventId, requestBody } : { method: 'insert', requestBody };
+  };
+
+  console.log(`📦 Writing ${writes.length} events to calendar ${calendarId} in batches`);
+  const batchResults = await executeGoogleBatch(calendar, calendarId, writes.map(toOperation));
+  const results = batchResults.map((batchResult, index): GoogleEventWriteResult => {
+    const created = !writes[index].eventId;
+    return batchResult.error
+      ? { created, error: `Failed to ${created ? 'create' : 'update'} event: ${batchResult.error}` }
+      : { created, eventId: batchResult.event?.id ?? writes[index].eventId };
+  });
+
+  const gone = batchResults.flatMap((batchResult, index) => (
+    writes[index].eventId && (batchResult.status === 404 || batchResult.status === 410) ? [index] : []
+  ));
+  if (gone.length > 0) {
+    console.log(`♻️ ${gone.length} mapped events are gone from Google, recreating them`);
+    const recreated = await executeGoogleBatch(
+      calendar,
+      calendarId,
+      gone.map(index => toOperation({ event: writes[index].event }))
+    );
+    recreated.forEach((batchResult, position) => {
+      results[gone[position]] = batchResult.error
+        ? { created: true, error: `Failed to create event: ${batchResult.error}` }
+        : { created: true, eventId: batchResult.event?.id ?? undefined };
+    });
+  }
+
+  // Modified occurrences of native recurring events are patched once their series exists
+  for (const [index, result] of results.entries()) {
+    const { event } = writes[index];
+    if (!result.eventId || !event.recurrenceRule) continue;
+    if (result.created && !event.overrides?.length) continue;
+
+    try {
+      await writeRecurringOverrides(calendar, calendarId, result.eventId, event, userTimeZone, syncId, appearance, !result.created);
+    } catch (error) {
+      console.error(`❌ Failed to write modified occurrences of "${event.summary}":`, error);
+      result.error = `Failed to write modified occurrences: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Delete many events through batch requests. Events already deleted in
+ * Google count as deleted, as in `deleteGoogleCalendarEvent`.
+ */
+export async function deleteGoogleCalendarEvents(
+  calendarId: string,
+  eventIds: string[],
+  client?: GoogleCalendarClient
+): Promise<GoogleEventDeleteResult[]> {
+  const calendar = client ?? await getGoogleCalendarClient();
+
+  console.log(`🗑️ Deleting ${eventIds.length} events from calendar ${calendarId} in batches`);
+  const batchResults = await executeGoogleBatch(
+    calendar,
+    calendarId,
+    eventIds.map(eventId => ({ method: 'delete', eventId }))
+  );
+
+  return batchResults.map((batchResult, index) => {
+    const gone = batchResult.status === 404 || batchResult.status === 410;
+    return batchResult.error && !gone
+      ? { eventId: eventIds[index], error: `Failed to delete event: ${batchResult.error}` }
+      : { eventId: eventIds[index] };
+  });
+}
+
 export async function getExistingGoogleEvents(
   calendarId: string,
   timeMin: Date,
   timeMax: Date,
-  retryCount: number = 0
+  retryCount: number = 0,
+  query: ExistingEventsQuery = {},
+  client?: GoogleCalendarClient
 ): Promise<{ [uid: string]: string }> {
+  const syncedEvents = await getSyncedGoogleEvents(calendarId, timeMin, timeMax, retryCount, query, client);
+
+  const existingEvents: { [uid: string]: string } = {};
+  for (const [key, event] of Object.entries(syncedEvents)) {
+    existingEvents[key] = event.id!;
+  }
+  return existingEvents;
+}
+
+/**
+ * Synced events in the range, keyed like `getExistingGoogleEvents` results
+ * but with the full Google event, e.g. to diff it against the source. With
+ * `query.userId` they come from the user's cache of the calendar (see
+ * `google-event-cache`), otherwise from listing the range.
+ */
+export async function getSyncedGoogleEvents(
+  calendarId: string,
+  timeMin: Date,
+  timeMax: Date,
+  retryCount: number = 0,
+  query: ExistingEventsQuery = {},
+  client?: GoogleCalendarClient
+): Promise<{ [uid: string]: calendar_v3.Schema$Event }> {
+  const { syncId, includeLegacy = true, userId } = query;
+
   try {
     console.log(`🔍 Checking for existing events in calendar ${calendarId} from ${timeMin.toISOString()} to ${timeMax.toISOString()} (attempt ${retryCount + 1})`);
-    const calendar = await getGoogleCalendarClient();
+    const calendar = client ?? await getGoogleCalendarClient();
     
     // Add a small delay on retries to handle eventual consistency
     if (retryCount > 0) {
       console.log(`⏳ Waiting ${retryCount * 2} seconds for eventual consistency...`);
       await new Promise(resolve => setTimeout(resolve, retryCount * 2000));
     }
-    
-    const response = await calendar.events.list({
-      calendarId,
-      timeMin: timeMin.toISOString(),
-      timeMax: timeMax.toISOString(),
-      maxResults: 2500,
-      singleEvents: true,
-      orderBy: 'startTime',
-      // Force fresh data, not cached
-      showDeleted: false,
-    });
 
-    console.log(`📊 Found ${response.data.items?.length || 0} existing events in Google Calendar`);
+    const listEvents = async (filter: { privateExtendedProperty?: string[]; q?: string }, singleEvents = true) => {
+      const { items } = await listEventPages(calendar, {
+        calendarId,
+        timeMin: timeMin.toISOString(),
+        timeMax: timeMax.toISOString(),
+        singleEvents,
+        ...(singleEvents && { orderBy: 'startTime' }),
+        // Force fresh data, not cached
+        showDeleted: false,
+        ...filter,
+      });
+      return items;
+    };
+
+    const cachedEvents = userId
+      ? (await refreshCalendarCache(calendar, userId, calendarId)).filter(event => isEventInRange(event, timeMin, timeMax))
+      : undefined;
 
-    const existingEvents: { [uid: string]: string } = {};
-    
-    response.data.items?.forEach(event => {
-      console.log(`🔍 Checking event: "${event.summary}" - Description: ${event.description?.substring(0, 100)}...`);
-      if (event.id && event.description && event.start?.dateTime) {
-        const match = event.description.match(/Original UID: (.+)/);
-        if (match) {
-          // Create unique key combining UID and start datetime for recurring events
-          const originalUid = match[1].trim(); // Trim whitespace
-          const startDateTime = new Date(event.start.dateTime).toISOString();
-          const uniqueKey = `${originalUid}:${startDateTime}`;
-          console.log(`✅ Found existing event: ${uniqueKey} -> Google Event ID: ${event.id}`);
-          existingEvents[uniqueKey] = event.id;
-        } else {
-          console.log(`⚠️  Event "${event.summary}" has no Original UID pattern in description`);
+    const existingEvents: { [uid: string]: calendar_v3.Schema$Event } = {};
+
+    if (syncId) {
+      // Recurring events written by native-recurrence syncs are listed once, as their series
+      const trackedEvents = cachedEvents
+        ? cachedEvents.filter(event => getSyncId(event) === syncId)
+        : await listEvents({ privateExtendedProperty: [`${SYNC_ID_PROPERTY}=${syncId}`] }, false);
+      console.log(`📊 Found ${trackedEvents.length} events written by sync ${syncId}`);
+
+      trackedEvents.forEach(event => {
+        const uniqueKey = getGoogleEventKey(event);
+        if (event.id && uniqueKey) {
+          existingEvents[uniqueKey] = event;
         }
-      } else {
-        console.log(`⚠️  Skipping event "${event.summary}" - missing required fields (ID: ${!!event.id}, Description: ${!!event.description}, DateTime: ${!!event.start?.dateTime})`);
-      }
-    });
+      });
+    }
+
+    if (includeLegacy) {
+      // Events written before extended properties were used; they are migrated when next updated
+      const markedEvents = cachedEvents ?? await listEvents({ q: 'Original UID' });
+      let legacyCount = 0;
+
+      markedEvents.forEach(event => {
+        if (!isLegacyMarkedEvent(event)) return;
+
+        const uniqueKey = getGoogleEventKey(event);
+        if (event.id && uniqueKey && !existingEvents[uniqueKey]) {
+          console.log(`🔁 Found legacy event to migrate: ${uniqueKey} -> Google Event ID: ${event.id}`);
+          existingEvents[uniqueKey] = event;
+          legacyCount++;
+        }
+      });
+
+      console.log(`📊 Found ${legacyCount} legacy events marked with Original UID`);
+    }
 
-    console.log(`📋 Total existing events with Original UID: ${Object.keys(existingEvents).length}`);
+    console.log(`📋 Total existing synced events: ${Object.keys(existingEvents).length}`);
     return existingEvents;
   } catch (error: any) {
     console.error(`❌ Error fetching existing events:`, error);
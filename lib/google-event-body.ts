@@ -0,0 +1,84 @@
+import type { calendar_v3 } from 'googleapis';
+import type { CalendarEvent } from './ics-parser';
+import { normalizeTimezone, formatDateOnly } from './timezone';
+import { buildSyncedEventProperties } from './event-identity';
+import { buildAppearanceFields, EventAppearance } from './event-appearance';
+
+/**
+ * Google start/end for a source event: `date` for all-day events (end
+ * exclusive, as in ICS), otherwise `dateTime` plus the source zone (or the
+ * user's zone when the feed has none) so Google shows the original timezone.
+ */
+function toGoogleEventDateTime(
+  event: CalendarEvent,
+  userTimeZone?: string
+): { start: calendar_v3.Schema$EventDateTime; end: calendar_v3.Schema$EventDateTime } {
+  if (event.allDay) {
+    return {
+      start: { date: formatDateOnly(event.start) },
+      end: { date: formatDateOnly(event.end) },
+    };
+  }
+
+  // Google needs a zone to expand a recurring event in
+  const timeZone = normalizeTimezone(event.sourceTimezone)
+    || normalizeTimezone(userTimeZone)
+    || (event.recurrenceRule ? 'UTC' : undefined);
+  return {
+    start: { dateTime: event.start.toISOString(), ...(timeZone && { timeZone }) },
+    end: { dateTime: event.end.toISOString(), ...(timeZone && { timeZone }) },
+  };
+}
+
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * `recurrence` lines of a recurring event: its RRULE (without the DTSTART
+ * and TZID parts some parsers fold into it, since Google takes those from
+ * `start`) and its EXDATEs.
+ */
+export function buildRecurrenceLines(event: CalendarEvent): string[] {
+  if (!event.recurrenceRule) return [];
+
+  const ruleLine = event.recurrenceRule.split(/\r?\n/).find(line => !/^DTSTART/i.test(line)) || '';
+  const parts = ruleLine
+    .replace(/^RRULE:/i, '')
+    .split(';')
+    .filter(part => part && !/^(DTSTART|TZID)=/i.test(part));
+  const lines = [`RRULE:${parts.join(';')}`];
+
+  const exceptionDates = event.exceptionDates || [];
+  if (exceptionDates.length > 0) {
+    lines.push(event.allDay
+      ? `EXDATE;VALUE=DATE:${exceptionDates.map(date => formatDateOnly(date).replace(/-/g, '')).join(',')}`
+      : `EXDATE:${exceptionDates.map(formatUtcDateTime).join(',')}`);
+  }
+
+  return lines;
+}
+
+/** Id Google gives the occurrence of a recurring event that originally starts at `originalStart` */
+export function getRecurringInstanceId(seriesId: string, originalStart: Date, allDay?: boolean): string {
+  return `${seriesId}_${allDay ? formatDateOnly(originalStart).replace(/-/g, '') : formatUtcDateTime(originalStart)}`;
+}
+
+/** Request body shared by event inserts and updates (and compared against by sync previews) */
+export function buildGoogleEventBody(
+  event: CalendarEvent,
+  userTimeZone?: string,
+  syncId?: string,
+  appearance?: EventAppearance | null
+): calendar_v3.Schema$Event {
+  return {
+    summary: event.summary,
+    description: event.description,
+    location: event.location,
+    ...toGoogleEventDateTime(event, userTimeZone),
+    status: event.status?.toLowerCase() === 'cancelled' ? 'cancelled' : 'confirmed',
+    ...(event.recurrenceRule && { recurrence: buildRecurrenceLines(event) }),
+    ...buildAppearanceFields(appearance),
+    ...(syncId && { extendedProperties: buildSyncedEventProperties(event, syncId) }),
+  };
+}
@@ -0,0 +1,180 @@
+import type { calendar_v3 } from 'googleapis';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { db } from './db';
+import { googleCachedEvents, googleCalendarCaches } from './db/schema';
+import { getSyncId, isLegacyMarkedEvent } from './event-identity';
+import { expandOccurrences } from './ics-parser';
+
+/**
+ * Local cache of Google target calendars
+ *
+ * Syncs used to list the whole sync window of their target calendar on every
+ * run. Instead, the events syncs wrote there (tagged with a sync id or the
+ * legacy "Original UID" marker) are kept per user and calendar, and each read
+ * only asks Google for what changed since the stored `nextSyncToken`. Other
+ * events of the calendar are never stored. When Google expires the token
+ * (410 Gone) the calendar is listed in full again and the cache rebuilt.
+ */
+
+export const MAX_PAGE_SIZE = 2500; // events.list maximum
+const WRITE_CHUNK_SIZE = 500;
+
+type EventListParams = calendar_v3.Params$Resource$Events$List;
+
+export interface EventListing {
+  items: calendar_v3.Schema$Event[];
+  nextSyncToken?: string; // Only given on the last page
+}
+
+/** All pages of an `events.list` call */
+export async function listEventPages(
+  calendar: calendar_v3.Calendar,
+  params: EventListParams
+): Promise<EventListing> {
+  const items: calendar_v3.Schema$Event[] = [];
+  let pageToken: string | undefined;
+
+  for (;;) {
+    const response = await calendar.events.list({ maxResults: MAX_PAGE_SIZE, ...params, pageToken });
+    items.push(...(response.data.items || []));
+    if (!response.data.nextPageToken) {
+      return { items, nextSyncToken: response.data.nextSyncToken || undefined };
+    }
+    pageToken = response.data.nextPageToken;
+  }
+}
+
+/** Whether an event is one a sync wrote, and so belongs in the cache */
+export function isCacheableEvent(event: calendar_v3.Schema$Event): boolean {
+  return event.status !== 'cancelled' && !!event.id && (!!getSyncId(event) || isLegacyMarkedEvent(event));
+}
+
+function eventTime(time: calendar_v3.Schema$EventDateTime | undefined): Date | undefined {
+  // All-day events only have a date, read as midnight UTC like event keys do
+  const value = time?.dateTime || time?.date;
+  return value ? new Date(value) : undefined;
+}
+
+/**
+ * Whether an event has an occurrence overlapping [timeMin, timeMax), the way
+ * a windowed `events.list` would have returned it. Recurring events are
+ * expanded from their RRULE.
+ */
+export function isEventInRange(event: calendar_v3.Schema$Event, timeMin: Date, timeMax: Date): boolean {
+  const start = eventTime(event.start);
+  if (!start) return false;
+  const end = eventTime(event.end) ?? start;
+
+  const rule = event.recurrence?.find(line => /^RRULE:/i.test(line));
+  if (!rule) {
+    return start < timeMax && end > timeMin;
+  }
+
+  if (start >= timeMax) return false;
+  try {
+    const duration = end.getTime() - start.getTime();
+    return expandOccurrences(
+      rule.replace(/^RRULE:/i, ''),
+      start,
+      event.start?.timeZone || undefined,
+      new Date(timeMin.getTime() - duration),
+      timeMax
+    ).some(occurrence => occurrence.start < timeMax && occurrence.start.getTime() + duration > timeMin.getTime());
+  } catch (error) {
+    console.warn(`⚠️ Could not expand recurrence of cached event ${event.id}:`, error);
+    return true;
+  }
+}
+
+function isSyncTokenExpired(error: any): boolean {
+  return error?.code === 410 || error?.status === 410 || error?.response?.status === 410;
+}
+
+async function getCalendarCache(userId: string, calendarId: string) {
+  const where = and(eq(googleCalendarCaches.userId, userId), eq(googleCalendarCaches.calendarId, calendarId));
+  const [cache] = await db.select().from(googleCalendarCaches).where(where).limit(1);
+  if (cache) return cache;
+
+  // A concurrent run may create it first
+  await db.insert(googleCalendarCaches).values({ userId, calendarId }).onConflictDoNothing();
+  const [created] = await db.select().from(googleCalendarCaches).where(where).limit(1);
+  return created;
+}
+
+/**
+ * Apply listed events to the cache: synced ones are stored, anything else
+ * (cancelled, or no longer tagged) is dropped. A full listing replaces the
+ * cache. The token is stored last, so an interrupted write is redone from the
+ * previous token.
+ */
+async function storeListing(cacheId: string, listing: EventListing, full: boolean): Promise<void> {
+  if (full) {
+    // Without a token the next read lists everything again, even if this write stops halfway
+    await db.update(googleCalendarCaches).set({ syncToken: null }).where(eq(googleCalendarCaches.id, cacheId));
+    await db.delete(googleCachedEvents).where(eq(googleCachedEvents.cacheId, cacheId));
+  }
+
+  // The last version of an event wins when it is listed more than once
+  const events = new Map(listing.items.filter(event => event.id).map(event => [event.id!, event]));
+  const stored = Array.from(events.values()).filter(isCacheableEvent);
+  const removed = full ? [] : Array.from(events.keys()).filter(eventId => !isCacheableEvent(events.get(eventId)!));
+
+  for (let offset = 0; offset < removed.length; offset += WRITE_CHUNK_SIZE) {
+    await db.delete(googleCachedEvents).where(and(
+      eq(googleCachedEvents.cacheId, cacheId),
+      inArray(googleCachedEvents.eventId, removed.slice(offset, offset + WRITE_CHUNK_SIZE))
+    ));
+  }
+
+  for (let offset = 0; offset < stored.length; offset += WRITE_CHUNK_SIZE) {
+    await db
+      .insert(googleCachedEvents)
+      .values(stored.slice(offset, offset + WRITE_CHUNK_SIZE).map(event => ({ cacheId, eventId: event.id!, event })))
+      .onConflictDoUpdate({
+        target: [googleCachedEvents.cacheId, googleCachedEvents.eventId],
+        set: { event: sql`excluded."event"`, updatedAt: new Date() },
+      });
+  }
+
+  await db
+    .update(googleCalendarCaches)
+    .set({ syncToken: listing.nextSyncToken ?? null, refreshedAt: new Date() })
+    .where(eq(googleCalendarCaches.id, cacheId));
+}
+
+/**
+ * Bring the user's cache of a calendar up to date and return the synced
+ * events in it. Only changes since the last read are listed; the whole
+ * calendar is listed the first time and when Google expired the token.
+ */
+export async function refreshCalendarCache(
+  calendar: calendar_v3.Calendar,
+  userId: string,
+  calendarId: string
+): Promise<calendar_v3.Schema$Event[]> {
+  const cache = await getCalendarCache(userId, calendarId);
+
+  let listing: EventListing | undefined;
+  if (cache.syncToken) {
+    try {
+      listing = await listEventPages(calendar, { calendarId, syncToken: cache.syncToken, singleEvents: false });
+      console.log(`🔄 ${listing.items.length} changed events in calendar ${calendarId} since the last sync`);
+    } catch (error) {
+      if (!isSyncTokenExpired(error)) throw error;
+      console.log(`♻️ Sync token of calendar ${calendarId} expired, listing it in full`);
+    }
+  }
+
+  const full = !listing;
+  if (!listing) {
+    listing = await listEventPages(calendar, { calendarId, singleEvents: false });
+    console.log(`📥 Listed ${listing.items.length} events of calendar ${calendarId}`);
+  }
+  await storeListing(cache.id, listing, full);
+
+  const rows = await db
+    .select({ event: googleCachedEvents.event })
+    .from(googleCachedEvents)
+    .where(eq(googleCachedEvents.cacheId, cache.id));
+  return rows.map(row => row.event as calendar_v3.Schema$Event);
+}
@@ -0,0 +1,162 @@
+import type { Common } from 'googleapis';
+
+/**
+ * Google API quota
+ *
+ * Calendar API calls made for a user draw from a per-user token bucket, so a
+ * big sync spreads its requests out instead of running into Google's
+ * per-user rate limits. Calls Google still rejects with `rateLimitExceeded`
+ * or `userRateLimitExceeded` (403 or 429), or with a server error, are sent
+ * again after an exponential backoff with jitter. Inserts (POST) are only
+ * sent again after rate limits. Daily quota errors are not retried: they last
+ * until the quota resets.
+ *
+ * Buckets live in memory, so the limit is per process, not per user: every
+ * server process, serverless invocation and sync worker starts with its own
+ * full bucket. Concurrent syncs of one user on different processes can still
+ * exceed Google's limit together; those calls are caught by the backoff.
+ */
+
+export const BUCKET_CAPACITY = 50; // One full batch
+export const REFILL_PER_SECOND = 10; // Google's default per-user limit is 600 requests a minute
+export const MAX_RETRIES = 5;
+
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 32000;
+
+const RATE_LIMIT_REASONS = new Set(['rateLimitExceeded', 'userRateLimitExceeded']);
+
+export interface GoogleQuotaUsage {
+  requests: number; // Calendar API requests sent, counting each batch item
+  retries: number; // Requests sent again after a rate limit or server error
+  rateLimited: number; // Requests Google rejected with a rate limit
+  throttledMs: number; // Time spent waiting for the bucket or backing off
+}
+
+interface TokenBucket {
+  tokens: number;
+  refilledAt: number;
+}
+
+export interface ClientQuota {
+  userId: string;
+  usage: GoogleQuotaUsage;
+}
+
+const buckets = new Map<string, TokenBucket>();
+const clientQuotas = new WeakMap<object, ClientQuota>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export function createQuotaUsage(): GoogleQuotaUsage {
+  return { requests: 0, retries: 0, rateLimited: 0, throttledMs: 0 };
+}
+
+/** `reason`s of a Google API error body (`{ error: { errors: [{ reason }] } }`) */
+export function getGoogleErrorReasons(data: unknown): string[] {
+  const errors = (data as any)?.error?.errors;
+  if (!Array.isArray(errors)) return [];
+  return errors.map(error => error?.reason).filter((reason): reason is string => typeof reason === 'string');
+}
+
+export function isRateLimited(status: number, reasons: string[]): boolean {
+  return status === 429 || (status === 403 && reasons.some(reason => RATE_LIMIT_REASONS.has(reason)));
+}
+
+/**
+ * Whether a failed call may succeed when sent again later (status 0: no
+ * response). Calls that are not idempotent, like event inserts, are only
+ * retried on rate limits: after a timeout or server error the write may
+ * already have been applied, and sending it again would duplicate it.
+ */
+export function isRetryableGoogleError(status: number, reasons: string[], idempotent: boolean = true): boolean {
+  if (isRateLimited(status, reasons)) return true;
+  return idempotent && (status === 0 || status >= 500);
+}
+
+/** Wait before retry number `attempt`: doubling from 1s up to 32s, the upper half randomized */
+export function getBackoffDelay(attempt: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+/**
+ * Take `cost` tokens from the user's bucket, waiting until they are
+ * available. Tokens are reserved right away, so concurrent callers are
+ * served in order. Resolves with the time waited.
+ */
+export async function acquireQuota(userId: string, cost: number = 1, now: () => number = Date.now): Promise<number> {
+  const time = now();
+  const bucket = buckets.get(userId) ?? { tokens: BUCKET_CAPACITY, refilledAt: time };
+  bucket.tokens = Math.min(BUCKET_CAPACITY, bucket.tokens + ((time - bucket.refilledAt) / 1000) * REFILL_PER_SECOND);
+  bucket.refilledAt = time;
+  bucket.tokens -= cost;
+  buckets.set(userId, bucket);
+
+  if (bucket.tokens >= 0) return 0;
+
+  const wait = Math.ceil((-bucket.tokens / REFILL_PER_SECOND) * 1000);
+  await sleep(wait);
+  return wait;
+}
+
+/**
+ * Send a request through the user's bucket, sending it again while Google
+ * rate-limits it or, for idempotent requests, fails with a server error.
+ * `inspect` reads the status and body of a response; the last response is
+ * returned either way.
+ */
+export async function sendWithQuota<T>(
+  quota: ClientQuota,
+  send: () => Promise<T>,
+  inspect: (response: T) => { status: number; data?: unknown },
+  idempotent: boolean = true
+): Promise<T> {
+  const { userId, usage } = quota;
+
+  for (let attempt = 0; ; attempt++) {
+    usage.throttledMs += await acquireQuota(userId);
+    usage.requests++;
+    if (attempt > 0) usage.retries++;
+
+    const response = await send();
+    const { status, data } = inspect(response);
+    const reasons = getGoogleErrorReasons(data);
+    if (isRateLimited(status, reasons)) usage.rateLimited++;
+
+    if (attempt >= MAX_RETRIES || !isRetryableGoogleError(status, reasons, idempotent)) {
+      return response;
+    }
+
+    const delay = getBackoffDelay(attempt + 1);
+    console.log(`⏳ Google API returned ${status} (${reasons.join(', ') || 'no reason'}), retrying in ${delay}ms`);
+    usage.throttledMs += delay;
+    await sleep(delay);
+  }
+}
+
+/**
+ * gaxios adapter sending every call of a googleapis client through
+ * `sendWithQuota`. Token refreshes do not go through it. Only POSTs
+ * (inserts) are treated as not idempotent: a PUT, PATCH or DELETE of an
+ * event leaves it the same however often it is applied.
+ */
+export function createQuotaAdapter(userId: string, usage: GoogleQuotaUsage): Common.GaxiosOptions['adapter'] {
+  return (options, defaultAdapter) => sendWithQuota(
+    { userId, usage },
+    () => defaultAdapter(options),
+    response => ({ status: response.status, data: response.data }),
+    options.method?.toUpperCase() !== 'POST'
+  );
+}
+
+/** Remember whose quota a client draws from, for requests it does not send itself (batches) */
+export function trackClientQuota(client: object, userId: string, usage: GoogleQuotaUsage): void {
+  clientQuotas.set(client, { userId, usage });
+}
+
+export function getClientQuota(client: object): ClientQuota | undefined {
+  return clientQuotas.get(client);
+}
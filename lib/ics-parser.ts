@@ -1,5 +1,13 @@
 import ICAL from 'ical';
 import { RRule } from 'rrule';
+import {
+  ICSDateValue,
+  VTimezoneDefinitions,
+  parseVTimezones,
+  resolveICSDate,
+  floatingToInstant,
+  instantToFloating,
+} from './timezone';
 
 export interface CalendarEvent {
   uid: string;
@@ -10,60 +18,238 @@ export interface CalendarEvent {
   location?: string;
   recurrenceRule?: string;
   status?: string;
-  sourceTimezone?: string; // Add source timezone info
+  sourceTimezone?: string; // TZID of DTSTART as written in the feed (may be a Windows name)
+  allDay?: boolean; // DTSTART;VALUE=DATE - start/end are midnight UTC of the dates, end exclusive
+  exceptionDates?: Date[]; // EXDATE instants of a recurring event
+  recurrenceId?: Date; // RECURRENCE-ID: original start of the occurrence this instance replaces
+  overrides?: CalendarEvent[]; // Modified instances (RECURRENCE-ID) of a recurring event
+  sourceTag?: string; // Tag of the sync source the event was read from (multi-source syncs)
+  lastModified?: Date; // LAST-MODIFIED of the VEVENT, if the feed has it
 }
 
-export async function parseICSFromUrl(icsUrl: string): Promise<CalendarEvent[]> {
-  try {
-    const response = await fetch(icsUrl, {
-      headers: {
-        'User-Agent': 'Calendar-Sync-App/1.0',
-      },
-    });
+export interface ParsedICSCalendar {
+  events: CalendarEvent[];
+  timezones: VTimezoneDefinitions;
+}
+
+// `ical` drops the trailing "Z" of UTC date-times, which makes them
+// indistinguishable from floating times; flag them on the parsed Date
+const UTC_AWARE_PROPERTIES: Record<string, string> = {
+  DTSTART: 'start',
+  DTEND: 'end',
+  'RECURRENCE-ID': 'recurrenceid',
+};
+
+const icsParser = Object.create(ICAL);
+icsParser.objectHandlers = { ...(ICAL as any).objectHandlers };
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch ICS: ${response.status} ${response.statusText}`);
+for (const [property, field] of Object.entries(UTC_AWARE_PROPERTIES)) {
+  const handler = (ICAL as any).objectHandlers[property];
+  icsParser.objectHandlers[property] = function (val: string, params: any, curr: any, stack: any, line: string) {
+    const result = handler.call(this, val, params, curr, stack, line);
+    if (result[field] instanceof Date && /Z$/i.test(String(val).trim())) {
+      (result[field] as ICSDateValue).utc = true;
+    }
+    return result;
+  };
+}
+
+// EXDATE is a comma-separated list stored as a date-keyed object; flag the dates this line added
+const exdateHandler = (ICAL as any).objectHandlers.EXDATE;
+icsParser.objectHandlers.EXDATE = function (val: string, params: any, curr: any, stack: any, line: string) {
+  const previous = new Set(Object.values(curr.exdate || {}));
+  const result = exdateHandler.call(this, val, params, curr, stack, line);
+  const utc = String(val).split(',').every(entry => /Z$/i.test(entry.trim()));
+
+  if (utc) {
+    for (const date of Object.values(result.exdate || {})) {
+      if (date instanceof Date && !previous.has(date)) {
+        (date as ICSDateValue).utc = true;
+      }
     }
+  }
+  return result;
+};
+
+/**
+ * Parse raw ICS text with the `ical` library, keeping the UTC marker on
+ * DTSTART/DTEND/RECURRENCE-ID values (see `resolveICSDate`).
+ */
+export function parseRawICS(icsData: string): ReturnType<typeof ICAL.parseICS> {
+  return icsParser.parseICS(icsData);
+}
+
+export async function parseICSFromUrl(icsUrl: string): Promise<CalendarEvent[]> {
+  const calendar = await fetchICSCalendar(icsUrl);
+  return calendar.events;
+}
 
-    const icsData = await response.text();
-    return parseICSData(icsData);
+async function fetchICSCalendar(icsUrl: string): Promise<ParsedICSCalendar> {
+  try {
+    const feed = await fetchICSFeed(icsUrl);
+    return parseICSCalendar(feed.notModified ? '' : feed.icsData);
   } catch (error) {
     throw new Error(`Error fetching ICS data: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
-function expandRecurringEvent(event: CalendarEvent, startDate: Date, endDate: Date): CalendarEvent[] {
+/** HTTP cache validators of a feed, as returned by its server */
+export interface FeedValidators {
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+export type FeedFetchResult =
+  | { notModified: true }
+  | { notModified: false; icsData: string; validators: FeedValidators };
+
+/**
+ * Download an ICS feed, sending `If-None-Match`/`If-Modified-Since` when
+ * validators from a previous fetch are given. A 304 response is reported as
+ * `notModified` instead of an error.
+ */
+export async function fetchICSFeed(
+  icsUrl: string,
+  validators: FeedValidators = {},
+  userAgent: string = 'Calendar-Sync-App/1.0'
+): Promise<FeedFetchResult> {
+  const headers: Record<string, string> = {
+    'User-Agent': userAgent,
+  };
+  if (validators.etag) {
+    headers['If-None-Match'] = validators.etag;
+  }
+  if (validators.lastModified) {
+    headers['If-Modified-Since'] = validators.lastModified;
+  }
+
+  const response = await fetch(icsUrl, { headers });
+
+  if (response.status === 304) {
+    return { notModified: true };
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ICS: ${response.status} ${response.statusText}`);
+  }
+
+  return {
+    notModified: false,
+    icsData: await response.text(),
+    validators: {
+      etag: response.headers?.get('etag') || null,
+      lastModified: response.headers?.get('last-modified') || null,
+    },
+  };
+}
+
+/**
+ * Expand an RRULE into occurrence start instants within [startDate, endDate].
+ * Occurrences are generated on wall-clock time in `timezone`, so a weekly
+ * 09:00 meeting stays at 09:00 local across DST changes. `floatingStart` is
+ * the wall-clock time of each occurrence and is used to build occurrence UIDs.
+ */
+export function expandOccurrences(
+  recurrenceRule: string,
+  start: Date,
+  timezone: string | undefined,
+  startDate: Date,
+  endDate: Date,
+  timezones: VTimezoneDefinitions = {}
+): { start: Date; floatingStart: Date }[] {
+  const options = RRule.parseString(recurrenceRule);
+  const rule = new RRule({
+    ...options,
+    dtstart: instantToFloating(start, timezone, timezones),
+    tzid: undefined,
+  });
+
+  // Search a day either side in floating time, then filter on real instants
+  const dayMs = 24 * 60 * 60 * 1000;
+  const floatingOccurrences = rule.between(
+    new Date(startDate.getTime() - dayMs),
+    new Date(endDate.getTime() + dayMs),
+    true
+  );
+
+  return floatingOccurrences
+    .map(floatingStart => ({
+      start: floatingToInstant(floatingStart, timezone, timezones),
+      floatingStart,
+    }))
+    .filter(occurrence => occurrence.start >= startDate && occurrence.start <= endDate);
+}
+
+/** Whether a single event overlaps [startDate, endDate], the range syncs look up mappings and Google events in */
+function isInWindow(event: CalendarEvent, startDate: Date, endDate: Date): boolean {
+  return event.end >= startDate && event.start <= endDate;
+}
+
+function expandRecurringEvent(
+  event: CalendarEvent,
+  startDate: Date,
+  endDate: Date,
+  timezones: VTimezoneDefinitions = {}
+): CalendarEvent[] {
   if (!event.recurrenceRule) {
-    return [event];
+    return isInWindow(event, startDate, endDate) ? [event] : [];
   }
 
   try {
-    // Parse the RRULE
-    const rrule = RRule.fromString(event.recurrenceRule);
-    
+    // All-day dates are already floating, so they expand without a timezone
+    const timezone = event.allDay ? undefined : event.sourceTimezone;
+
     // Get all occurrences within the date range
-    const occurrences = rrule.between(startDate, endDate, true);
+    const occurrences = expandOccurrences(
+      event.recurrenceRule,
+      event.start,
+      timezone,
+      startDate,
+      endDate,
+      timezones
+    );
+
+    // Occurrences are matched to EXDATE and RECURRENCE-ID by their original start instant
+    const exceptions = new Set((event.exceptionDates || []).map(date => date.getTime()));
+    const overrides = new Map(
+      (event.overrides || [])
+        .filter(override => override.recurrenceId)
+        .map(override => [override.recurrenceId!.getTime(), override])
+    );
     
-    const expandedEvents: CalendarEvent[] = [];
+    // Calculate duration from original event
+    const originalDuration = event.end.getTime() - event.start.getTime();
+    const instanceFields = {
+      recurrenceRule: undefined, // Remove RRULE from expanded instances
+      exceptionDates: undefined,
+      overrides: undefined,
+      recurrenceId: undefined,
+    };
     
-    occurrences.forEach((occurrence, index) => {
-      // Calculate duration from original event
-      const originalDuration = event.end.getTime() - event.start.getTime();
-      const occurrenceStart = new Date(occurrence);
-      const occurrenceEnd = new Date(occurrence.getTime() + originalDuration);
-      
-      const expandedEvent: CalendarEvent = {
+    const expanded: CalendarEvent[] = occurrences
+      .filter(occurrence => !exceptions.has(occurrence.start.getTime()) && !overrides.has(occurrence.start.getTime()))
+      .map(occurrence => ({
         ...event,
-        uid: `${event.uid}-${occurrence.getTime()}`, // Make each occurrence unique
-        start: occurrenceStart,
-        end: occurrenceEnd,
-        recurrenceRule: undefined, // Remove RRULE from expanded instances
-      };
-      
-      expandedEvents.push(expandedEvent);
+        ...instanceFields,
+        uid: `${event.uid}-${occurrence.floatingStart.getTime()}`, // Make each occurrence unique
+        start: occurrence.start,
+        end: new Date(occurrence.start.getTime() + originalDuration),
+      }));
+
+    // Modified instances keep the UID of the occurrence they replace, wherever they moved to
+    overrides.forEach((override, originalStart) => {
+      if (exceptions.has(originalStart) || override.status?.toUpperCase() === 'CANCELLED') return;
+      if (override.start < startDate || override.start > endDate) return;
+
+      const floatingStart = instantToFloating(new Date(originalStart), timezone, timezones);
+      expanded.push({
+        ...override,
+        ...instanceFields,
+        uid: `${event.uid}-${floatingStart.getTime()}`,
+      });
     });
-    
-    return expandedEvents;
+
+    return expanded.sort((a, b) => a.start.getTime() - b.start.getTime());
   } catch (error) {
     console.error(`❌ Error expanding recurring event "${event.summary}":`, error);
     return [event]; // Return original event if expansion fails
@@ -71,10 +257,19 @@ function expandRecurringEvent(event: CalendarEvent, startDate: Date, endDate: Da
 }
 
 export function parseICSData(icsData: string): CalendarEvent[] {
+  return parseICSCalendar(icsData).events;
+}
+
+/**
+ * Parse ICS text into events whose start/end are real instants, along with
+ * the feed's VTIMEZONE definitions (needed to expand custom zones later).
+ */
+export function parseICSCalendar(icsData: string): ParsedICSCalendar {
   try {
     
-    const parsed = ICAL.parseICS(icsData);
+    const parsed = parseRawICS(icsData);
     const events: CalendarEvent[] = [];
+    const timezones = parseVTimezones(parsed);
     
     // First, find the overall calendar timezone (VTIMEZONE component)
     let calendarTimezone: string | null = null;
@@ -97,90 +292,140 @@ export function parseICSData(icsData: string): CalendarEvent[] {
       const component = parsed[key];
       
       if (component.type === 'VEVENT') {
-        // Process event
-        
-        // Use the calendar timezone instead of individual event timezone
-        let sourceTimezone = calendarTimezone;
-        
-        if (!sourceTimezone) {
-          // Fallback to individual event timezone if no calendar timezone
-          if (component.start && typeof component.start === 'object' && (component.start as any).tz) {
-            sourceTimezone = (component.start as any).tz;
+        const event = toCalendarEvent(component, key, calendarTimezone, timezones);
+
+        if (event.recurrenceRule) {
+          const rawExdates = Object.values((component as any).exdate || {}) as ICSDateValue[];
+          const rawOverrides = Object.values((component as any).recurrences || {}) as any[];
+
+          if (rawExdates.length > 0) {
+            event.exceptionDates = rawExdates.map(date => resolveICSDate(date, date.tz || event.sourceTimezone, timezones));
+          }
+          if (rawOverrides.length > 0) {
+            event.overrides = rawOverrides.map(override =>
+              toCalendarEvent(override, key, calendarTimezone, timezones)
+            );
           }
-        }
-        
-        // DON'T use JavaScript's Date parsing - it's wrong!
-        // Instead, extract the raw date/time components and reconstruct properly
-        let startDate: Date;
-        let endDate: Date;
-        
-        if (component.start && typeof component.start === 'object' && typeof (component.start as any).getFullYear === 'function') {
-          // Extract wall-clock time components from ICS
-          const rawStart = component.start;
-          const year = rawStart.getFullYear();
-          const month = rawStart.getMonth(); // 0-based
-          const day = rawStart.getDate();
-          const hours = rawStart.getHours();
-          const minutes = rawStart.getMinutes();
-          const seconds = rawStart.getSeconds() || 0;
-          
-          startDate = new Date(year, month, day, hours, minutes, seconds);
-        } else {
-          startDate = component.start ? new Date(component.start) : new Date();
-        }
-        
-        // Same for end date
-        if (component.end && typeof component.end === 'object' && typeof (component.end as any).getFullYear === 'function') {
-          const rawEnd = component.end;
-          const year = rawEnd.getFullYear();
-          const month = rawEnd.getMonth();
-          const day = rawEnd.getDate(); 
-          const hours = rawEnd.getHours();
-          const minutes = rawEnd.getMinutes();
-          const seconds = rawEnd.getSeconds() || 0;
-          
-          endDate = new Date(year, month, day, hours, minutes, seconds);
-        } else {
-          endDate = component.end ? new Date(component.end) : new Date();
-        }
-        
-        const event: CalendarEvent = {
-          uid: component.uid || key,
-          summary: component.summary || 'No Title',
-          description: component.description || '',
-          start: startDate,
-          end: endDate,
-          location: typeof component.location === 'string' ? component.location : (component.location || ''),
-          status: typeof component.status === 'string' ? component.status : 'CONFIRMED',
-          sourceTimezone: sourceTimezone || undefined,
-        };
-
-        if (component.rrule) {
-          event.recurrenceRule = component.rrule.toString();
         }
 
         events.push(event);
       }
     }
 
-    return events;
+    return { events, timezones };
   } catch (error) {
     throw new Error(`Error parsing ICS data: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
-export function parseICSFromUrlWithExpansion(icsUrl: string, startDate: Date, endDate: Date, targetTimeZone?: string): Promise<CalendarEvent[]> {
-  return parseICSFromUrl(icsUrl).then(events => {
-    
-    const allExpandedEvents: CalendarEvent[] = [];
-    
-    events.forEach(event => {
-      const expandedEvents = expandRecurringEvent(event, startDate, endDate);
-      allExpandedEvents.push(...expandedEvents);
-    });
-    
-    return allExpandedEvents;
+/**
+ * Build a CalendarEvent from a parsed VEVENT (or a RECURRENCE-ID override),
+ * resolving its dates to instants.
+ */
+function toCalendarEvent(
+  component: any,
+  key: string,
+  calendarTimezone: string | null,
+  timezones: VTimezoneDefinitions
+): CalendarEvent {
+  // The event's own TZID wins; floating times use the calendar timezone
+  const rawStart = component.start as ICSDateValue | undefined;
+  const sourceTimezone = rawStart?.tz || (rawStart?.utc ? 'UTC' : calendarTimezone) || undefined;
+  const allDay = !!rawStart?.dateOnly;
+  
+  const startDate = component.start ? resolveICSDate(component.start, sourceTimezone, timezones) : new Date();
+  let endDate = component.end
+    ? resolveICSDate(component.end, (component.end as ICSDateValue).tz || sourceTimezone, timezones)
+    : new Date();
+
+  // An all-day event without DTEND lasts one day (RFC 5545 3.6.1)
+  if (allDay && !component.end) {
+    endDate = new Date(startDate.getTime() + 24 * 60 * 60 * 1000);
+  }
+  
+  const event: CalendarEvent = {
+    uid: component.uid || key,
+    summary: component.summary || 'No Title',
+    description: component.description || '',
+    start: startDate,
+    end: endDate,
+    location: typeof component.location === 'string' ? component.location : (component.location || ''),
+    status: typeof component.status === 'string' ? component.status : 'CONFIRMED',
+    sourceTimezone,
+  };
+
+  if (allDay) {
+    event.allDay = true;
+  }
+
+  if (component.rrule) {
+    event.recurrenceRule = component.rrule.toString();
+  }
+
+  if (component.lastmodified instanceof Date) {
+    event.lastModified = component.lastmodified;
+  }
+
+  if (component.recurrenceid instanceof Date) {
+    const recurrenceId = component.recurrenceid as ICSDateValue;
+    event.recurrenceId = resolveICSDate(recurrenceId, recurrenceId.tz || sourceTimezone, timezones);
+  }
+
+  return event;
+}
+
+/**
+ * Expand recurring events of a parsed calendar into single occurrences within
+ * [startDate, endDate], applying EXDATE exclusions and RECURRENCE-ID overrides.
+ * Single events outside the range are left out.
+ */
+export function expandICSEvents(calendar: ParsedICSCalendar, startDate: Date, endDate: Date): CalendarEvent[] {
+  const allExpandedEvents: CalendarEvent[] = [];
+
+  calendar.events.forEach(event => {
+    const expandedEvents = expandRecurringEvent(event, startDate, endDate, calendar.timezones);
+    allExpandedEvents.push(...expandedEvents);
   });
+
+  return allExpandedEvents;
+}
+
+/**
+ * Events of a parsed calendar with recurring events kept whole, for syncs
+ * that write native recurring Google events. A series is listed when one of
+ * its occurrences falls within [startDate, endDate]; cancelled instances are
+ * added to its EXDATEs and modified ones stay in `overrides`. Single events
+ * outside the range are left out.
+ */
+export function seriesICSEvents(calendar: ParsedICSCalendar, startDate: Date, endDate: Date): CalendarEvent[] {
+  return calendar.events.flatMap(event => {
+    if (!event.recurrenceRule) return isInWindow(event, startDate, endDate) ? [event] : [];
+
+    try {
+      const timezone = event.allDay ? undefined : event.sourceTimezone;
+      const overrides = (event.overrides || []).filter(override => override.recurrenceId);
+      const cancelled = overrides.filter(override => override.status?.toUpperCase() === 'CANCELLED');
+      const modified = overrides.filter(override => override.status?.toUpperCase() !== 'CANCELLED');
+
+      const inWindow = expandOccurrences(event.recurrenceRule, event.start, timezone, startDate, endDate, calendar.timezones).length > 0
+        || modified.some(override => override.start >= startDate && override.start <= endDate);
+      if (!inWindow) return [];
+
+      const exceptionDates = [...(event.exceptionDates || []), ...cancelled.map(override => override.recurrenceId!)];
+      return [{
+        ...event,
+        exceptionDates: exceptionDates.length > 0 ? exceptionDates : undefined,
+        overrides: modified.length > 0 ? modified : undefined,
+      }];
+    } catch (error) {
+      console.error(`❌ Error reading recurring event "${event.summary}":`, error);
+      return [event];
+    }
+  });
+}
+
+export function parseICSFromUrlWithExpansion(icsUrl: string, startDate: Date, endDate: Date, targetTimeZone?: string): Promise<CalendarEvent[]> {
+  return fetchICSCalendar(icsUrl).then(calendar => expandICSEvents(calendar, startDate, endDate));
 }
 
 export function filterEventsForMonth(events: CalendarEvent[], year: number, month: number): CalendarEvent[] {
@@ -0,0 +1,137 @@
+import type { CalendarEvent } from './ics-parser';
+
+/**
+ * Writing events back to ICS
+ *
+ * Two-way syncs send Google edits to the source as calendar resources. An
+ * existing resource is rewritten in place, so properties the sync does not
+ * manage (attendees, alarms, categories, ...) survive the round trip. Times
+ * are written in UTC and all-day events as dates.
+ */
+
+const PRODID = '-//Calendar Sync App//Two-way sync//EN';
+
+// Properties of the VEVENT that `applyEventChanges` replaces
+const MANAGED_PROPERTIES = new Set([
+  'DTSTART',
+  'DTEND',
+  'DURATION',
+  'SUMMARY',
+  'DESCRIPTION',
+  'LOCATION',
+  'DTSTAMP',
+  'LAST-MODIFIED',
+  'SEQUENCE',
+]);
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/** Fold content lines longer than 75 characters (RFC 5545 3.1) */
+function foldLine(line: string): string {
+  if (line.length <= 75) return line;
+
+  const parts = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) {
+    parts.push(` ${line.slice(i, i + 74)}`);
+  }
+  return parts.join('\r\n');
+}
+
+function eventLines(event: CalendarEvent, now: Date, sequence: number): string[] {
+  const lines = [
+    `DTSTAMP:${formatDateTime(now)}`,
+    `LAST-MODIFIED:${formatDateTime(now)}`,
+    `SEQUENCE:${sequence}`,
+    event.allDay ? `DTSTART;VALUE=DATE:${formatDate(event.start)}` : `DTSTART:${formatDateTime(event.start)}`,
+    event.allDay ? `DTEND;VALUE=DATE:${formatDate(event.end)}` : `DTEND:${formatDateTime(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  return lines;
+}
+
+function joinLines(lines: string[]): string {
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/** A new calendar resource holding only `event` */
+export function serializeCalendarEvent(event: CalendarEvent, now: Date = new Date()): string {
+  return joinLines([
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    ...eventLines(event, now, 0),
+    ...(event.status ? [`STATUS:${event.status.toUpperCase()}`] : []),
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ]);
+}
+
+/**
+ * Rewrite the times, title, description and location of the main VEVENT of
+ * a calendar resource, bumping its SEQUENCE. Everything else is kept.
+ */
+export function applyEventChanges(icsData: string, event: CalendarEvent, now: Date = new Date()): string {
+  const lines = icsData.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line !== '');
+  const output: string[] = [];
+
+  let inEvent = false;
+  let block: string[] = [];
+  let rewritten = false;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      inEvent = true;
+      block = [line];
+      continue;
+    }
+
+    if (!inEvent) {
+      output.push(line);
+      continue;
+    }
+
+    if (line !== 'END:VEVENT') {
+      block.push(line);
+      continue;
+    }
+
+    inEvent = false;
+    const isOverride = block.some(entry => /^RECURRENCE-ID[;:]/.test(entry));
+    if (rewritten || isOverride) {
+      output.push(...block, line);
+      continue;
+    }
+
+    const sequenceLine = block.find(entry => /^SEQUENCE[;:]/.test(entry));
+    const sequence = sequenceLine ? (parseInt(sequenceLine.slice(sequenceLine.indexOf(':') + 1), 10) || 0) + 1 : 1;
+    const kept = block.filter(entry => !MANAGED_PROPERTIES.has(entry.split(/[;:]/)[0].toUpperCase()));
+
+    output.push(...kept, ...eventLines(event, now, sequence), line);
+    rewritten = true;
+  }
+
+  if (!rewritten) {
+    throw new Error('Calendar resource has no VEVENT to update');
+  }
+
+  return joinLines(output);
+}
@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+
+/**
+ * Stored credentials
+ *
+ * Passwords of third-party services (e.g. the CalDAV server of a two-way
+ * sync) are stored encrypted with AES-256-GCM under `ENCRYPTION_KEY`, as
+ * `iv:authTag:ciphertext` in base64, and are never sent back to clients.
+ */
+
+function getKey(): Buffer {
+  const secret = process.env.ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error('ENCRYPTION_KEY is not set');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+export function encryptSecret(value: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+}
+
+export function decryptSecret(value: string): string {
+  const [iv, authTag, ciphertext] = value.split(':').map(part => Buffer.from(part, 'base64'));
+  if (!iv || !authTag || !ciphertext) {
+    throw new Error('Stored secret is malformed');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+/** A sync as returned by the API: the stored password is replaced by whether one is set */
+export function withoutSecrets<T extends { caldavPassword?: string | null }>(
+  sync: T
+): Omit<T, 'caldavPassword'> & { hasCaldavPassword: boolean } {
+  const { caldavPassword, ...rest } = sync;
+  return { ...rest, hasCaldavPassword: !!caldavPassword };
+}
@@ -0,0 +1,172 @@
+import { db } from './db';
+import { syncLogs } from './db/schema';
+import { and, desc, eq, gte, lt } from 'drizzle-orm';
+import type { GoogleQuotaUsage } from './google-quota';
+
+/**
+ * Sync run history
+ *
+ * Every run writes a `sync_logs` row (`logSyncResult`). These helpers read
+ * them back for the sync detail page: pages of runs, newest first, and daily
+ * success counts for the charts.
+ */
+
+export const DEFAULT_HISTORY_PAGE_SIZE = 20;
+export const MAX_HISTORY_PAGE_SIZE = 100;
+export const DEFAULT_HISTORY_STATS_DAYS = 30;
+export const MAX_HISTORY_STATS_DAYS = 90;
+
+export type SyncLog = typeof syncLogs.$inferSelect;
+export type SyncRunStatus = 'success' | 'error' | 'not_modified';
+
+export interface SyncRun {
+  id: string;
+  status: SyncRunStatus;
+  createdAt: Date;
+  eventsProcessed: number;
+  eventsCreated: number;
+  eventsUpdated: number;
+  eventsDeleted: number;
+  durationMs: number | null;
+  errors: string[];
+  quotaUsage?: GoogleQuotaUsage; // Missing for runs that never reached Google
+}
+
+export interface SyncHistoryPage {
+  runs: SyncRun[];
+  // Pass as `before` to get the next (older) page; null on the last page
+  nextCursor: string | null;
+}
+
+export interface SyncHistoryDay {
+  date: string; // YYYY-MM-DD (UTC)
+  success: number;
+  error: number;
+  notModified: number;
+}
+
+export interface SyncHistoryStats {
+  days: SyncHistoryDay[];
+  totalRuns: number;
+  successRate: number | null; // Share of runs without errors, 0-1; null without runs
+  averageDurationMs: number | null;
+}
+
+function toCount(value: string | null): number {
+  const count = Number(value);
+  return Number.isFinite(count) ? count : 0;
+}
+
+/** Typed view of a log row; counts and duration are stored as text */
+export function toSyncRun(log: SyncLog): SyncRun {
+  const duration = log.duration ? parseInt(log.duration, 10) : NaN;
+
+  return {
+    id: log.id,
+    status: log.status as SyncRunStatus,
+    createdAt: log.createdAt,
+    eventsProcessed: toCount(log.eventsProcessed),
+    eventsCreated: toCount(log.eventsCreated),
+    eventsUpdated: toCount(log.eventsUpdated),
+    eventsDeleted: toCount(log.eventsDeleted),
+    durationMs: isNaN(duration) ? null : duration,
+    errors: Array.isArray(log.errors) ? (log.errors as string[]) : [],
+    ...(log.quotaUsage != null && { quotaUsage: log.quotaUsage as GoogleQuotaUsage }),
+  };
+}
+
+/**
+ * Validate a user-supplied count (page size or number of days). Returns the
+ * default when missing and `null` when invalid.
+ */
+export function parseHistoryCount(value: string | null, fallback: number, max: number): number | null {
+  if (value === null || value === '') return fallback;
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1 || count > max) return null;
+  return count;
+}
+
+/** One page of runs, newest first, older than the `before` cursor if given */
+export async function getSyncHistory(
+  calendarSyncId: string,
+  options: { limit?: number; before?: Date } = {}
+): Promise<SyncHistoryPage> {
+  const limit = Math.min(options.limit ?? DEFAULT_HISTORY_PAGE_SIZE, MAX_HISTORY_PAGE_SIZE);
+
+  const rows = await db
+    .select()
+    .from(syncLogs)
+    .where(
+      and(
+        eq(syncLogs.calendarSyncId, calendarSyncId),
+        options.before ? lt(syncLogs.createdAt, options.before) : undefined
+      )
+    )
+    .orderBy(desc(syncLogs.createdAt))
+    .limit(limit + 1);
+
+  const runs = rows.slice(0, limit).map(toSyncRun);
+  return {
+    runs,
+    nextCursor: rows.length > limit ? runs[runs.length - 1].createdAt.toISOString() : null,
+  };
+}
+
+/** Daily run counts for the last `days` days (oldest first) plus overall rates */
+export function summarizeSyncRuns(runs: SyncRun[], days: number, now: Date = new Date()): SyncHistoryStats {
+  const buckets = new Map<string, SyncHistoryDay>();
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = new Date(now.getTime() - offset * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    buckets.set(date, { date, success: 0, error: 0, notModified: 0 });
+  }
+
+  let successful = 0;
+  let totalDuration = 0;
+  let timedRuns = 0;
+
+  for (const run of runs) {
+    const bucket = buckets.get(run.createdAt.toISOString().split('T')[0]);
+    if (!bucket) continue;
+
+    if (run.status === 'error') {
+      bucket.error++;
+    } else {
+      successful++;
+      if (run.status === 'not_modified') {
+        bucket.notModified++;
+      } else {
+        bucket.success++;
+      }
+    }
+
+    if (run.durationMs !== null) {
+      totalDuration += run.durationMs;
+      timedRuns++;
+    }
+  }
+
+  const totalRuns = Array.from(buckets.values()).reduce((sum, day) => sum + day.success + day.error + day.notModified, 0);
+
+  return {
+    days: Array.from(buckets.values()),
+    totalRuns,
+    successRate: totalRuns > 0 ? successful / totalRuns : null,
+    averageDurationMs: timedRuns > 0 ? Math.round(totalDuration / timedRuns) : null,
+  };
+}
+
+export async function getSyncHistoryStats(
+  calendarSyncId: string,
+  days: number = DEFAULT_HISTORY_STATS_DAYS,
+  now: Date = new Date()
+): Promise<SyncHistoryStats> {
+  const since = new Date(now.getTime() - Math.min(days, MAX_HISTORY_STATS_DAYS) * 24 * 60 * 60 * 1000);
+
+  const rows = await db
+    .select()
+    .from(syncLogs)
+    .where(and(eq(syncLogs.calendarSyncId, calendarSyncId), gte(syncLogs.createdAt, since)));
+
+  return summarizeSyncRuns(rows.map(toSyncRun), Math.min(days, MAX_HISTORY_STATS_DAYS), now);
+}
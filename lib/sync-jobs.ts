@@ -0,0 +1,281 @@
+import { db } from './db';
+import { calendarSyncs, syncJobs } from './db/schema';
+import { and, asc, desc, eq, inArray, lt, lte, or, sql } from 'drizzle-orm';
+import { syncCalendar } from './sync-service';
+import { syncBusyFreeCalendar } from './busy-free-sync-service';
+import { syncTwoWayCalendar } from './two-way-sync-service';
+
+/**
+ * Durable sync job queue
+ *
+ * Every sync run (manual or scheduled) is a row in `sync_jobs`. Workers claim
+ * due jobs with `FOR UPDATE SKIP LOCKED`, so several cron invocations can
+ * drain the queue side by side. Transient failures are retried with
+ * exponential backoff; permanent ones and exhausted retries end up `dead`.
+ *
+ *   queued -> running -> succeeded
+ *                     -> failed (retry at runAt) -> running -> ...
+ *                     -> dead
+ */
+
+export type SyncJob = typeof syncJobs.$inferSelect;
+export type SyncJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'dead';
+export type SyncJobTrigger = 'manual' | 'schedule';
+
+export const MAX_JOB_ATTEMPTS = 5;
+export const JOB_BACKOFF_BASE_MS = 60 * 1000;
+export const JOB_BACKOFF_MAX_MS = 60 * 60 * 1000;
+// A job still running after this long belongs to a crashed or timed-out worker
+export const JOB_LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+const PENDING_STATUSES: SyncJobStatus[] = ['queued', 'running', 'failed'];
+
+export interface EnqueueOptions {
+  trigger: SyncJobTrigger;
+  userTimeZone?: string;
+  runAt?: Date;
+}
+
+export interface WorkerOptions {
+  workerId?: string;
+  jobId?: string; // Only run this job
+  deadline?: number; // Stop claiming jobs after this timestamp (ms)
+  maxJobs?: number;
+}
+
+export interface WorkerResult {
+  workerId: string;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  dead: number;
+}
+
+/** Delay before retry number `attempt` (1-based): 1, 2, 4, 8 ... minutes, capped at an hour */
+export function getBackoffDelay(attempt: number): number {
+  return Math.min(JOB_BACKOFF_BASE_MS * 2 ** Math.max(attempt - 1, 0), JOB_BACKOFF_MAX_MS);
+}
+
+/**
+ * Whether a failed run is worth retrying. Revoked Google access, a missing
+ * sync and feeds answering with a client error will fail the same way again.
+ */
+export function isTransientSyncError(message: string): boolean {
+  if (message === 'REAUTH_REQUIRED' || message.includes('sign back in')) return false;
+  if (message.includes('Calendar sync configuration not found')) return false;
+
+  const feedStatus = message.match(/Failed to fetch ICS: (\d{3})/);
+  if (feedStatus) {
+    const status = Number(feedStatus[1]);
+    return status >= 500 || status === 408 || status === 429;
+  }
+
+  return true;
+}
+
+export function createWorkerId(): string {
+  return `worker_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+}
+
+// Lookups redone when a concurrent request queued the job first
+const ENQUEUE_ATTEMPTS = 3;
+
+async function findPendingJob(calendarSyncId: string): Promise<SyncJob | undefined> {
+  const pending = await db
+    .select()
+    .from(syncJobs)
+    .where(and(eq(syncJobs.calendarSyncId, calendarSyncId), inArray(syncJobs.status, PENDING_STATUSES)))
+    .orderBy(asc(syncJobs.createdAt))
+    .limit(1);
+  return pending[0];
+}
+
+/**
+ * Queue a run for a sync. A sync has at most one pending job: if one exists it
+ * is returned instead, and a manual request makes a job waiting for its retry
+ * due immediately. A unique index enforces this when two requests race; the
+ * losing insert does nothing and the winner's job is returned.
+ */
+export async function enqueueSyncJob(calendarSyncId: string, options: EnqueueOptions): Promise<SyncJob> {
+  const now = new Date();
+
+  for (let attempt = 0; attempt < ENQUEUE_ATTEMPTS; attempt++) {
+    const pending = await findPendingJob(calendarSyncId);
+    if (pending) {
+      if (options.trigger === 'manual' && pending.status !== 'running' && pending.runAt > now) {
+        const [rescheduled] = await db
+          .update(syncJobs)
+          .set({ runAt: now, updatedAt: now, ...(options.userTimeZone && { userTimeZone: options.userTimeZone }) })
+          .where(eq(syncJobs.id, pending.id))
+          .returning();
+        return rescheduled ?? pending;
+      }
+      return pending;
+    }
+
+    const [job] = await db
+      .insert(syncJobs)
+      .values({
+        calendarSyncId,
+        trigger: options.trigger,
+        status: 'queued',
+        maxAttempts: MAX_JOB_ATTEMPTS,
+        runAt: options.runAt ?? now,
+        userTimeZone: options.userTimeZone || null,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (job) {
+      console.log(`📨 Queued ${options.trigger} sync job ${job.id} for sync ${calendarSyncId}`);
+      return job;
+    }
+    console.log(`🔁 Sync ${calendarSyncId} got a pending job from a concurrent request`);
+  }
+
+  throw new Error(`Could not queue a job for sync ${calendarSyncId}`);
+}
+
+export async function getSyncJob(jobId: string): Promise<SyncJob | undefined> {
+  const jobs = await db.select().from(syncJobs).where(eq(syncJobs.id, jobId)).limit(1);
+  return jobs[0];
+}
+
+/** Most recent jobs of a sync, newest first */
+export async function getRecentSyncJobs(calendarSyncId: string, limit: number = 20): Promise<SyncJob[]> {
+  return db
+    .select()
+    .from(syncJobs)
+    .where(eq(syncJobs.calendarSyncId, calendarSyncId))
+    .orderBy(desc(syncJobs.createdAt))
+    .limit(limit);
+}
+
+/**
+ * Atomically claim the next due job (or `jobId` if given and due): queued
+ * jobs, failed jobs whose backoff has passed, and running jobs whose lock
+ * expired because their worker crashed or timed out. Rows locked by another
+ * transaction are skipped, so concurrent workers never claim the same job.
+ */
+export async function claimSyncJob(workerId: string, jobId?: string, now: Date = new Date()): Promise<SyncJob | undefined> {
+  const staleBefore = new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS);
+
+  const nextJob = db
+    .select({ id: syncJobs.id })
+    .from(syncJobs)
+    .where(
+      and(
+        jobId ? eq(syncJobs.id, jobId) : undefined,
+        or(
+          and(inArray(syncJobs.status, ['queued', 'failed']), lte(syncJobs.runAt, now)),
+          and(eq(syncJobs.status, 'running'), lt(syncJobs.lockedAt, staleBefore))
+        )
+      )
+    )
+    .orderBy(asc(syncJobs.runAt))
+    .limit(1)
+    .for('update', { skipLocked: true });
+
+  const [claimed] = await db
+    .update(syncJobs)
+    .set({
+      status: 'running',
+      attempts: sql`${syncJobs.attempts} + 1`,
+      lockedBy: workerId,
+      lockedAt: now,
+      updatedAt: now,
+    })
+    .where(inArray(syncJobs.id, nextJob))
+    .returning();
+
+  return claimed;
+}
+
+async function finishSyncJob(job: SyncJob, values: Partial<typeof syncJobs.$inferInsert>): Promise<SyncJob> {
+  const now = new Date();
+  const [updated] = await db
+    .update(syncJobs)
+    .set({ lockedBy: null, lockedAt: null, updatedAt: now, ...values })
+    // A worker whose lock was taken over must not overwrite the new run
+    .where(and(eq(syncJobs.id, job.id), eq(syncJobs.lockedBy, job.lockedBy!)))
+    .returning();
+  return updated ?? job;
+}
+
+/** Record the outcome of a failed attempt: retry later with backoff, or give up */
+export async function failSyncJob(job: SyncJob, errorMessage: string, now: Date = new Date()): Promise<SyncJob> {
+  const retry = isTransientSyncError(errorMessage) && job.attempts < job.maxAttempts;
+
+  if (retry) {
+    const runAt = new Date(now.getTime() + getBackoffDelay(job.attempts));
+    console.warn(`🔁 Sync job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying at ${runAt.toISOString()}: ${errorMessage}`);
+    return finishSyncJob(job, { status: 'failed', lastError: errorMessage, runAt });
+  }
+
+  console.error(`💀 Sync job ${job.id} gave up after ${job.attempts} attempt(s): ${errorMessage}`);
+  return finishSyncJob(job, { status: 'dead', lastError: errorMessage, finishedAt: now });
+}
+
+/** Run a claimed job and record its outcome */
+export async function runSyncJob(job: SyncJob): Promise<SyncJob> {
+  console.log(`▶️ Running sync job ${job.id} (attempt ${job.attempts}/${job.maxAttempts}) for sync ${job.calendarSyncId}`);
+
+  // Reclaimed from workers that died mid-run more often than it may be retried
+  if (job.attempts > job.maxAttempts) {
+    return failSyncJob(job, job.lastError || 'Sync run did not finish');
+  }
+
+  try {
+    const [config] = await db
+      .select({ syncType: calendarSyncs.syncType })
+      .from(calendarSyncs)
+      .where(eq(calendarSyncs.id, job.calendarSyncId))
+      .limit(1);
+
+    if (!config) {
+      throw new Error('Calendar sync configuration not found');
+    }
+
+    const userTimeZone = job.userTimeZone || undefined;
+    const result = config.syncType === 'busy_free'
+      ? await syncBusyFreeCalendar(job.calendarSyncId, userTimeZone)
+      : config.syncType === 'two_way'
+        ? await syncTwoWayCalendar(job.calendarSyncId, userTimeZone)
+        : await syncCalendar(job.calendarSyncId, userTimeZone);
+
+    // Per-event errors are part of the result; the run itself completed
+    return finishSyncJob(job, { status: 'succeeded', result, lastError: null, finishedAt: new Date() });
+  } catch (error) {
+    return failSyncJob(job, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+/**
+ * Claim and run due jobs one after another until the queue is empty, the
+ * deadline has passed or `maxJobs` were processed.
+ */
+export async function runSyncWorker(options: WorkerOptions = {}): Promise<WorkerResult> {
+  const workerId = options.workerId ?? createWorkerId();
+  const result: WorkerResult = { workerId, processed: 0, succeeded: 0, failed: 0, dead: 0 };
+
+  while (options.maxJobs === undefined || result.processed < options.maxJobs) {
+    if (options.deadline && Date.now() >= options.deadline) {
+      console.log(`⏱️ Worker ${workerId} reached its deadline`);
+      break;
+    }
+
+    const job = await claimSyncJob(workerId, options.jobId);
+    if (!job) break;
+
+    const finished = await runSyncJob(job);
+    result.processed++;
+    if (finished.status === 'succeeded') result.succeeded++;
+    else if (finished.status === 'dead') result.dead++;
+    else result.failed++;
+
+    if (options.jobId) break;
+  }
+
+  console.log(`🏁 Worker ${workerId} processed ${result.processed} job(s): ${result.succeeded} succeeded, ${result.failed} to retry, ${result.dead} dead`);
+  return result;
+}
@@ -0,0 +1,166 @@
+import { db } from './db';
+import { calendarSyncs, syncJobs } from './db/schema';
+import { and, desc, eq, isNull, lt, or } from 'drizzle-orm';
+
+/**
+ * Per-sync lease lock
+ *
+ * Only one run of a calendar sync may write to Google at a time, otherwise a
+ * manual run and a scheduled one both create the same events. A run takes a
+ * lease on its `calendar_syncs` row and renews it while it reports progress;
+ * a lease left behind by a crashed run simply expires.
+ */
+
+export const SYNC_LEASE_MS = 6 * 60 * 1000; // Longer than a function's 300s maxDuration
+const PROGRESS_WRITE_INTERVAL_MS = 2000;
+
+export type SyncPhase = 'fetching' | 'processing' | 'deleting';
+
+export interface SyncProgress {
+  phase: SyncPhase;
+  processed?: number;
+  total?: number;
+  updatedAt?: string;
+}
+
+export interface SyncLockStatus {
+  lockedBy: string;
+  lockedUntil: Date;
+  progress: SyncProgress | null;
+}
+
+export type ReportProgress = (progress: SyncProgress) => Promise<void>;
+
+function createLockOwner(): string {
+  return `run_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/** Take the lease if nobody holds it (or the holder's lease expired) */
+export async function acquireSyncLock(calendarSyncId: string, owner: string, now: Date = new Date()): Promise<boolean> {
+  const acquired = await db
+    .update(calendarSyncs)
+    .set({
+      lockedBy: owner,
+      lockedUntil: new Date(now.getTime() + SYNC_LEASE_MS),
+      syncProgress: null,
+    })
+    .where(
+      and(
+        eq(calendarSyncs.id, calendarSyncId),
+        or(isNull(calendarSyncs.lockedUntil), lt(calendarSyncs.lockedUntil, now))
+      )
+    )
+    .returning({ id: calendarSyncs.id });
+
+  return acquired.length > 0;
+}
+
+/** Extend the lease and publish progress; no-op if the lease was lost */
+export async function renewSyncLock(calendarSyncId: string, owner: string, progress: SyncProgress): Promise<void> {
+  const now = new Date();
+  await db
+    .update(calendarSyncs)
+    .set({
+      lockedUntil: new Date(now.getTime() + SYNC_LEASE_MS),
+      syncProgress: { ...progress, updatedAt: now.toISOString() },
+    })
+    .where(and(eq(calendarSyncs.id, calendarSyncId), eq(calendarSyncs.lockedBy, owner)));
+}
+
+export async function releaseSyncLock(calendarSyncId: string, owner: string): Promise<void> {
+  await db
+    .update(calendarSyncs)
+    .set({ lockedBy: null, lockedUntil: null, syncProgress: null })
+    .where(and(eq(calendarSyncs.id, calendarSyncId), eq(calendarSyncs.lockedBy, owner)));
+}
+
+/** Current holder of a sync's lease, or `null` if it is free */
+export async function getSyncLock(calendarSyncId: string, now: Date = new Date()): Promise<SyncLockStatus | null> {
+  const rows = await db
+    .select({
+      lockedBy: calendarSyncs.lockedBy,
+      lockedUntil: calendarSyncs.lockedUntil,
+      syncProgress: calendarSyncs.syncProgress,
+    })
+    .from(calendarSyncs)
+    .where(eq(calendarSyncs.id, calendarSyncId))
+    .limit(1);
+
+  const row = rows[0];
+  if (!row?.lockedBy || !row.lockedUntil || row.lockedUntil < now) {
+    return null;
+  }
+
+  return {
+    lockedBy: row.lockedBy,
+    lockedUntil: row.lockedUntil,
+    progress: (row.syncProgress as SyncProgress | null) ?? null,
+  };
+}
+
+/**
+ * Body of the 409 response returned when a sync is already running: the
+ * lease holder's progress and the job it belongs to, if any.
+ */
+export async function getSyncInProgressDetails(calendarSyncId: string) {
+  const lock = await getSyncLock(calendarSyncId);
+  const runningJobs = await db
+    .select()
+    .from(syncJobs)
+    .where(and(eq(syncJobs.calendarSyncId, calendarSyncId), eq(syncJobs.status, 'running')))
+    .orderBy(desc(syncJobs.updatedAt))
+    .limit(1);
+
+  return {
+    success: false,
+    error: 'This calendar is already being synced. Please wait for the current sync to finish.',
+    code: 'SYNC_IN_PROGRESS',
+    progress: lock?.progress ?? null,
+    lockedUntil: lock?.lockedUntil ?? null,
+    job: runningJobs[0] ?? null,
+  };
+}
+
+/**
+ * Run `fn` while holding the sync's lease. Throws `SYNC_IN_PROGRESS` when
+ * another run holds it. `fn` receives a progress reporter that also renews
+ * the lease (writes are throttled).
+ */
+export async function withSyncLock<T>(
+  calendarSyncId: string,
+  fn: (reportProgress: ReportProgress) => Promise<T>
+): Promise<T> {
+  const owner = createLockOwner();
+
+  if (!(await acquireSyncLock(calendarSyncId, owner))) {
+    console.log(`🔒 Sync ${calendarSyncId} is already running, not starting another run`);
+    throw new Error('SYNC_IN_PROGRESS');
+  }
+
+  let lastWrite = 0;
+  let lastPhase: SyncPhase | undefined;
+  const reportProgress: ReportProgress = async (progress) => {
+    const recent = Date.now() - lastWrite < PROGRESS_WRITE_INTERVAL_MS;
+    if (recent && progress.phase === lastPhase && progress.processed !== progress.total) {
+      return;
+    }
+    lastWrite = Date.now();
+    lastPhase = progress.phase;
+    try {
+      await renewSyncLock(calendarSyncId, owner, progress);
+    } catch (error) {
+      console.warn('⚠️ Failed to record sync progress:', error);
+    }
+  };
+
+  try {
+    return await fn(reportProgress);
+  } finally {
+    try {
+      await releaseSyncLock(calendarSyncId, owner);
+    } catch (error) {
+      // The lease expires on its own
+      console.warn('⚠️ Failed to release sync lock:', error);
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import type { calendar_v3 } from 'googleapis';
+import type { CalendarEvent } from './ics-parser';
+import { buildEventKey, getGoogleEventStart, getSourceTag, isLegacyMarkedEvent } from './event-identity';
+import { EventMapping, generateContentHash } from './event-mappings';
+import { buildGoogleEventBody } from './google-event-body';
+import { applyEventTemplates, EventTemplates } from './event-templates';
+import { EventAppearance, formatReminders } from './event-appearance';
+
+/**
+ * Sync preview plans
+ *
+ * A plan lists what a sync run would do to the target calendar without
+ * writing anything: events it would create, update (with the fields that
+ * change), delete, and leave alone. It is built with the same mappings,
+ * content hashes and orphan rules as `syncCalendar`.
+ */
+
+export type SyncPlanField =
+  | 'summary'
+  | 'description'
+  | 'location'
+  | 'start'
+  | 'end'
+  | 'timeZone'
+  | 'status'
+  | 'recurrence'
+  | 'colorId'
+  | 'reminders'
+  | 'visibility'
+  | 'transparency';
+
+export interface SyncFieldChange {
+  field: SyncPlanField;
+  before: string;
+  after: string;
+}
+
+export interface SyncPlanEvent {
+  key: string;
+  summary: string;
+  start: string;
+  googleEventId?: string;
+  changes?: SyncFieldChange[];
+}
+
+export interface SyncPlan {
+  syncId: string;
+  window: { start: string; end: string };
+  eventsInFeed: number;
+  create: SyncPlanEvent[];
+  update: SyncPlanEvent[];
+  delete: SyncPlanEvent[];
+  unchanged: SyncPlanEvent[];
+  generatedAt: string;
+}
+
+export interface SyncPlanInput {
+  syncId: string;
+  events: CalendarEvent[];
+  mappings: Map<string, EventMapping>;
+  googleEvents: { [key: string]: calendar_v3.Schema$Event };
+  windowStart: Date;
+  windowEnd: Date;
+  userTimeZone?: string;
+  templates?: EventTemplates | null;
+  appearance?: EventAppearance | null;
+  // Settings passed to generateContentHash by the real run
+  hashSettings: Record<string, unknown>;
+  deleteRemovedEvents: boolean;
+  // Legacy events do not say which sync wrote them, so a calendar shared by several syncs keeps them
+  deleteLegacyEvents: boolean;
+  // Whether events of a source may go; multi-source syncs keep those of sources that could not be read
+  canRemoveSourceEvent?: (sourceTag?: string | null) => boolean;
+}
+
+export interface OrphanedEvent {
+  key: string;
+  googleEventId: string;
+  summary: string;
+  start: Date;
+}
+
+export interface OrphanedEventsInput {
+  feedKeys: Set<string>; // Keys of the events still in the feed
+  mappings: Map<string, EventMapping>;
+  googleEvents: { [key: string]: calendar_v3.Schema$Event };
+  windowStart: Date;
+  windowEnd: Date;
+  deleteLegacyEvents: boolean;
+  canRemoveSourceEvent?: (sourceTag?: string | null) => boolean;
+}
+
+/**
+ * Synced events whose source event left the feed, from the sync's mappings
+ * and the events Google lists for it. Only events starting inside the window
+ * count, since the feed was only expanded for that range; native series may
+ * have started before it. An empty feed is more often a broken export than a
+ * cleared calendar, so it never orphans anything.
+ */
+export function findOrphanedEvents(input: OrphanedEventsInput): OrphanedEvent[] {
+  if (input.feedKeys.size === 0) return [];
+
+  const candidates = new Map<string, OrphanedEvent & { sourceTag?: string | null; isSeries: boolean }>();
+  input.mappings.forEach((mapping, key) => {
+    candidates.set(key, {
+      key,
+      googleEventId: mapping.googleEventId,
+      summary: mapping.eventTitle,
+      start: mapping.startDateTime,
+      sourceTag: mapping.sourceTag,
+      isSeries: !!mapping.isRecurring,
+    });
+  });
+
+  for (const [key, googleEvent] of Object.entries(input.googleEvents)) {
+    const start = getGoogleEventStart(googleEvent);
+    if (!googleEvent.id || !start) continue;
+    if (!input.deleteLegacyEvents && isLegacyMarkedEvent(googleEvent)) continue;
+
+    const mapped = candidates.get(key);
+    candidates.set(key, {
+      key,
+      googleEventId: googleEvent.id,
+      summary: googleEvent.summary || mapped?.summary || '',
+      start,
+      sourceTag: getSourceTag(googleEvent) ?? mapped?.sourceTag,
+      isSeries: !!googleEvent.recurrence?.length,
+    });
+  }
+
+  return Array.from(candidates.values())
+    .filter(candidate => !input.feedKeys.has(candidate.key))
+    .filter(candidate => candidate.start <= input.windowEnd && (candidate.start >= input.windowStart || candidate.isSeries))
+    .filter(candidate => !input.canRemoveSourceEvent || input.canRemoveSourceEvent(candidate.sourceTag))
+    .map(({ key, googleEventId, summary, start }) => ({ key, googleEventId, summary, start }));
+}
+
+function formatEventDateTime(value?: calendar_v3.Schema$EventDateTime): string {
+  if (!value) return '';
+  if (value.date) return value.date;
+  return value.dateTime ? new Date(value.dateTime).toISOString() : '';
+}
+
+function comparableFields(event: calendar_v3.Schema$Event): Record<SyncPlanField, string> {
+  return {
+    summary: (event.summary || '').trim(),
+    description: (event.description || '').trim(),
+    location: (event.location || '').trim(),
+    start: formatEventDateTime(event.start),
+    end: formatEventDateTime(event.end),
+    timeZone: event.start?.timeZone || '',
+    status: event.status || 'confirmed',
+    recurrence: (event.recurrence || []).join('\n'),
+    colorId: event.colorId || '',
+    reminders: formatReminders(event.reminders),
+    visibility: event.visibility || 'default',
+    transparency: event.transparency || 'opaque',
+  };
+}
+
+/** Fields of the Google copy that an update with `event` would change */
+export function diffGoogleEvent(
+  event: CalendarEvent,
+  googleEvent: calendar_v3.Schema$Event,
+  userTimeZone?: string,
+  appearance?: EventAppearance | null
+): SyncFieldChange[] {
+  const before = comparableFields(googleEvent);
+  const after = comparableFields(buildGoogleEventBody(event, userTimeZone, undefined, appearance));
+
+  return (Object.keys(after) as SyncPlanField[])
+    .filter(field => before[field] !== after[field])
+    .map(field => ({ field, before: before[field], after: after[field] }));
+}
+
+/**
+ * Whether a run can leave a feed event alone: its content is what was last
+ * written, and that Google copy is still among the sync's listed events.
+ * Copies deleted in Google are written again even if the source is unchanged.
+ */
+export function isSyncedEventUnchanged(
+  mapping: EventMapping | undefined,
+  contentHash: string,
+  googleEventIds: Set<string>
+): boolean {
+  return !!mapping && mapping.contentHash === contentHash && googleEventIds.has(mapping.googleEventId);
+}
+
+/**
+ * Decide what a run would do with each feed event and synced Google event.
+ * Updates whose request would not change any visible field count as
+ * unchanged.
+ */
+export function buildSyncPlan(input: SyncPlanInput): SyncPlan {
+  const { events, mappings, googleEvents, windowStart, windowEnd, userTimeZone } = input;
+  const plan: SyncPlan = {
+    syncId: input.syncId,
+    window: { start: windowStart.toISOString(), end: windowEnd.toISOString() },
+    eventsInFeed: events.length,
+    create: [],
+    update: [],
+    delete: [],
+    unchanged: [],
+    generatedAt: new Date().toISOString(),
+  };
+
+  const feedKeys = new Set<string>();
+  const googleEventIds = new Set(Object.values(googleEvents).map(event => event.id!));
+
+  for (const event of events) {
+    const key = buildEventKey(event.uid, event.start);
+    // A feed repeating an occurrence is only written once
+    if (feedKeys.has(key)) continue;
+    feedKeys.add(key);
+
+    const written = applyEventTemplates(event, input.templates);
+    const entry: SyncPlanEvent = { key, summary: written.summary, start: event.start.toISOString() };
+    const mapping = mappings.get(key);
+    const googleEvent = googleEvents[key];
+    const googleEventId = googleEvent?.id ?? mapping?.googleEventId;
+
+    if (isSyncedEventUnchanged(mapping, generateContentHash(event, input.hashSettings), googleEventIds)) {
+      plan.unchanged.push({ ...entry, googleEventId });
+      continue;
+    }
+
+    // Mapped events missing from Google were deleted there and get recreated
+    if (!googleEvent) {
+      plan.create.push(entry);
+      continue;
+    }
+
+    const changes = diffGoogleEvent(written, googleEvent, userTimeZone, input.appearance);
+    if (changes.length === 0) {
+      plan.unchanged.push({ ...entry, googleEventId });
+    } else {
+      plan.update.push({ ...entry, googleEventId, changes });
+    }
+  }
+
+  if (input.deleteRemovedEvents) {
+    plan.delete = findOrphanedEvents({ ...input, feedKeys }).map(orphan => ({
+      key: orphan.key,
+      summary: orphan.summary,
+      start: orphan.start.toISOString(),
+      googleEventId: orphan.googleEventId,
+    }));
+  }
+
+  return plan;
+}
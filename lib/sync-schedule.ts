@@ -0,0 +1,198 @@
+/**
+ * Per-sync schedules
+ *
+ * Each calendar sync runs on its own schedule: hourly, daily, weekly or a
+ * custom five-field cron expression evaluated in UTC. The cron endpoint is a
+ * dispatcher that runs every few minutes and only starts syncs whose
+ * `nextRunAt` has passed.
+ */
+
+export const SYNC_SCHEDULES = ['hourly', 'daily', 'weekly', 'custom'] as const;
+export type SyncSchedule = typeof SYNC_SCHEDULES[number];
+
+export const DEFAULT_SYNC_SCHEDULE: SyncSchedule = 'daily';
+
+export const SYNC_SCHEDULE_LABELS: Record<SyncSchedule, string> = {
+  hourly: 'Every hour',
+  daily: 'Every day',
+  weekly: 'Every week',
+  custom: 'Custom (cron)',
+};
+
+export interface SyncScheduleConfig {
+  schedule?: string | null;
+  scheduleCron?: string | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const PRESET_INTERVALS: Record<string, number> = {
+  hourly: HOUR_MS,
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS,
+};
+
+// Cron matches are searched for this far ahead, enough for "29 Feb" expressions
+const MAX_CRON_LOOKAHEAD_DAYS = 4 * 366;
+
+interface CronField {
+  values: Set<number>;
+  restricted: boolean; // false for "*" and "*/n"
+}
+
+export interface CronExpression {
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField;
+  daysOfWeek: CronField;
+}
+
+function parseCronField(field: string, min: number, max: number): CronField | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) return null;
+
+    const [, range, from, to, stepText] = match;
+    const step = stepText ? Number(stepText) : 1;
+    let start = min;
+    let end = max;
+
+    if (range !== '*') {
+      start = Number(from);
+      // "5/15" means from 5 to the end of the range
+      end = to !== undefined ? Number(to) : stepText ? max : start;
+    }
+
+    if (step < 1 || start < min || end > max || start > end) return null;
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  // Like vixie cron, a field starting with "*" (e.g. "*/2") does not restrict the day
+  return { values, restricted: !field.startsWith('*') };
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day-of-month month
+ * day-of-week) with `*`, lists, ranges and steps. Returns `null` when invalid.
+ */
+export function parseCronExpression(expression: string): CronExpression | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const minutes = parseCronField(fields[0], 0, 59);
+  const hours = parseCronField(fields[1], 0, 23);
+  const daysOfMonth = parseCronField(fields[2], 1, 31);
+  const months = parseCronField(fields[3], 1, 12);
+  const daysOfWeek = parseCronField(fields[4], 0, 7);
+
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) return null;
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.values.delete(7)) {
+    daysOfWeek.values.add(0);
+  }
+
+  return { minutes, hours, daysOfMonth, months, daysOfWeek };
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  if (!cron.months.values.has(date.getUTCMonth() + 1)) return false;
+
+  const dayOfMonth = cron.daysOfMonth.values.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.values.has(date.getUTCDay());
+
+  // Standard cron: when both day fields are restricted, either may match
+  if (cron.daysOfMonth.restricted && cron.daysOfWeek.restricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/** First minute strictly after `after` (UTC) matching the expression, or `null` if there is none */
+export function getNextCronRun(cron: CronExpression, after: Date): Date | null {
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + MAX_CRON_LOOKAHEAD_DAYS * 24 * HOUR_MS;
+
+  while (candidate.getTime() <= limit) {
+    if (!matchesDay(cron, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.values.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.values.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * When a sync should run next, counted from `after` (usually the time its
+ * current run was dispatched). Returns `null` for a custom schedule whose
+ * expression is invalid or never matches.
+ */
+export function getNextRunAt(config: SyncScheduleConfig, after: Date = new Date()): Date | null {
+  const schedule = (config.schedule || DEFAULT_SYNC_SCHEDULE) as SyncSchedule;
+
+  if (schedule === 'custom') {
+    const cron = config.scheduleCron ? parseCronExpression(config.scheduleCron) : null;
+    return cron ? getNextCronRun(cron, after) : null;
+  }
+
+  const interval = PRESET_INTERVALS[schedule] ?? PRESET_INTERVALS[DEFAULT_SYNC_SCHEDULE];
+  return new Date(after.getTime() + interval);
+}
+
+/**
+ * Validate a user-supplied schedule. Returns the normalized schedule,
+ * `undefined` when none was provided, or an error message when it is invalid.
+ */
+export function parseSyncSchedule(
+  schedule: unknown,
+  scheduleCron: unknown
+): { schedule: SyncSchedule; scheduleCron: string | null } | undefined | string {
+  if (schedule === undefined || schedule === null || schedule === '') {
+    return undefined;
+  }
+
+  if (typeof schedule !== 'string' || !SYNC_SCHEDULES.includes(schedule as SyncSchedule)) {
+    return `Invalid schedule: must be one of ${SYNC_SCHEDULES.join(', ')}`;
+  }
+
+  if (schedule !== 'custom') {
+    return { schedule: schedule as SyncSchedule, scheduleCron: null };
+  }
+
+  const expression = typeof scheduleCron === 'string' ? scheduleCron.trim().replace(/\s+/g, ' ') : '';
+  const cron = expression ? parseCronExpression(expression) : null;
+
+  if (!cron) {
+    return 'Invalid cron expression: use five fields (minute hour day month weekday)';
+  }
+  if (!getNextCronRun(cron, new Date())) {
+    return 'Invalid cron expression: it never matches';
+  }
+
+  return { schedule: 'custom', scheduleCron: expression };
+}
+
+/** Short human-readable description of a sync's schedule */
+export function describeSyncSchedule(config: SyncScheduleConfig): string {
+  const schedule = (config.schedule || DEFAULT_SYNC_SCHEDULE) as SyncSchedule;
+  if (schedule === 'custom') {
+    return `Cron: ${config.scheduleCron} (UTC)`;
+  }
+  return SYNC_SCHEDULE_LABELS[schedule] ?? SYNC_SCHEDULE_LABELS[DEFAULT_SYNC_SCHEDULE];
+}
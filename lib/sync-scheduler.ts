@@ -0,0 +1,81 @@
+import { db } from './db';
+import { calendarSyncs } from './db/schema';
+import { and, asc, eq, isNull, lte, or, sql } from 'drizzle-orm';
+import { getNextRunAt } from './sync-schedule';
+import { enqueueSyncJob } from './sync-jobs';
+
+/**
+ * Sync dispatcher
+ *
+ * Called by the cron endpoint every few minutes. Picks the active syncs whose
+ * `nextRunAt` has passed, moves their `nextRunAt` forward and queues a sync
+ * job for each; the job worker runs them.
+ */
+
+export const MAX_SYNCS_PER_DISPATCH = 50;
+
+export interface DispatchResult {
+  due: number;
+  enqueued: number;
+  jobIds: string[];
+}
+
+export async function dispatchDueSyncs(
+  now: Date = new Date(),
+  limit: number = MAX_SYNCS_PER_DISPATCH
+): Promise<DispatchResult> {
+  const result: DispatchResult = { due: 0, enqueued: 0, jobIds: [] };
+
+  const dueSyncs = await db
+    .select()
+    .from(calendarSyncs)
+    .where(
+      and(
+        eq(calendarSyncs.isActive, true),
+        or(isNull(calendarSyncs.nextRunAt), lte(calendarSyncs.nextRunAt, now))
+      )
+    )
+    .orderBy(sql`${calendarSyncs.nextRunAt} ASC NULLS FIRST`, asc(calendarSyncs.createdAt))
+    .limit(limit);
+
+  result.due = dueSyncs.length;
+  console.log(`⏰ ${dueSyncs.length} sync(s) due at ${now.toISOString()}`);
+
+  for (const sync of dueSyncs) {
+    const nextRunAt = getNextRunAt(sync, now);
+
+    // Claim the run by moving nextRunAt forward first, so an overlapping
+    // dispatch does not queue it twice. A custom schedule that no longer
+    // matches is deactivated.
+    const claimed = await db
+      .update(calendarSyncs)
+      .set(nextRunAt ? { nextRunAt } : { nextRunAt: null, isActive: false })
+      .where(
+        and(
+          eq(calendarSyncs.id, sync.id),
+          sync.nextRunAt ? eq(calendarSyncs.nextRunAt, sync.nextRunAt) : isNull(calendarSyncs.nextRunAt)
+        )
+      )
+      .returning({ id: calendarSyncs.id });
+
+    if (claimed.length === 0) {
+      console.log(`⏭️ Sync ${sync.name} was already dispatched`);
+      continue;
+    }
+    if (!nextRunAt) {
+      console.warn(`⚠️ Schedule of sync ${sync.name} never matches, deactivating it`);
+      continue;
+    }
+
+    try {
+      const job = await enqueueSyncJob(sync.id, { trigger: 'schedule' });
+      result.enqueued++;
+      result.jobIds.push(job.id);
+      console.log(`📨 Queued sync ${sync.name}, next run at ${nextRunAt.toISOString()}`);
+    } catch (error) {
+      console.error(`Failed to queue sync ${sync.name}:`, error);
+    }
+  }
+
+  return result;
+}
@@ -1,12 +1,41 @@
 import { db } from './db';
 import { calendarSyncs, syncLogs } from './db/schema';
-import { eq } from 'drizzle-orm';
-import { parseICSFromUrlWithExpansion, CalendarEvent } from './ics-parser';
+import { eq, and, ne } from 'drizzle-orm';
+import { fetchICSFeed, parseICSCalendar, expandICSEvents, seriesICSEvents, CalendarEvent, FeedValidators } from './ics-parser';
 import {
-  createGoogleCalendarEvent,
-  updateGoogleCalendarEvent,
-  getExistingGoogleEvents,
+  writeGoogleCalendarEvents,
+  deleteGoogleCalendarEvents,
+  getSyncedGoogleEvents,
+  getGoogleCalendarClientForUser,
+  GoogleCalendarClient,
 } from './google-calendar';
+import { MAX_BATCH_SIZE } from './google-batch';
+import { createQuotaUsage, GoogleQuotaUsage } from './google-quota';
+import { buildEventKey } from './event-identity';
+import {
+  EventMapping,
+  generateContentHash,
+  getEventMappings,
+  upsertEventMapping,
+  deleteEventMappings,
+} from './event-mappings';
+import { getSyncWindow } from './sync-window';
+import { getFeedValidators, feedCacheUpdate } from './feed-cache';
+import { withSyncLock, ReportProgress } from './sync-lock';
+import { buildSyncPlan, findOrphanedEvents, isSyncedEventUnchanged, SyncPlan } from './sync-plan';
+import { applyEventFilters, getSyncFilterRules } from './event-filters';
+import { applyEventTemplates, getSyncEventTemplates, EventTemplates } from './event-templates';
+import { getSyncEventAppearance, EventAppearance } from './event-appearance';
+import {
+  canRemoveSourceEvent,
+  getSyncSources,
+  isTagged,
+  mergeSourceEvents,
+  FeedSource,
+  SourceFeedResult,
+  SyncFeeds,
+} from './sync-sources';
+import type { RecurrenceMode } from './sync-validation';
 // Duplicate resolution logic is now inline using proven UID + timestamp approach
 
 export interface SyncResult {
@@ -15,12 +44,34 @@ export interface SyncResult {
   eventsCreated: number;
   eventsUpdated: number;
   eventsSkipped: number;
+  eventsDeleted: number;
   duplicatesResolved: number;
   errors: string[];
   duration: number;
+  notModified?: boolean;
+  quotaUsage?: GoogleQuotaUsage; // Set once the run talks to Google
+}
+
+interface PendingEventWrite {
+  event: CalendarEvent; // As read from the feed
+  googleEvent: CalendarEvent; // With the sync's templates applied
+  contentHash: string;
+  eventId?: string; // Google event to update
 }
 
+/**
+ * Sync a calendar feed into Google. Only one run per sync at a time: throws
+ * `SYNC_IN_PROGRESS` when another run holds the sync's lease.
+ */
 export async function syncCalendar(calendarSyncId: string, userTimeZone?: string): Promise<SyncResult> {
+  return withSyncLock(calendarSyncId, reportProgress => runCalendarSync(calendarSyncId, userTimeZone, reportProgress));
+}
+
+async function runCalendarSync(
+  calendarSyncId: string,
+  userTimeZone: string | undefined,
+  reportProgress: ReportProgress
+): Promise<SyncResult> {
   const startTime = Date.now();
   const result: SyncResult = {
     success: false,
@@ -28,6 +79,7 @@ export async function syncCalendar(calendarSyncId: string, userTimeZone?: string
     eventsCreated: 0,
     eventsUpdated: 0,
     eventsSkipped: 0,
+    eventsDeleted: 0,
     duplicatesResolved: 0,
     errors: [],
     duration: 0,
@@ -48,21 +100,46 @@ export async function syncCalendar(calendarSyncId: string, userTimeZone?: string
     }
 
     const config = calendarSync[0];
-    console.log(`📋 Config found: ${config.name}, ICS URL: ${config.icsUrl}`);
-    
-    // Parse and expand ICS events for the current month
-    const now = new Date();
-    const currentYear = now.getFullYear();
-    const currentMonth = now.getMonth(); // 0-based (July = 6)
+    const sources = getSyncSources(config);
+    console.log(`📋 Config found: ${config.name}, ICS URLs: ${sources.map(source => source.icsUrl).join(', ')}`);
     
-    const monthStart = new Date(currentYear, currentMonth, 1);
-    const monthEnd = new Date(currentYear, currentMonth + 1, 0, 23, 59, 59);
+    // Parse and expand ICS events for the configured rolling window
+    const { start: windowStart, end: windowEnd } = getSyncWindow(config);
     
-    console.log(`📥 Fetching and expanding ICS events from: ${config.icsUrl}`);
-    console.log(`📅 Expansion range: ${monthStart.toISOString().split('T')[0]} to ${monthEnd.toISOString().split('T')[0]}`);
+    await reportProgress({ phase: 'fetching' });
+    console.log(`📥 Fetching and expanding ICS events from ${sources.length} source(s)`);
+    console.log(`📅 Expansion range: ${windowStart.toISOString().split('T')[0]} to ${windowEnd.toISOString().split('T')[0]}`);
     console.log(`🌍 User timezone: ${userTimeZone}`);
     
-    const uniqueEvents = await parseICSFromUrlWithExpansion(config.icsUrl, monthStart, monthEnd);
+    const recurrenceMode = config.recurrenceMode as RecurrenceMode;
+    const feed = await fetchSyncFeeds(sources, windowStart, windowEnd, recurrenceMode, getFeedValidators(config));
+
+    if (feed.notModified) {
+      console.log('📭 Feed not modified since the last sync, nothing to do');
+      result.notModified = true;
+      result.success = true;
+      result.duration = Date.now() - startTime;
+
+      await db
+        .update(calendarSyncs)
+        .set({ lastSync: new Date(), syncErrors: null })
+        .where(eq(calendarSyncs.id, calendarSyncId));
+
+      await logSyncResult(calendarSyncId, result);
+      return result;
+    }
+
+    // Sources that could not be read keep their events and fail the run
+    result.errors.push(...feed.errors);
+    if (feed.duplicates > 0) {
+      console.log(`🔗 Skipped ${feed.duplicates} events already listed by an earlier source`);
+    }
+
+    const feedEvents = feed.events;
+    const uniqueEvents = applyEventFilters(feedEvents, getSyncFilterRules(config));
+    if (uniqueEvents.length < feedEvents.length) {
+      console.log(`🧹 Filter rules dropped ${feedEvents.length - uniqueEvents.length} of ${feedEvents.length} events`);
+    }
     
     if (uniqueEvents.length > 0) {
       console.log(`📝 Sample events:`, uniqueEvents.slice(0, 3).map(e => ({
@@ -74,165 +151,149 @@ export async function syncCalendar(calendarSyncId: string, userTimeZone?: string
     
     result.eventsProcessed = uniqueEvents.length;
 
+    // An empty feed is more often a broken export than a cleared calendar,
+    // so it never triggers deletions
     if (uniqueEvents.length === 0) {
-      result.success = true;
+      result.success = result.errors.length === 0;
       result.duration = Date.now() - startTime;
+      await db
+        .update(calendarSyncs)
+        .set(feedCacheUpdate(feed.validators, result.success))
+        .where(eq(calendarSyncs.id, calendarSyncId));
       await logSyncResult(calendarSyncId, result);
       return result;
     }
 
-    // Process events in parallel batches for better performance with real-time duplicate checking
-    console.log(`🔄 Processing ${uniqueEvents.length} events in batches with real-time duplicate resolution...`);
-    const BATCH_SIZE = 5; // Process 5 events at a time to avoid rate limits
-    const eventBatches = [];
-    
-    for (let i = 0; i < uniqueEvents.length; i += BATCH_SIZE) {
-      eventBatches.push(uniqueEvents.slice(i, i + BATCH_SIZE));
+    // Act as the sync owner rather than the request session, so cron runs work too
+    result.quotaUsage = createQuotaUsage();
+    const calendar = await getGoogleCalendarClientForUser(config.userId, result.quotaUsage);
+    const templates = getSyncEventTemplates(config);
+    const appearance = getSyncEventAppearance(config);
+    const hashSettings = getContentHashSettings(userTimeZone, templates, appearance);
+
+    // Keys of every event still present in the feed, used to find orphans afterwards
+    const feedKeys = new Set<string>(uniqueEvents.map(event => buildEventKey(event.uid, event.start)));
+
+    // Create-vs-update is decided from the mappings recorded by earlier runs,
+    // and from Google's copies (read from the cache, so only changes are listed)
+    // for feed events that were never mapped
+    const mappings = await getEventMappings(config.id, windowStart, windowEnd);
+    const googleEvents = await getSyncedGoogleEvents(
+      config.googleCalendarId,
+      windowStart,
+      windowEnd,
+      0,
+      { syncId: config.id, userId: config.userId },
+      calendar
+    );
+    const googleEventIds = new Set(Object.values(googleEvents).map(event => event.id!));
+    const knownEvents: { [key: string]: string } = {};
+    mappings.forEach((mapping, key) => {
+      knownEvents[key] = mapping.googleEventId;
+    });
+    for (const [key, googleEvent] of Object.entries(googleEvents)) {
+      if (!knownEvents[key]) {
+        knownEvents[key] = googleEvent.id!;
+      }
     }
 
-    console.log(`📦 Processing ${eventBatches.length} batches of ${BATCH_SIZE} events each`);
+    const unmappedCount = Array.from(feedKeys).filter(key => !mappings.has(key)).length;
+    console.log(`🗂️ ${mappings.size} mapped events, ${unmappedCount} feed events without a mapping`);
 
-    // Note: Duplicate detection is handled by comparing ICS events to existing Google Calendar events
-    console.log('🔍 Duplicate detection will compare ICS events to existing Google Calendar events');
+    // Only new and changed events are written
+    const writes: PendingEventWrite[] = [];
+    const writtenKeys = new Set<string>();
+    for (const event of uniqueEvents) {
+      // Same instant-based key that getSyncedGoogleEvents derives from Google's start time
+      const uniqueKey = buildEventKey(event.uid, event.start);
+      const contentHash = generateContentHash(event, hashSettings);
+      const mapping = mappings.get(uniqueKey);
 
-    for (let batchIndex = 0; batchIndex < eventBatches.length; batchIndex++) {
-      const batch = eventBatches[batchIndex];
-      console.log(`🔄 Processing batch ${batchIndex + 1}/${eventBatches.length} (${batch.length} events)`);
-      
-      // Get fresh existing events before each batch to handle eventual consistency
-      console.log(`🔍 Fetching fresh existing events for batch ${batchIndex + 1}...`);
-      const existingEvents = await getExistingGoogleEvents(
+      if (writtenKeys.has(uniqueKey)) {
+        console.log(`⏭️ Already written in this run: ${event.summary}`);
+        result.eventsSkipped++;
+        continue;
+      }
+      // Copies deleted in Google are written again; the update's 404 recreates them
+      if (isSyncedEventUnchanged(mapping, contentHash, googleEventIds)) {
+        console.log(`⏭️ Unchanged since last sync: ${event.summary}`);
+        result.eventsSkipped++;
+        continue;
+      }
+
+      if (!knownEvents[uniqueKey]) {
+        // Fallback: Try to find a close match by UID only (for debugging)
+        const fallbackMatches = Object.keys(knownEvents).filter(key => key.startsWith(event.uid + ':'));
+        if (fallbackMatches.length > 0) {
+          console.log(`🚨 POTENTIAL DUPLICATE MISSED! Event "${event.summary}" with UID "${event.uid}" has potential matches:`, fallbackMatches);
+          console.log(`🔍 Event start time: ${event.start.toISOString()}`);
+          console.log(`📅 Possible matches start times:`, fallbackMatches.map(key => key.slice(event.uid.length + 1)));
+        }
+      }
+
+      writtenKeys.add(uniqueKey);
+      writes.push({
+        event,
+        // What Google gets; the source event keeps identifying the occurrence
+        googleEvent: applyEventTemplates(event, templates),
+        contentHash,
+        eventId: knownEvents[uniqueKey],
+      });
+    }
+
+    console.log(`🔄 Writing ${writes.length} new or changed events in batches of up to ${MAX_BATCH_SIZE}`);
+
+    for (let offset = 0; offset < writes.length; offset += MAX_BATCH_SIZE) {
+      await reportProgress({
+        phase: 'processing',
+        processed: result.eventsSkipped + offset,
+        total: uniqueEvents.length,
+      });
+
+      const batch = writes.slice(offset, offset + MAX_BATCH_SIZE);
+      const written = await writeGoogleCalendarEvents(
         config.googleCalendarId,
-        monthStart,
-        monthEnd,
-        0 // Always use 0 retries for fresh batch fetches
+        batch.map(write => ({ event: write.googleEvent, eventId: write.eventId })),
+        userTimeZone,
+        config.id,
+        calendar,
+        appearance
       );
-      console.log(`📊 Found ${Object.keys(existingEvents).length} existing events for batch comparison`);
-      
-      // Process batch in parallel
-      const batchPromises = batch.map(async (event) => {
-        try {
-          console.log(`📝 Processing: "${event.summary}" (${event.sourceTimezone || 'Unknown timezone'})`);
-          
-          // Create a copy and add original UID to description
-          const eventCopy: CalendarEvent = {
-            ...event,
-            description: `${event.description || ''}\n\nOriginal UID: ${event.uid}`.trim(),
-          };
-
-          // TIMEZONE-AWARE DUPLICATE DETECTION:
-          // We need to generate the key using the same timezone conversion that createGoogleCalendarEvent will use
-          // This ensures duplicate detection matches what gets stored in Google Calendar
-          const convertToUserTimezone = (sourceDate: Date) => {
-            const hours = sourceDate.getHours();
-            const minutes = sourceDate.getMinutes();
-            
-            // Arizona (MST) is UTC-7, Madrid is UTC+1/+2 (depending on DST)
-            const arizonaOffset = -7; // Arizona is UTC-7 (no DST)
-            const madridOffset = new Date().getTimezoneOffset() / -60; // Madrid offset in hours
-            const timeDifference = madridOffset - arizonaOffset;
-            
-            // Convert Arizona time to Madrid time
-            const convertedTime = new Date(
-              sourceDate.getFullYear(),
-              sourceDate.getMonth(),
-              sourceDate.getDate(),
-              hours + timeDifference,
-              minutes,
-              sourceDate.getSeconds()
-            );
-            
-            return convertedTime;
-          };
-          
-          // Generate key using timezone-adjusted time (for duplicate detection only)
-          const adjustedStartForKey = convertToUserTimezone(event.start);
-          const uniqueKey = `${event.uid}:${adjustedStartForKey.toISOString()}`;
-          console.log(`🔍 Checking for duplicate with timezone-adjusted key: ${uniqueKey}`);
-          console.log(`📋 Available existing event keys:`, Object.keys(existingEvents).slice(0, 5));
-
-          if (existingEvents[uniqueKey]) {
-            // Update existing event
-            const existingEventId = existingEvents[uniqueKey];
-            console.log(`🔄 Updating existing event: ${event.summary} (ID: ${existingEventId})`);
-            await updateGoogleCalendarEvent(
-              config.googleCalendarId,
-              existingEventId,
-              eventCopy,
-              userTimeZone
-            );
-            return { 
-              type: 'updated', 
-              event: event.summary,
-              duplicateResolved: true,
-              existingEventId: existingEventId
-            };
-          } else {
-            // Fallback: Try to find a close match by UID only (for debugging)
-            const fallbackMatches = Object.keys(existingEvents).filter(key => key.startsWith(event.uid + ':'));
-            if (fallbackMatches.length > 0) {
-              console.log(`🚨 POTENTIAL DUPLICATE MISSED! Event "${event.summary}" with UID "${event.uid}" has potential matches:`, fallbackMatches);
-              console.log(`🔍 Event timezone-adjusted start time: ${adjustedStartForKey.toISOString()}`);
-              console.log(`📅 Possible matches start times:`, fallbackMatches.map(key => key.split(':')[1]));
-            }
-            
-            // Create new event
-            console.log(`➕ Creating new event: ${event.summary} in calendar ${config.googleCalendarId}`);
-            const createdEventId = await createGoogleCalendarEvent(config.googleCalendarId, eventCopy, userTimeZone);
-            console.log(`✅ Created event with ID: ${createdEventId}`);
-            
-            // SAFEGUARD: Add a small delay and verify the event was created correctly
-            await new Promise(resolve => setTimeout(resolve, 500)); // 500ms delay
-            console.log(`🔒 SAFEGUARD: Verifying event creation for future batch consistency`);
-            
-            return { 
-              type: 'created', 
-              event: event.summary,
-              eventId: createdEventId
-            };
-          }
-        } catch (error) {
-          const errorMsg = `Failed to sync event "${event.summary}": ${
-            error instanceof Error ? error.message : 'Unknown error'
-          }`;
-          console.error(`❌ Error syncing event:`, error);
-          return { type: 'error' as const, event: event.summary, error: errorMsg };
+
+      for (const [index, outcome] of written.entries()) {
+        const write = batch[index];
+        if (outcome.error || !outcome.eventId) {
+          console.error(`❌ Error syncing event "${write.event.summary}": ${outcome.error}`);
+          result.errors.push(`Failed to sync event "${write.event.summary}": ${outcome.error || 'Unknown error'}`);
+          continue;
         }
-      });
 
-      // Wait for batch to complete
-      const batchResults = await Promise.all(batchPromises);
-      
-      // Update counters
-      batchResults.forEach(batchResult => {
-        if (batchResult.type === 'created') {
+        await recordEventMapping(config.id, write.googleEvent, outcome.eventId, write.contentHash);
+        if (outcome.created) {
           result.eventsCreated++;
-        } else if (batchResult.type === 'updated') {
+        } else {
           result.eventsUpdated++;
-          if ((batchResult as any).duplicateResolved) {
-            result.duplicatesResolved++;
-          }
-        } else if (batchResult.type === 'skipped') {
-          result.eventsSkipped++;
-        } else if (batchResult.type === 'error') {
-          result.errors.push(batchResult.error || 'Unknown error');
+          result.duplicatesResolved++;
         }
-      });
-
-      console.log(`✅ Batch ${batchIndex + 1} complete: ${batchResults.length} events processed`);
-      
-      // Add small delay between batches to avoid rate limiting
-      if (batchIndex < eventBatches.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 100));
       }
     }
 
+    // Propagate deletions: remove synced copies whose source event left the feed
+    if (config.deleteRemovedEvents) {
+      await reportProgress({ phase: 'deleting', processed: uniqueEvents.length, total: uniqueEvents.length });
+      await reconcileDeletedEvents(config, calendar, feed, feedKeys, mappings, windowStart, windowEnd, result);
+    } else {
+      console.log('⏭️ Deletion propagation disabled for this sync');
+    }
+
     // Update last sync time
     await db
       .update(calendarSyncs)
       .set({ 
         lastSync: new Date(),
         syncErrors: result.errors.length > 0 ? result.errors : null,
+        // Only an error-free run may be skipped next time the feed is unchanged
+        ...feedCacheUpdate(feed.validators, result.errors.length === 0),
       })
       .where(eq(calendarSyncs.id, calendarSyncId));
 
@@ -254,6 +315,281 @@ export async function syncCalendar(calendarSyncId: string, userTimeZone?: string
   }
 }
 
+/**
+ * Expanded events of a sync's feeds inside its window, merged across sources
+ * and before filter rules. Feeds are always fetched in full, ignoring stored
+ * validators.
+ */
+export async function fetchSyncFeedEvents(calendarSyncId: string) {
+  const calendarSync = await db
+    .select()
+    .from(calendarSyncs)
+    .where(eq(calendarSyncs.id, calendarSyncId))
+    .limit(1);
+
+  if (!calendarSync[0]) {
+    throw new Error('Calendar sync configuration not found');
+  }
+
+  const config = calendarSync[0];
+  const { start: windowStart, end: windowEnd } = getSyncWindow(config);
+
+  const feeds = await fetchSyncFeeds(getSyncSources(config), windowStart, windowEnd, config.recurrenceMode as RecurrenceMode);
+  if (feeds.notModified) {
+    // Only expected with validators, which are never sent here
+    throw new Error('Failed to fetch ICS: 304 Not Modified');
+  }
+
+  return {
+    config,
+    windowStart,
+    windowEnd,
+    feeds,
+    events: feeds.events,
+  };
+}
+
+/**
+ * Events of a feed inside the window: recurring events are expanded into
+ * occurrences, or kept as series for native-recurrence syncs
+ */
+function readFeedEvents(icsData: string, windowStart: Date, windowEnd: Date, recurrenceMode: RecurrenceMode): CalendarEvent[] {
+  const calendar = parseICSCalendar(icsData);
+  return recurrenceMode === 'native'
+    ? seriesICSEvents(calendar, windowStart, windowEnd)
+    : expandICSEvents(calendar, windowStart, windowEnd);
+}
+
+/**
+ * Download and expand the feeds of a sync. A single untagged feed is sent
+ * the stored validators and its download errors are thrown. Tagged sources
+ * are always downloaded in full; a failing source is reported in `errors`
+ * and only fails the run when no source could be read.
+ */
+async function fetchSyncFeeds(
+  sources: FeedSource[],
+  windowStart: Date,
+  windowEnd: Date,
+  recurrenceMode: RecurrenceMode,
+  validators: FeedValidators = {}
+): Promise<SyncFeeds> {
+  if (!isTagged(sources)) {
+    const feed = await fetchICSFeed(sources[0].icsUrl, validators);
+    if (feed.notModified) {
+      return { notModified: true, sources, events: [], duplicates: 0, settledTags: [], errors: [] };
+    }
+
+    return {
+      notModified: false,
+      sources,
+      events: readFeedEvents(feed.icsData, windowStart, windowEnd, recurrenceMode),
+      duplicates: 0,
+      settledTags: [],
+      errors: [],
+      validators: feed.validators,
+    };
+  }
+
+  const results = await Promise.all(
+    sources.map(async (source): Promise<SourceFeedResult> => {
+      try {
+        const feed = await fetchICSFeed(source.icsUrl);
+        if (feed.notModified) {
+          // Only expected with validators, which are never sent here
+          throw new Error('Failed to fetch ICS: 304 Not Modified');
+        }
+        return { source, events: readFeedEvents(feed.icsData, windowStart, windowEnd, recurrenceMode) };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`❌ Failed to read source "${source.tag}":`, error);
+        return { source, events: [], error: `Source "${source.tag}": ${message}` };
+      }
+    })
+  );
+
+  const errors = results.flatMap(result => (result.error ? [result.error] : []));
+  if (errors.length === results.length) {
+    throw new Error(errors.join('; '));
+  }
+
+  const { events, duplicates } = mergeSourceEvents(results);
+  return {
+    notModified: false,
+    sources,
+    events,
+    duplicates,
+    // An empty feed is more often a broken export than a cleared calendar
+    settledTags: results.filter(result => !result.error && result.events.length > 0).map(result => result.source.tag!),
+    errors,
+  };
+}
+
+/**
+ * Work out what `syncCalendar` would do without writing to Google or the
+ * database. An unchanged feed still yields a plan.
+ */
+export async function previewCalendarSync(calendarSyncId: string, userTimeZone?: string): Promise<SyncPlan> {
+  const { config, windowStart, windowEnd, feeds, events: feedEvents } = await fetchSyncFeedEvents(calendarSyncId);
+  console.log(`👀 Previewing sync ${config.name} (${windowStart.toISOString().split('T')[0]} to ${windowEnd.toISOString().split('T')[0]})`);
+
+  const events = applyEventFilters(feedEvents, getSyncFilterRules(config));
+
+  const calendar = await getGoogleCalendarClientForUser(config.userId);
+  const templates = getSyncEventTemplates(config);
+  const appearance = getSyncEventAppearance(config);
+  const mappings = await getEventMappings(config.id, windowStart, windowEnd);
+  const googleEvents = await getSyncedGoogleEvents(
+    config.googleCalendarId,
+    windowStart,
+    windowEnd,
+    0,
+    { syncId: config.id, userId: config.userId },
+    calendar
+  );
+
+  const plan = buildSyncPlan({
+    syncId: config.id,
+    events,
+    mappings,
+    googleEvents,
+    windowStart,
+    windowEnd,
+    userTimeZone,
+    templates,
+    appearance,
+    hashSettings: getContentHashSettings(userTimeZone, templates, appearance),
+    // An empty feed never triggers deletions, same as a real run
+    deleteRemovedEvents: !!config.deleteRemovedEvents && events.length > 0,
+    deleteLegacyEvents: !(await isSharedTargetCalendar(config)),
+    canRemoveSourceEvent: sourceTag => canRemoveSourceEvent(feeds, sourceTag),
+  });
+
+  console.log(`📋 Preview: ${plan.create.length} to create, ${plan.update.length} to update, ${plan.delete.length} to delete, ${plan.unchanged.length} unchanged`);
+  return plan;
+}
+
+/**
+ * Delete Google events written by this sync whose source event is no longer
+ * in the expanded feed (see `findOrphanedEvents` for which events count),
+ * leaving events of sources that could not be read.
+ */
+async function reconcileDeletedEvents(
+  config: typeof calendarSyncs.$inferSelect,
+  calendar: GoogleCalendarClient,
+  feeds: SyncFeeds,
+  feedKeys: Set<string>,
+  mappings: Map<string, EventMapping>,
+  windowStart: Date,
+  windowEnd: Date,
+  result: SyncResult
+): Promise<void> {
+  // Legacy events (only an "Original UID" marker) do not say which sync wrote
+  // them, so on a calendar shared by several syncs only tagged events are removed
+  const sharedCalendar = await isSharedTargetCalendar(config);
+  if (sharedCalendar) {
+    console.log(`⚠️ Calendar ${config.googleCalendarId} is the target of other syncs; leaving legacy events untouched`);
+  }
+
+  // Mapped events are covered even if Google's listing misses them
+  const googleEvents = await getSyncedGoogleEvents(config.googleCalendarId, windowStart, windowEnd, 0, {
+    syncId: config.id,
+    includeLegacy: !sharedCalendar,
+    userId: config.userId,
+  }, calendar);
+  const orphans = findOrphanedEvents({
+    feedKeys,
+    mappings,
+    googleEvents,
+    windowStart,
+    windowEnd,
+    deleteLegacyEvents: !sharedCalendar,
+    canRemoveSourceEvent: sourceTag => {
+      if (canRemoveSourceEvent(feeds, sourceTag)) return true;
+      console.log(`⏭️ Keeping events of source "${sourceTag || 'unknown'}": it could not be read`);
+      return false;
+    },
+  });
+
+  if (orphans.length === 0) {
+    console.log('✅ No events were removed from the source feed');
+    return;
+  }
+
+  console.log(`🗑️ Removing ${orphans.length} events that no longer exist in the source feed`);
+
+  const deleted = await deleteGoogleCalendarEvents(
+    config.googleCalendarId,
+    orphans.map(orphan => orphan.googleEventId),
+    calendar
+  );
+
+  const deletedEventIds: string[] = [];
+  deleted.forEach(({ eventId, error }, index) => {
+    if (error) {
+      console.error(`❌ Error deleting removed event "${orphans[index].key}": ${error}`);
+      result.errors.push(`Failed to delete removed event "${orphans[index].key}": ${error}`);
+      return;
+    }
+    deletedEventIds.push(eventId);
+    result.eventsDeleted++;
+  });
+
+  try {
+    await deleteEventMappings(config.id, deletedEventIds);
+  } catch (error) {
+    console.warn('⚠️ Failed to remove mappings of deleted events:', error);
+  }
+}
+
+/**
+ * Sync settings that shape what is written to Google, for content hashes.
+ * Unset settings are left out so existing hashes stay valid.
+ */
+function getContentHashSettings(
+  userTimeZone: string | undefined,
+  templates: EventTemplates | null,
+  appearance: EventAppearance | null
+): Record<string, unknown> {
+  return {
+    userTimeZone,
+    ...(templates && { templates }),
+    ...(appearance && { appearance }),
+  };
+}
+
+/** Whether other syncs write to the same Google calendar */
+async function isSharedTargetCalendar(config: typeof calendarSyncs.$inferSelect): Promise<boolean> {
+  const sharedTargets = await db
+    .select({ id: calendarSyncs.id })
+    .from(calendarSyncs)
+    .where(
+      and(
+        eq(calendarSyncs.googleCalendarId, config.googleCalendarId),
+        ne(calendarSyncs.id, config.id)
+      )
+    )
+    .limit(1);
+
+  return sharedTargets.length > 0;
+}
+
+/**
+ * Record the Google event written for a source occurrence. A failed write only
+ * costs a Google lookup on the next run, so it never fails the event.
+ */
+async function recordEventMapping(
+  calendarSyncId: string,
+  event: CalendarEvent,
+  googleEventId: string,
+  contentHash: string
+): Promise<void> {
+  try {
+    await upsertEventMapping(calendarSyncId, event, googleEventId, contentHash);
+  } catch (error) {
+    console.warn(`⚠️ Failed to record event mapping for "${event.summary}":`, error);
+  }
+}
+
 async function logSyncResult(calendarSyncId: string, result: SyncResult): Promise<void> {
   try {
     // Create enhanced log data with duplicate resolution metrics
@@ -262,23 +598,30 @@ async function logSyncResult(calendarSyncId: string, result: SyncResult): Promis
       eventsProcessed: result.eventsProcessed.toString(),
       eventsCreated: result.eventsCreated.toString(),
       eventsUpdated: result.eventsUpdated.toString(),
+      eventsDeleted: result.eventsDeleted.toString(),
       errors: result.errors.length > 0 ? result.errors : null,
       duration: `${result.duration}ms`,
-      status: result.success ? 'success' : 'error',
+      status: result.notModified ? 'not_modified' : result.success ? 'success' : 'error',
+      quotaUsage: result.quotaUsage ?? null,
     };
 
     await db.insert(syncLogs).values(logData);
 
     // Enhanced logging for duplicate resolution
-    if (result.duplicatesResolved > 0 || result.eventsSkipped > 0) {
+    if (result.duplicatesResolved > 0 || result.eventsSkipped > 0 || result.eventsDeleted > 0) {
       console.log(`📊 Sync completed with duplicate resolution:`);
       console.log(`  • Events processed: ${result.eventsProcessed}`);
       console.log(`  • Events created: ${result.eventsCreated}`);
       console.log(`  • Events updated: ${result.eventsUpdated}`);
+      console.log(`  • Events deleted: ${result.eventsDeleted}`);
       console.log(`  • Duplicates resolved: ${result.duplicatesResolved}`);
       console.log(`  • Events skipped: ${result.eventsSkipped}`);
       console.log(`  • Duration: ${result.duration}ms`);
     }
+
+    if (result.quotaUsage?.rateLimited) {
+      console.log(`🚦 Google rate-limited ${result.quotaUsage.rateLimited} of ${result.quotaUsage.requests} requests (${result.quotaUsage.retries} retried)`);
+    }
   } catch (error) {
     console.error('Failed to log sync result:', error);
   }
@@ -0,0 +1,134 @@
+import { z } from 'zod';
+import type { CalendarEvent, FeedValidators } from './ics-parser';
+import { buildEventKey } from './event-identity';
+
+/**
+ * Multi-source syncs
+ *
+ * A sync can merge several ICS feeds into one target calendar. Each source
+ * has a tag that is written to its events (extended property, event mapping,
+ * `{source}` template placeholder), so every synced event is attributed to
+ * exactly one source. An occurrence listed by several sources is written
+ * once, for the first source listing it. A synced event is only removed when
+ * its own source was read and no longer has it, so one broken feed cannot
+ * wipe the events of another. Syncs without `sources` read their `icsUrl` as
+ * a single untagged feed.
+ */
+
+export const MAX_SYNC_SOURCES = 10;
+
+export const feedUrlSchema = z
+  .string()
+  .trim()
+  .url('must be a URL')
+  .refine(url => /^(https?|webcal):\/\//i.test(url), 'must be an http(s) or webcal URL');
+
+export const syncSourceSchema = z
+  .object({
+    tag: z.string().trim().min(1, 'must not be empty').max(50),
+    icsUrl: feedUrlSchema,
+  })
+  .strict();
+
+export const syncSourcesSchema = z
+  .array(syncSourceSchema)
+  .min(1, 'must list at least one source')
+  .max(MAX_SYNC_SOURCES)
+  .superRefine((sources, ctx) => {
+    const seen = new Set<string>();
+    sources.forEach((source, index) => {
+      const tag = source.tag.toLowerCase();
+      if (seen.has(tag)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'tag'], message: `"${source.tag}" is used by another source` });
+      }
+      seen.add(tag);
+    });
+  });
+
+export type SyncSource = z.infer<typeof syncSourceSchema>;
+
+/** A feed read by a sync; single-feed syncs have no tag */
+export interface FeedSource {
+  tag?: string;
+  icsUrl: string;
+}
+
+export interface SourceFeedResult {
+  source: FeedSource;
+  events: CalendarEvent[];
+  error?: string;
+}
+
+export interface SyncFeeds {
+  notModified: boolean;
+  sources: FeedSource[];
+  // Merged events of every source that could be read, tagged with their source
+  events: CalendarEvent[];
+  // Occurrences dropped because an earlier source already listed them
+  duplicates: number;
+  // Sources that were read and listed events; only their events may be removed
+  settledTags: string[];
+  errors: string[];
+  validators?: FeedValidators;
+}
+
+/** Feeds of a sync: its `sources`, or its `icsUrl` when it has none */
+export function getSyncSources(config: { icsUrl: string; sources?: unknown }): FeedSource[] {
+  if (config.sources == null) {
+    return [{ icsUrl: config.icsUrl }];
+  }
+
+  const parsed = syncSourcesSchema.safeParse(config.sources);
+  return parsed.success ? parsed.data : [{ icsUrl: config.icsUrl }];
+}
+
+export function isTagged(sources: FeedSource[]): boolean {
+  return sources.some(source => source.tag);
+}
+
+/** Start, end and title, used to spot the same meeting published under different UIDs */
+function contentKey(event: CalendarEvent): string {
+  const title = event.summary.trim().toLowerCase().replace(/\s+/g, ' ');
+  return `${title}|${event.start.toISOString()}|${event.end.toISOString()}`;
+}
+
+/**
+ * Merge the events of each source in source order. Repeats within one feed
+ * are left to the sync run, which writes an occurrence key only once.
+ */
+export function mergeSourceEvents(results: SourceFeedResult[]): { events: CalendarEvent[]; duplicates: number } {
+  const events: CalendarEvent[] = [];
+  const owners = new Map<string, string | undefined>();
+  let duplicates = 0;
+
+  for (const { source, events: sourceEvents } of results) {
+    for (const event of sourceEvents) {
+      const keys = [buildEventKey(event.uid, event.start), contentKey(event)];
+      if (keys.some(key => owners.has(key) && owners.get(key) !== source.tag)) {
+        duplicates++;
+        continue;
+      }
+
+      keys.forEach(key => owners.set(key, source.tag));
+      events.push(source.tag ? { ...event, sourceTag: source.tag } : event);
+    }
+  }
+
+  return { events, duplicates };
+}
+
+/**
+ * Whether a synced event attributed to `sourceTag` may be deleted when it is
+ * missing from the merged feed. Events of sources that are no longer part of
+ * the sync may go; events without attribution only when every source was read.
+ */
+export function canRemoveSourceEvent(feeds: Pick<SyncFeeds, 'sources' | 'settledTags'>, sourceTag?: string | null): boolean {
+  if (!isTagged(feeds.sources)) return true;
+
+  if (sourceTag) {
+    const configured = feeds.sources.some(source => source.tag === sourceTag);
+    return !configured || feeds.settledTags.includes(sourceTag);
+  }
+
+  return feeds.sources.every(source => source.tag && feeds.settledTags.includes(source.tag));
+}
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { MAX_SYNC_DAYS } from './sync-window';
+import { SYNC_SCHEDULES } from './sync-schedule';
+import { filterRulesSchema } from './event-filters';
+import { eventTemplatesSchema } from './event-templates';
+import { eventAppearanceSchema } from './event-appearance';
+import { feedUrlSchema, syncSourcesSchema } from './sync-sources';
+
+/**
+ * Validation of sync edits
+ *
+ * Every field a user may change on an existing sync, all optional. Unknown
+ * keys are rejected so internal columns (owner, lease, feed cache) cannot be
+ * written through the API.
+ */
+
+export const SYNC_TYPES = ['full', 'busy_free', 'two_way'] as const;
+export const PRIVACY_LEVELS = ['busy_only', 'show_free_busy', 'full_details'] as const;
+// How two-way syncs settle an event edited on both sides since the last run
+export const CONFLICT_POLICIES = ['source_wins', 'google_wins', 'newest_wins', 'manual'] as const;
+
+export type ConflictPolicy = typeof CONFLICT_POLICIES[number];
+// How full syncs write recurring events: one Google event per occurrence, or one recurring Google event per series
+export const RECURRENCE_MODES = ['expand', 'native'] as const;
+
+export type RecurrenceMode = typeof RECURRENCE_MODES[number];
+
+const syncDays = z.coerce
+  .number()
+  .int('must be a whole number')
+  .min(0)
+  .max(MAX_SYNC_DAYS);
+
+export const syncUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1, 'must not be empty').max(200),
+    icsUrl: feedUrlSchema,
+    googleCalendarId: z.string().trim().min(1, 'must not be empty'),
+    isActive: z.boolean(),
+    syncType: z.enum(SYNC_TYPES),
+    privacyLevel: z.enum(PRIVACY_LEVELS),
+    syncDaysPast: syncDays,
+    syncDaysFuture: syncDays,
+    deleteRemovedEvents: z.boolean(),
+    schedule: z.enum(SYNC_SCHEDULES),
+    scheduleCron: z.string().trim().nullable(),
+    filterRules: filterRulesSchema.nullable(),
+    eventTemplates: eventTemplatesSchema.nullable(),
+    eventAppearance: eventAppearanceSchema.nullable(),
+    sources: syncSourcesSchema.nullable(),
+    conflictPolicy: z.enum(CONFLICT_POLICIES),
+    recurrenceMode: z.enum(RECURRENCE_MODES),
+    caldavUsername: z.string().trim().max(200).nullable(),
+    // Write-only; stored encrypted and never returned
+    caldavPassword: z.string().min(1).max(500).nullable(),
+  })
+  .partial()
+  .strict();
+
+export type SyncUpdate = z.infer<typeof syncUpdateSchema>;
+
+/** Fields whose change alters what a run writes, so the next run must not be skipped as unchanged */
+export const FEED_AFFECTING_FIELDS: (keyof SyncUpdate)[] = [
+  'icsUrl',
+  'sources',
+  'googleCalendarId',
+  'syncType',
+  'privacyLevel',
+  'syncDaysPast',
+  'syncDaysFuture',
+  'deleteRemovedEvents',
+  'filterRules',
+  'eventTemplates',
+  'eventAppearance',
+  'recurrenceMode',
+];
+
+/** Validated edit, or a message naming the first invalid field */
+export function parseSyncUpdate(body: unknown): SyncUpdate | string {
+  const parsed = syncUpdateSchema.safeParse(body);
+  if (parsed.success) {
+    return parsed.data;
+  }
+
+  const issue = parsed.error.issues[0];
+  const field = issue.path.join('.');
+  return field ? `Invalid ${field}: ${issue.message}` : `Invalid sync update: ${issue.message}`;
+}
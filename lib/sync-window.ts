@@ -0,0 +1,52 @@
+/**
+ * Rolling sync window helpers
+ *
+ * Each calendar sync looks at a window of N days before and M days after
+ * "now" instead of the calendar month, so events at the start of next month
+ * are picked up at the end of this one.
+ */
+
+export const DEFAULT_SYNC_DAYS_PAST = 7;
+export const DEFAULT_SYNC_DAYS_FUTURE = 30;
+export const MAX_SYNC_DAYS = 365;
+
+export interface SyncWindowConfig {
+  syncDaysPast?: number | null;
+  syncDaysFuture?: number | null;
+}
+
+export interface SyncWindow {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Compute the window for a sync: from the start of the day `syncDaysPast`
+ * days ago to the end of the day `syncDaysFuture` days ahead.
+ */
+export function getSyncWindow(config: SyncWindowConfig, now: Date = new Date()): SyncWindow {
+  const daysPast = config.syncDaysPast ?? DEFAULT_SYNC_DAYS_PAST;
+  const daysFuture = config.syncDaysFuture ?? DEFAULT_SYNC_DAYS_FUTURE;
+
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate() - daysPast);
+  const end = new Date(now.getFullYear(), now.getMonth(), now.getDate() + daysFuture, 23, 59, 59);
+
+  return { start, end };
+}
+
+/**
+ * Validate a user-supplied day count. Returns the value as an integer,
+ * `undefined` when it was not provided, or `null` when it is invalid.
+ */
+export function parseSyncWindowDays(value: unknown): number | undefined | null {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const days = typeof value === 'string' ? Number(value) : value;
+  if (typeof days !== 'number' || !Number.isInteger(days) || days < 0 || days > MAX_SYNC_DAYS) {
+    return null;
+  }
+
+  return days;
+}
@@ -0,0 +1,247 @@
+import { fromZonedTime, getTimezoneOffset } from 'date-fns-tz';
+import { RRule } from 'rrule';
+
+/**
+ * Timezone handling for ICS feeds
+ *
+ * ICS times are wall-clock values qualified by a TZID (IANA name, Windows
+ * name from Exchange/Outlook, or a custom VTIMEZONE). Everything here turns
+ * those into real instants so the value written to Google and the value used
+ * for duplicate keys are the same moment in time.
+ *
+ * "Floating" dates below are wall-clock times encoded as UTC, e.g. 09:00 in
+ * Madrid is represented as 09:00Z. They never leave the parsing layer.
+ */
+
+/** A Date produced by the `ical` parser, plus the markers attached in ics-parser */
+export type ICSDateValue = Date & { tz?: string; utc?: boolean; dateOnly?: boolean };
+
+export interface VTimezoneObservance {
+  onset: Date; // Floating DTSTART of the observance
+  offsetMinutes: number; // TZOFFSETTO
+  rrule?: string;
+}
+
+export type VTimezoneDefinitions = Record<string, VTimezoneObservance[]>;
+
+// Windows timezone names used by Exchange/Outlook feeds (CLDR windowsZones mapping)
+const WINDOWS_TIMEZONES: Record<string, string> = {
+  'Dateline Standard Time': 'Etc/GMT+12',
+  'Hawaiian Standard Time': 'Pacific/Honolulu',
+  'Alaskan Standard Time': 'America/Anchorage',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'US Mountain Standard Time': 'America/Phoenix',
+  'Mountain Standard Time': 'America/Denver',
+  'Central Standard Time': 'America/Chicago',
+  'Central America Standard Time': 'America/Guatemala',
+  'Central Standard Time (Mexico)': 'America/Mexico_City',
+  'Eastern Standard Time': 'America/New_York',
+  'US Eastern Standard Time': 'America/Indiana/Indianapolis',
+  'SA Pacific Standard Time': 'America/Bogota',
+  'Atlantic Standard Time': 'America/Halifax',
+  'Newfoundland Standard Time': 'America/St_Johns',
+  'E. South America Standard Time': 'America/Sao_Paulo',
+  'Argentina Standard Time': 'America/Buenos_Aires',
+  'UTC': 'UTC',
+  'Coordinated Universal Time': 'UTC',
+  'GMT Standard Time': 'Europe/London',
+  'Greenwich Standard Time': 'Atlantic/Reykjavik',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central European Standard Time': 'Europe/Warsaw',
+  'W. Central Africa Standard Time': 'Africa/Lagos',
+  'GTB Standard Time': 'Europe/Bucharest',
+  'E. Europe Standard Time': 'Europe/Chisinau',
+  'FLE Standard Time': 'Europe/Kiev',
+  'South Africa Standard Time': 'Africa/Johannesburg',
+  'Israel Standard Time': 'Asia/Jerusalem',
+  'Turkey Standard Time': 'Europe/Istanbul',
+  'Russian Standard Time': 'Europe/Moscow',
+  'Arabian Standard Time': 'Asia/Dubai',
+  'India Standard Time': 'Asia/Kolkata',
+  'SE Asia Standard Time': 'Asia/Bangkok',
+  'China Standard Time': 'Asia/Shanghai',
+  'Singapore Standard Time': 'Asia/Singapore',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'Korea Standard Time': 'Asia/Seoul',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'New Zealand Standard Time': 'Pacific/Auckland',
+};
+
+function isIanaTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Map a TZID from a feed to an IANA identifier, or `undefined` when the
+ * name is unknown (custom VTIMEZONE names such as "Customized Time Zone").
+ */
+export function normalizeTimezone(timezone?: string | null): string | undefined {
+  if (!timezone) return undefined;
+
+  const name = timezone.replace(/^"(.*)"$/, '$1').trim();
+
+  if (WINDOWS_TIMEZONES[name]) {
+    return WINDOWS_TIMEZONES[name];
+  }
+
+  return isIanaTimezone(name) ? name : undefined;
+}
+
+/** Wall-clock components of an `ical` Date (built in server-local time) as a floating date */
+export function toFloating(date: Date): Date {
+  return new Date(Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds()
+  ));
+}
+
+function parseOffset(offset: unknown): number | null {
+  const match = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(String(offset ?? '').trim());
+  if (!match) return null;
+
+  const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+/**
+ * Collect STANDARD/DAYLIGHT observances of every VTIMEZONE in a parsed feed,
+ * keyed by TZID, for zones that have no IANA equivalent.
+ */
+export function parseVTimezones(parsed: Record<string, any>): VTimezoneDefinitions {
+  const definitions: VTimezoneDefinitions = {};
+
+  for (const key in parsed) {
+    const component = parsed[key];
+    if (component?.type !== 'VTIMEZONE' || !component.tzid) continue;
+
+    const observances: VTimezoneObservance[] = [];
+    for (const childKey in component) {
+      const child = component[childKey];
+      if (!child || (child.type !== 'STANDARD' && child.type !== 'DAYLIGHT')) continue;
+
+      const offsetMinutes = parseOffset(child.tzoffsetto);
+      if (offsetMinutes === null || !(child.start instanceof Date)) continue;
+
+      observances.push({
+        onset: toFloating(child.start),
+        offsetMinutes,
+        rrule: typeof child.rrule === 'string' ? child.rrule.replace(/^RRULE:/, '') : undefined,
+      });
+    }
+
+    if (observances.length > 0) {
+      definitions[String(component.tzid)] = observances;
+    }
+  }
+
+  return definitions;
+}
+
+function observanceOffsetAt(observances: VTimezoneObservance[], floating: Date): number {
+  let latestOnset = -Infinity;
+  let offset = observances[0].offsetMinutes;
+
+  for (const observance of observances) {
+    let onset: Date | null = observance.onset;
+
+    if (observance.rrule) {
+      try {
+        const rule = new RRule({ ...RRule.parseString(observance.rrule), dtstart: observance.onset });
+        onset = rule.before(floating, true);
+      } catch {
+        // Keep the observance DTSTART when the rule cannot be parsed
+      }
+    }
+
+    if (onset && onset <= floating && onset.getTime() > latestOnset) {
+      latestOnset = onset.getTime();
+      offset = observance.offsetMinutes;
+    }
+  }
+
+  return offset;
+}
+
+/**
+ * Convert a floating wall-clock date in `timezone` to an instant. Unknown
+ * zones without a VTIMEZONE definition are treated as UTC.
+ */
+export function floatingToInstant(
+  floating: Date,
+  timezone?: string,
+  definitions: VTimezoneDefinitions = {}
+): Date {
+  const iana = normalizeTimezone(timezone);
+  if (iana) {
+    return fromZonedTime(floating.toISOString().slice(0, 19), iana);
+  }
+
+  const observances = timezone ? definitions[timezone] : undefined;
+  if (observances?.length) {
+    return new Date(floating.getTime() - observanceOffsetAt(observances, floating) * 60000);
+  }
+
+  return new Date(floating.getTime());
+}
+
+/** Inverse of `floatingToInstant`: the wall-clock time of an instant in `timezone` */
+export function instantToFloating(
+  instant: Date,
+  timezone?: string,
+  definitions: VTimezoneDefinitions = {}
+): Date {
+  const iana = normalizeTimezone(timezone);
+  if (iana) {
+    return new Date(instant.getTime() + getTimezoneOffset(iana, instant));
+  }
+
+  const observances = timezone ? definitions[timezone] : undefined;
+  if (observances?.length) {
+    // Offset at the instant read as wall time is correct outside the DST switch hour
+    return new Date(instant.getTime() + observanceOffsetAt(observances, instant) * 60000);
+  }
+
+  return new Date(instant.getTime());
+}
+
+/** Calendar date (YYYY-MM-DD) of a floating date, as used by all-day events */
+export function formatDateOnly(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Resolve a DTSTART/DTEND value from the `ical` parser to an instant, using
+ * its own TZID, else the calendar's default timezone. VALUE=DATE values have
+ * no timezone and resolve to midnight UTC of their calendar date.
+ */
+export function resolveICSDate(
+  value: unknown,
+  fallbackTimezone?: string,
+  definitions: VTimezoneDefinitions = {}
+): Date {
+  if (!(value instanceof Date)) {
+    return new Date(value as any);
+  }
+
+  const date = value as ICSDateValue;
+  if (date.utc || isNaN(date.getTime())) {
+    return new Date(date.getTime());
+  }
+
+  if (date.dateOnly) {
+    return toFloating(date);
+  }
+
+  return floatingToInstant(toFloating(date), date.tz || fallbackTimezone, definitions);
+}
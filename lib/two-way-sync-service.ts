@@ -0,0 +1,453 @@
+import { db } from './db';
+import { calendarSyncs, eventMappings, syncLogs } from './db/schema';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import type { calendar_v3 } from 'googleapis';
+import {
+  createGoogleCalendarEvent,
+  updateGoogleCalendarEvent,
+  deleteGoogleCalendarEvent,
+  getSyncedGoogleEvents,
+  getGoogleCalendarClientForUser,
+  GoogleCalendarClient,
+} from './google-calendar';
+import { createQuotaUsage, GoogleQuotaUsage } from './google-quota';
+import { getSourceUid } from './event-identity';
+import { EventMapping, saveTwoWayMapping } from './event-mappings';
+import { createCalDAVCalendar, CalDAVCalendar, CalDAVEvent } from './caldav-client';
+import { applyEventChanges, serializeCalendarEvent } from './ics-writer';
+import {
+  decideTwoWayAction,
+  fromGoogleEvent,
+  revisionHash,
+  snapshotEvent,
+  ConflictSide,
+  TwoWayAction,
+  TwoWayConflict,
+} from './two-way-sync';
+import type { CalendarEvent } from './ics-parser';
+import type { ConflictPolicy } from './sync-validation';
+import { decryptSecret } from './secrets';
+import { getSyncWindow } from './sync-window';
+import { withSyncLock, ReportProgress } from './sync-lock';
+import { getSyncEventAppearance, EventAppearance } from './event-appearance';
+
+export interface TwoWaySyncResult {
+  success: boolean;
+  eventsProcessed: number;
+  // Google side
+  eventsCreated: number;
+  eventsUpdated: number;
+  eventsDeleted: number;
+  eventsSkipped: number;
+  // Events created, updated or deleted in the CalDAV source
+  sourceEventsWritten: number;
+  // Conflicts left for the user to resolve (manual policy)
+  conflicts: number;
+  errors: string[];
+  duration: number;
+  quotaUsage?: GoogleQuotaUsage; // Set once the run talks to Google
+}
+
+export interface SyncConflict {
+  mappingId: string;
+  sourceUid: string;
+  eventTitle: string;
+  conflict: TwoWayConflict;
+}
+
+// One event as seen by a run: the CalDAV resource, the Google copy and the stored state
+interface TwoWayEventContext {
+  uid: string;
+  source?: CalDAVEvent;
+  google?: calendar_v3.Schema$Event;
+  mapping?: EventMapping;
+}
+
+interface TwoWayTarget {
+  calendarSyncId: string;
+  calendarId: string;
+  caldav: CalDAVCalendar;
+  google: GoogleCalendarClient;
+  userTimeZone?: string;
+  appearance: EventAppearance | null;
+}
+
+/**
+ * Reconcile a two-way sync: edits and deletions on either side are copied to
+ * the other, conflicting edits are settled by the sync's conflict policy.
+ * Only single (non-recurring) events are synced both ways. Shares the
+ * per-sync lease with the other sync runs.
+ */
+export async function syncTwoWayCalendar(
+  calendarSyncId: string,
+  userTimeZone?: string
+): Promise<TwoWaySyncResult> {
+  return withSyncLock(calendarSyncId, reportProgress => runTwoWaySync(calendarSyncId, userTimeZone, reportProgress));
+}
+
+async function runTwoWaySync(
+  calendarSyncId: string,
+  userTimeZone: string | undefined,
+  reportProgress: ReportProgress
+): Promise<TwoWaySyncResult> {
+  const startTime = Date.now();
+  const result: TwoWaySyncResult = {
+    success: false,
+    eventsProcessed: 0,
+    eventsCreated: 0,
+    eventsUpdated: 0,
+    eventsDeleted: 0,
+    eventsSkipped: 0,
+    sourceEventsWritten: 0,
+    conflicts: 0,
+    errors: [],
+    duration: 0,
+  };
+
+  try {
+    console.log(`🔁 Starting two-way sync for calendar sync ID: ${calendarSyncId}`);
+
+    const calendarSync = await db
+      .select()
+      .from(calendarSyncs)
+      .where(eq(calendarSyncs.id, calendarSyncId))
+      .limit(1);
+
+    if (!calendarSync[0]) {
+      throw new Error('Calendar sync configuration not found');
+    }
+
+    const config = calendarSync[0];
+    if (!config.isActive) {
+      console.log('📴 Calendar sync is inactive, skipping');
+      result.success = true;
+      result.duration = Date.now() - startTime;
+      return result;
+    }
+
+    const policy = config.conflictPolicy as ConflictPolicy;
+    const { start: windowStart, end: windowEnd } = getSyncWindow(config);
+    const credentials = config.caldavUsername && config.caldavPassword
+      ? { username: config.caldavUsername, password: decryptSecret(config.caldavPassword) }
+      : null;
+
+    result.quotaUsage = createQuotaUsage();
+    const target: TwoWayTarget = {
+      calendarSyncId,
+      calendarId: config.googleCalendarId,
+      caldav: createCalDAVCalendar(config.icsUrl, credentials),
+      // Act as the sync owner rather than the request session, so cron runs work too
+      google: await getGoogleCalendarClientForUser(config.userId, result.quotaUsage),
+      userTimeZone,
+      appearance: getSyncEventAppearance(config),
+    };
+
+    console.log(`📥 Listing CalDAV events from: ${config.icsUrl} (conflict policy: ${policy})`);
+    await reportProgress({ phase: 'fetching' });
+
+    const [sourceEvents, googleEvents, mappings] = await Promise.all([
+      target.caldav.listEvents(windowStart, windowEnd),
+      getSyncedGoogleEvents(
+        target.calendarId,
+        windowStart,
+        windowEnd,
+        0,
+        { syncId: calendarSyncId, includeLegacy: false, userId: config.userId },
+        target.google
+      ),
+      db.select().from(eventMappings).where(eq(eventMappings.calendarSyncId, calendarSyncId)),
+    ]);
+
+    const contexts = new Map<string, TwoWayEventContext>();
+    const contextFor = (uid: string) => {
+      if (!contexts.has(uid)) contexts.set(uid, { uid });
+      return contexts.get(uid)!;
+    };
+
+    const recurringUids = new Set<string>();
+    for (const source of sourceEvents) {
+      if (source.event.recurrenceRule) {
+        recurringUids.add(source.event.uid);
+        continue;
+      }
+      contextFor(source.event.uid).source = source;
+    }
+
+    for (const googleEvent of Object.values(googleEvents)) {
+      const uid = getSourceUid(googleEvent);
+      if (uid && !recurringUids.has(uid)) contextFor(uid).google = googleEvent;
+    }
+
+    // Events that left both listings still need a look if they were synced inside the window
+    for (const mapping of mappings) {
+      const inWindow = mapping.startDateTime >= windowStart && mapping.startDateTime <= windowEnd;
+      if (contexts.has(mapping.sourceUid) || inWindow) {
+        if (!recurringUids.has(mapping.sourceUid)) contextFor(mapping.sourceUid).mapping = mapping;
+      }
+    }
+
+    if (recurringUids.size > 0) {
+      console.log(`⏭️ Skipping ${recurringUids.size} recurring event(s); two-way syncs only cover single events`);
+      result.eventsSkipped += recurringUids.size;
+    }
+
+    const pending = Array.from(contexts.values());
+    result.eventsProcessed = pending.length;
+    console.log(`🔄 Reconciling ${pending.length} events (${sourceEvents.length} in CalDAV, ${Object.keys(googleEvents).length} in Google)`);
+
+    for (let index = 0; index < pending.length; index++) {
+      if (index % 10 === 0) {
+        await reportProgress({ phase: 'processing', processed: index, total: pending.length });
+      }
+
+      const context = pending[index];
+      try {
+        await reconcileEvent(context, policy, target, result);
+      } catch (error) {
+        const title = context.source?.event.summary || context.google?.summary || context.mapping?.eventTitle || context.uid;
+        const message = error instanceof Error && error.message === 'CALDAV_PRECONDITION_FAILED'
+          ? 'changed on the CalDAV server during the sync, retrying next run'
+          : error instanceof Error ? error.message : 'Unknown error';
+        console.error(`❌ Failed to reconcile "${title}":`, error);
+        result.errors.push(`Failed to sync "${title}": ${message}`);
+      }
+    }
+
+    await db
+      .update(calendarSyncs)
+      .set({
+        lastSync: new Date(),
+        syncErrors: result.errors.length > 0 ? result.errors : null,
+      })
+      .where(eq(calendarSyncs.id, calendarSyncId));
+
+    result.success = result.errors.length === 0;
+    result.duration = Date.now() - startTime;
+    await logTwoWaySyncResult(calendarSyncId, result);
+
+    console.log(`🏁 Two-way sync completed: Google ${result.eventsCreated} created, ${result.eventsUpdated} updated, ${result.eventsDeleted} deleted; ${result.sourceEventsWritten} written to CalDAV; ${result.conflicts} conflicts; ${result.errors.length} errors`);
+    return result;
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+    result.errors.push(errorMsg);
+    result.duration = Date.now() - startTime;
+
+    await logTwoWaySyncResult(calendarSyncId, result);
+    throw error;
+  }
+}
+
+/**
+ * A synced event missing from one listing may only have moved out of the
+ * window; look it up before treating it as deleted. Returns false for such
+ * events, which are left alone.
+ */
+async function resolveMissingSides(context: TwoWayEventContext, target: TwoWayTarget): Promise<boolean> {
+  const { mapping } = context;
+  if (!mapping) return true;
+
+  if (!context.source && mapping.sourceHref) {
+    const source = await target.caldav.getEvent(mapping.sourceHref);
+    if (source) return false;
+  }
+
+  if (!context.google && mapping.googleEventId) {
+    try {
+      const response = await target.google.events.get({ calendarId: target.calendarId, eventId: mapping.googleEventId });
+      if (response.data.status !== 'cancelled') return false;
+    } catch (error: any) {
+      const gone = error.code === 404 || error.code === 410 || error.status === 404 || error.status === 410;
+      if (!gone) throw error;
+    }
+  }
+
+  return true;
+}
+
+async function reconcileEvent(
+  context: TwoWayEventContext,
+  policy: ConflictPolicy,
+  target: TwoWayTarget,
+  result: TwoWaySyncResult
+): Promise<void> {
+  const { uid, source, google, mapping } = context;
+  if (!(await resolveMissingSides(context, target))) {
+    result.eventsSkipped++;
+    return;
+  }
+
+  // The Google copy under the source UID, so both sides compare and write alike
+  const googleEvent = google && { ...fromGoogleEvent(google), uid };
+  const conflict = (mapping?.conflict as TwoWayConflict | null) ?? null;
+
+  const action: TwoWayAction = decideTwoWayAction(
+    {
+      source: source?.event,
+      google: googleEvent,
+      syncedHash: mapping ? mapping.syncedHash : undefined,
+      conflict,
+    },
+    policy
+  );
+
+  const save = (event: CalendarEvent, googleEventId: string, href = source?.href, etag = source?.etag) =>
+    saveTwoWayMapping(
+      target.calendarSyncId,
+      event,
+      googleEventId,
+      { sourceHref: href ?? null, sourceEtag: etag ?? null, syncedHash: revisionHash(event), conflict: null },
+      mapping
+    );
+
+  const forget = async () => {
+    if (mapping) await db.delete(eventMappings).where(eq(eventMappings.id, mapping.id));
+  };
+
+  switch (action) {
+    case 'none':
+      return;
+
+    case 'forget':
+      await forget();
+      return;
+
+    case 'link':
+      await save(source!.event, google!.id!);
+      return;
+
+    case 'conflict': {
+      const event = source?.event ?? googleEvent!;
+      await saveTwoWayMapping(
+        target.calendarSyncId,
+        event,
+        google?.id ?? mapping?.googleEventId ?? '',
+        {
+          sourceHref: source?.href ?? mapping?.sourceHref ?? null,
+          sourceEtag: source?.etag ?? mapping?.sourceEtag ?? null,
+          syncedHash: mapping?.syncedHash ?? null,
+          conflict: {
+            detectedAt: conflict?.detectedAt ?? new Date().toISOString(),
+            source: snapshotEvent(source?.event),
+            google: snapshotEvent(googleEvent),
+          },
+        },
+        mapping
+      );
+      result.conflicts++;
+      console.log(`⚠️ Conflicting edits of "${event.summary}" left for the user to resolve`);
+      return;
+    }
+
+    case 'create_google': {
+      const eventId = await createGoogleCalendarEvent(
+        target.calendarId, source!.event, target.userTimeZone, target.calendarSyncId, target.google, target.appearance
+      );
+      await save(source!.event, eventId);
+      result.eventsCreated++;
+      return;
+    }
+
+    case 'update_google': {
+      let eventId = google!.id!;
+      try {
+        await updateGoogleCalendarEvent(
+          target.calendarId, eventId, source!.event, target.userTimeZone, target.calendarSyncId, target.google, target.appearance
+        );
+      } catch (error) {
+        if (!(error instanceof Error && error.message === 'EVENT_NOT_FOUND')) throw error;
+        eventId = await createGoogleCalendarEvent(
+          target.calendarId, source!.event, target.userTimeZone, target.calendarSyncId, target.google, target.appearance
+        );
+      }
+      await save(source!.event, eventId);
+      result.eventsUpdated++;
+      return;
+    }
+
+    case 'delete_google':
+      await deleteGoogleCalendarEvent(target.calendarId, google!.id!, target.google);
+      await forget();
+      result.eventsDeleted++;
+      return;
+
+    case 'create_source': {
+      const resource = await target.caldav.createEvent(uid, serializeCalendarEvent(googleEvent!));
+      await save(googleEvent!, google!.id!, resource.href, resource.etag);
+      result.sourceEventsWritten++;
+      return;
+    }
+
+    case 'update_source': {
+      const resource = await target.caldav.updateEvent(source!, applyEventChanges(source!.data, googleEvent!));
+      await save(googleEvent!, google!.id!, resource.href, resource.etag);
+      result.sourceEventsWritten++;
+      return;
+    }
+
+    case 'delete_source':
+      await target.caldav.deleteEvent(source!);
+      await forget();
+      result.sourceEventsWritten++;
+      return;
+  }
+}
+
+async function logTwoWaySyncResult(calendarSyncId: string, result: TwoWaySyncResult): Promise<void> {
+  try {
+    await db.insert(syncLogs).values({
+      calendarSyncId,
+      eventsProcessed: result.eventsProcessed.toString(),
+      eventsCreated: result.eventsCreated.toString(),
+      eventsUpdated: result.eventsUpdated.toString(),
+      eventsDeleted: result.eventsDeleted.toString(),
+      errors: result.errors.length > 0 ? result.errors : null,
+      duration: `${result.duration}ms`,
+      status: result.success ? 'success' : 'error',
+      quotaUsage: result.quotaUsage ?? null,
+    });
+  } catch (error) {
+    console.error('Failed to log two-way sync result:', error);
+  }
+}
+
+/** Unresolved conflicts of a two-way sync, oldest first */
+export async function getSyncConflicts(calendarSyncId: string): Promise<SyncConflict[]> {
+  const rows = await db
+    .select()
+    .from(eventMappings)
+    .where(and(eq(eventMappings.calendarSyncId, calendarSyncId), isNotNull(eventMappings.conflict)));
+
+  return rows
+    .map(row => ({
+      mappingId: row.id,
+      sourceUid: row.sourceUid,
+      eventTitle: row.eventTitle,
+      conflict: row.conflict as TwoWayConflict,
+    }))
+    .sort((a, b) => a.conflict.detectedAt.localeCompare(b.conflict.detectedAt));
+}
+
+/**
+ * Record which side of a conflict to keep; the next run copies it over.
+ * Returns false when the sync has no such conflict.
+ */
+export async function resolveSyncConflict(
+  calendarSyncId: string,
+  mappingId: string,
+  resolution: ConflictSide
+): Promise<boolean> {
+  const rows = await db
+    .select()
+    .from(eventMappings)
+    .where(and(eq(eventMappings.id, mappingId), eq(eventMappings.calendarSyncId, calendarSyncId)))
+    .limit(1);
+
+  const conflict = rows[0]?.conflict as TwoWayConflict | null | undefined;
+  if (!conflict) return false;
+
+  await db
+    .update(eventMappings)
+    .set({ conflict: { ...conflict, resolution } })
+    .where(eq(eventMappings.id, mappingId));
+  return true;
+}
@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+import type { calendar_v3 } from 'googleapis';
+import type { CalendarEvent } from './ics-parser';
+import type { ConflictPolicy } from './sync-validation';
+import { getSourceUid } from './event-identity';
+
+/**
+ * Two-way sync decisions
+ *
+ * A two-way sync remembers, per event, the revision both sides agreed on
+ * after the last run (`syncedHash`). Comparing each side against it tells
+ * which side changed: a change on one side is copied to the other, a change
+ * on both is a conflict settled by the sync's policy. Under the `manual`
+ * policy the conflict is recorded and left alone until the user picks a side.
+ * A deletion counts as a change; `newest_wins` has no time for it, so the
+ * side that still has the event (and was edited) wins.
+ */
+
+export type TwoWayAction =
+  | 'none'
+  | 'link'
+  | 'forget'
+  | 'conflict'
+  | 'create_google'
+  | 'update_google'
+  | 'delete_google'
+  | 'create_source'
+  | 'update_source'
+  | 'delete_source';
+
+export type ConflictSide = 'source' | 'google';
+
+export interface EventSnapshot {
+  summary: string;
+  start: string;
+  end: string;
+  location?: string;
+  description?: string;
+  modifiedAt?: string;
+}
+
+export interface TwoWayConflict {
+  detectedAt: string;
+  // null when the event was deleted on that side
+  source: EventSnapshot | null;
+  google: EventSnapshot | null;
+  resolution?: ConflictSide;
+}
+
+export interface TwoWayEventState {
+  source?: CalendarEvent;
+  google?: CalendarEvent;
+  // Revision both sides had after the last run; null/undefined if they never agreed
+  syncedHash?: string | null;
+  conflict?: TwoWayConflict | null;
+}
+
+/** Hash of the fields a two-way sync keeps equal on both sides */
+export function revisionHash(event: CalendarEvent): string {
+  const content = JSON.stringify({
+    summary: event.summary.trim(),
+    description: (event.description || '').trim(),
+    location: (event.location || '').trim(),
+    start: event.start.toISOString(),
+    end: event.end.toISOString(),
+    allDay: !!event.allDay,
+    cancelled: (event.status || '').toUpperCase() === 'CANCELLED',
+  });
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/** A synced Google event as a source event, for comparing and writing back */
+export function fromGoogleEvent(googleEvent: calendar_v3.Schema$Event): CalendarEvent {
+  const allDay = !!googleEvent.start?.date;
+  // Dates parse to midnight UTC, like all-day events on the source side
+  const start = new Date(googleEvent.start?.dateTime || googleEvent.start?.date || 0);
+  const end = new Date(googleEvent.end?.dateTime || googleEvent.end?.date || start);
+
+  return {
+    uid: getSourceUid(googleEvent) || googleEvent.id || '',
+    summary: googleEvent.summary || '',
+    description: googleEvent.description || '',
+    location: googleEvent.location || '',
+    start,
+    end,
+    status: googleEvent.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    sourceTimezone: googleEvent.start?.timeZone || undefined,
+    ...(allDay && { allDay: true }),
+    ...(googleEvent.updated && { lastModified: new Date(googleEvent.updated) }),
+  };
+}
+
+export function snapshotEvent(event?: CalendarEvent): EventSnapshot | null {
+  if (!event) return null;
+
+  return {
+    summary: event.summary,
+    start: event.start.toISOString(),
+    end: event.end.toISOString(),
+    ...(event.location && { location: event.location }),
+    ...(event.description && { description: event.description }),
+    ...(event.lastModified && { modifiedAt: event.lastModified.toISOString() }),
+  };
+}
+
+function pickWinner(state: TwoWayEventState, policy: ConflictPolicy): ConflictSide | null {
+  switch (policy) {
+    case 'source_wins':
+      return 'source';
+    case 'google_wins':
+      return 'google';
+    case 'newest_wins': {
+      if (!state.source) return 'google';
+      if (!state.google) return 'source';
+      const sourceTime = state.source.lastModified?.getTime() ?? 0;
+      const googleTime = state.google.lastModified?.getTime() ?? 0;
+      return googleTime > sourceTime ? 'google' : 'source';
+    }
+    case 'manual':
+      return null;
+  }
+}
+
+function copyFrom(winner: ConflictSide, state: TwoWayEventState): TwoWayAction {
+  if (winner === 'source') {
+    if (!state.source) return 'delete_google';
+    return state.google ? 'update_google' : 'create_google';
+  }
+
+  if (!state.google) return 'delete_source';
+  return state.source ? 'update_source' : 'create_source';
+}
+
+/** What a run does with one event, given both sides and the last agreed revision */
+export function decideTwoWayAction(state: TwoWayEventState, policy: ConflictPolicy): TwoWayAction {
+  const { source, google } = state;
+  if (!source && !google) {
+    return state.syncedHash !== undefined ? 'forget' : 'none';
+  }
+
+  const sourceHash = source && revisionHash(source);
+  const googleHash = google && revisionHash(google);
+
+  // Never agreed: copy whatever exists, and treat differing copies as a conflict
+  if (state.syncedHash == null) {
+    if (!google) return 'create_google';
+    if (!source) return 'delete_google';
+    if (sourceHash === googleHash) return 'link';
+  } else {
+    const sourceChanged = sourceHash !== state.syncedHash;
+    const googleChanged = googleHash !== state.syncedHash;
+
+    if (!sourceChanged && !googleChanged) return 'none';
+    if (!googleChanged) return copyFrom('source', state);
+    if (!sourceChanged) return copyFrom('google', state);
+    // Both sides made the same edit
+    if (sourceHash === googleHash) return 'link';
+  }
+
+  const winner = state.conflict?.resolution ?? pickWinner(state, policy);
+  return winner ? copyFrom(winner, state) : 'conflict';
+}
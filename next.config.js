@@ -1,7 +1,8 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: {
-    serverComponentsExternalPackages: ['googleapis']
+    // re2-wasm loads its .wasm file from its own directory at runtime
+    serverComponentsExternalPackages: ['googleapis', 're2-wasm']
   },
   // Security headers for production
   async headers() {
@@ -57,6 +58,13 @@ const nextConfig = {
         destination: '/api/cron/:path*'
       }
     ]
+  },
+  webpack(config, { isServer }) {
+    // Filter rules are only matched on the server; the rule editor just needs their constants
+    if (!isServer) {
+      config.resolve.alias = { ...config.resolve.alias, 're2-wasm': false }
+    }
+    return config
   }
 }
 